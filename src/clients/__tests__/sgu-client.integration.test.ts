@@ -72,4 +72,22 @@ describe('sgu-client WMS integration (real API)', { timeout: 30000 }, () => {
       }
     });
   });
+
+  // Göta älv valley: clay slopes along the river, eroding shores at the coast further south
+  describe('landslide screening layers at Göta älv (58.10, 12.13)', () => {
+    const valleyPoint = wgs84ToSweref99({ latitude: 58.1, longitude: 12.13 });
+
+    it('finds slope prerequisite areas with a class', async () => {
+      const result = await sguClient.getSlopePrerequisitesNear(valleyPoint, 2000);
+      expect(result.features.length).toBeGreaterThan(0);
+      expect(result.features[0].info.hazard_class).toBeDefined();
+    });
+
+    it('answers the shore erosion layer', async () => {
+      const result = await sguClient.getShoreErosionNear(valleyPoint, 2000);
+      for (const feature of result.features) {
+        expect(feature.info.hazard_class).toBeDefined();
+      }
+    });
+  });
 });
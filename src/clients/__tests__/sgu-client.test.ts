@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockRequest = vi.fn();
+
+// Mock HTTP layer — map planning only builds URLs, point queries read the mocked responses.
+// The clients are created at import, before mockRequest is initialised, so look it up per call.
+vi.mock('@/lib/http-client', () => ({
+  createHttpClient: vi.fn(() => ({ request: (...args: unknown[]) => mockRequest(...args) })),
+}));
+
+import { sguClient } from '../sgu-client';
+import { UpstreamApiError, ValidationError } from '@/lib/errors';
+
+const bbox = { minX: 670000, minY: 6570000, maxX: 680000, maxY: 6580000 };
+
+function layersParam(mapUrl: string): string[] {
+  return new URL(mapUrl).searchParams.get('LAYERS')!.split(',');
+}
+
+describe('sguClient.planMapRequests', () => {
+  it('combines layers from the same WMS endpoint into one request', () => {
+    const { requests } = sguClient.planMapRequests(
+      [
+        { layer: 'soil_types', opacity: 1 },
+        { layer: 'landslide', opacity: 1 },
+      ],
+      bbox,
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].layers).toEqual(['soil_types', 'landslide']);
+    expect(requests[0].map_url).toContain('https://maps3.sgu.se/geoserver/jord/ows?');
+    expect(layersParam(requests[0].map_url)).toEqual(['SE.GOV.SGU.JORD.GRUNDLAGER.25K', 'SE.GOV.SGU.JORD.SKRED']);
+  });
+
+  it('combines workspaces on the same GeoServer host via the global endpoint', () => {
+    const { requests } = sguClient.planMapRequests(
+      [
+        { layer: 'soil_types', opacity: 1 },
+        { layer: 'wells', opacity: 1 },
+      ],
+      bbox,
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].map_url).toContain('https://maps3.sgu.se/geoserver/ows?');
+    expect(layersParam(requests[0].map_url)).toEqual([
+      'jord:SE.GOV.SGU.JORD.GRUNDLAGER.25K',
+      'grundvatten:SE.GOV.SGU.BRUNNAR.250K',
+    ]);
+  });
+
+  it('splits layers from different hosts into separate requests, keeping draw order', () => {
+    const { requests } = sguClient.planMapRequests(
+      [
+        { layer: 'soil_types', opacity: 1 },
+        { layer: 'gravel_deposits', opacity: 0.6 },
+        { layer: 'wells', opacity: 0.6 },
+      ],
+      bbox,
+    );
+
+    expect(requests.map((r) => r.layers)).toEqual([['soil_types'], ['gravel_deposits'], ['wells']]);
+    expect(requests[1].map_url).toContain('resource.sgu.se');
+    expect(requests[1].opacity).toBe(0.6);
+  });
+
+  it('splits same-host layers with different opacity', () => {
+    const { requests } = sguClient.planMapRequests(
+      [
+        { layer: 'soil_types', opacity: 1 },
+        { layer: 'landslide', opacity: 0.5 },
+      ],
+      bbox,
+    );
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('returns a legend per layer in order', () => {
+    const { legends } = sguClient.planMapRequests(
+      [
+        { layer: 'bedrock', opacity: 1 },
+        { layer: 'radon_risk', opacity: 1 },
+      ],
+      bbox,
+    );
+
+    expect(legends.map((l) => l.layer)).toEqual(['bedrock', 'radon_risk']);
+    expect(legends[1].legend_url).toContain('LAYER=SE.GOV.SGU.URAN');
+  });
+});
+
+// 50 m square scar whose lower-left corner is `east` meters east of the point
+function scarAt(point: { x: number; y: number }, east: number, description: string) {
+  const x0 = point.x + east;
+  const y0 = point.y;
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [x0, y0],
+          [x0 + 50, y0],
+          [x0 + 50, y0 + 50],
+          [x0, y0 + 50],
+          [x0, y0],
+        ],
+      ],
+    },
+    properties: { Beskrivning: description },
+  };
+}
+
+describe('sguClient.getLandslideAt', () => {
+  const point = { x: 340000, y: 6430000 };
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  it('finds scars with one GetFeatureInfo using a pixel tolerance and feature count', async () => {
+    mockRequest.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+
+    const result = await sguClient.getLandslideAt(point);
+
+    expect(result).toBeNull();
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+    expect(mockRequest.mock.calls[0][1].params).toMatchObject({ I: 128, J: 128, FEATURE_COUNT: 50, BUFFER: 64 });
+  });
+
+  it('returns the nearest scar and lists every scar found', async () => {
+    mockRequest.mockResolvedValue({
+      type: 'FeatureCollection',
+      features: [scarAt(point, 600, 'Skredärr i morän'), scarAt(point, 200, 'Skredärr i finkornig jordart')],
+    });
+
+    const result = await sguClient.getLandslideAt(point);
+
+    expect(result).toMatchObject({ description: 'Skredärr i finkornig jordart', distance_m: 200, scar_count: 2 });
+    expect(result!.scars).toEqual([
+      { description: 'Skredärr i finkornig jordart', distance_m: 200 },
+      { description: 'Skredärr i morän', distance_m: 600 },
+    ]);
+  });
+});
+
+// GeoServer GetFeatureInfo (application/json) shape; the class attribute names are the ones the transforms expect
+function hazardResponse(layer: string, properties: Record<string, unknown>) {
+  return {
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', id: `${layer}.1`, geometry: null, properties }],
+    crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3006' } },
+  };
+}
+
+describe('sguClient screening layers', () => {
+  const point = { x: 340000, y: 6430000 };
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  it('queries the slope prerequisite layer and maps its class', async () => {
+    mockRequest.mockResolvedValue(
+      hazardResponse('FORUTSATTNINGAR_SKRED_FINKORNIG', { klass: 2, Beskrivning: 'Förutsättningar för skred' }),
+    );
+
+    const result = await sguClient.getSlopePrerequisitesNear(point, 500);
+
+    expect(mockRequest.mock.calls[0][1].params.QUERY_LAYERS).toBe('SE.GOV.SGU.JORD.FORUTSATTNINGAR_SKRED_FINKORNIG');
+    expect(result.features).toEqual([
+      {
+        id: 'FORUTSATTNINGAR_SKRED_FINKORNIG.1',
+        geometry: undefined,
+        info: { hazard_class: '2', description: 'Förutsättningar för skred' },
+      },
+    ]);
+  });
+
+  it('queries the shore erosion layer and maps its erodibility', async () => {
+    mockRequest.mockResolvedValue(hazardResponse('STRANDEROSION', { eroderbarhet: 'Hög', Beskrivning: 'Sandstrand' }));
+
+    const result = await sguClient.getShoreErosionNear(point, 500);
+
+    expect(mockRequest.mock.calls[0][1].params.QUERY_LAYERS).toBe('SE.GOV.SGU.JORD.STRANDEROSION');
+    expect(result.features[0].info).toEqual({ hazard_class: 'Hög', description: 'Sandstrand' });
+  });
+
+  it('passes the attributes through when the class attribute is missing', async () => {
+    mockRequest.mockResolvedValue(hazardResponse('STRANDEROSION', { EROSIONSKLASS: 3, Beskrivning: 'Klapperstrand' }));
+
+    const result = await sguClient.getShoreErosionNear(point, 500);
+
+    expect(result.features[0].info).toEqual({
+      hazard_class: undefined,
+      description: 'Klapperstrand',
+      attributes: { EROSIONSKLASS: 3, Beskrivning: 'Klapperstrand' },
+    });
+  });
+});
+
+// resource.sgu.se speaks WMS 1.1.1; the radius relies on the service honouring the BUFFER pixel tolerance
+describe('sguClient ballast radius queries', () => {
+  const point = { x: 500000, y: 6500000 };
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  it('asks for features within the radius with WMS 1.1.1 parameters and a tolerance out to the edge', async () => {
+    mockRequest.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+
+    await sguClient.getGravelDepositsNear(point, 1000);
+
+    const { params } = mockRequest.mock.calls[0][1];
+    expect(params).toMatchObject({
+      VERSION: '1.1.1',
+      REQUEST: 'GetFeatureInfo',
+      SRS: 'EPSG:3006',
+      BBOX: '499000,6499000,501000,6501000',
+      WIDTH: 501,
+      HEIGHT: 501,
+      X: 250,
+      Y: 250,
+      BUFFER: 250,
+      FEATURE_COUNT: 50,
+      INFO_FORMAT: 'application/json',
+    });
+    expect(params).not.toHaveProperty('I');
+    expect(params).not.toHaveProperty('CRS');
+  });
+});
+
+describe('sguClient.fetchMapImage', () => {
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  it('caps the download and reports an oversized map as a validation error', async () => {
+    mockRequest.mockRejectedValue(
+      new UpstreamApiError('too large', 200, 'https://maps3.sgu.se', undefined, 'RESPONSE_TOO_LARGE'),
+    );
+
+    const error = await sguClient
+      .fetchMapImage('https://maps3.sgu.se/geoserver/jord/ows?REQUEST=GetMap', 1024 * 1024)
+      .catch((e: unknown) => e);
+
+    expect(mockRequest.mock.calls[0][1]).toMatchObject({ responseType: 'binary', maxBytes: 1024 * 1024 });
+    expect(error).toBeInstanceOf(ValidationError);
+  });
+});
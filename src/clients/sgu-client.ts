@@ -1,20 +1,38 @@
 import { createWmsClient } from '@/lib/wms-client';
-import { BoundingBox, Point } from '@/lib/geometry-utils';
+import { createHttpClient, type BinaryBody } from '@/lib/http-client';
+import { UpstreamApiError, ValidationError } from '@/lib/errors';
+import { CACHE_TTL } from '@/lib/cache';
+import type { ServiceDefinition } from '@/lib/service-status';
+import { relatePointToGeometry, type BoundingBox, type Point } from '@/lib/geometry-utils';
 import { MapOptions, MapResponse } from '@/types/common-schemas';
 import {
   SguSoilDepthInfoResponse,
-  SguLandslideInfoResponse,
   SguGroundwaterVulnerabilityInfoResponse,
   SguRadonRiskInfoResponse,
+  SguBoulderCoverageInfoResponse,
+  SguGravelDepositInfoResponse,
+  SguRockDepositInfoResponse,
   SoilDepthInfo,
   LandslideInfo,
   GroundwaterVulnerabilityInfo,
   RadonRiskInfo,
+  BoulderCoverageInfo,
+  GravelDepositInfo,
+  RockDepositInfo,
   transformSoilDepthInfo,
-  transformLandslideInfo,
+  transformScannedLandslides,
   transformGroundwaterVulnerabilityInfo,
   transformRadonRiskInfo,
+  transformBoulderCoverageInfo,
+  transformGravelDepositInfo,
+  transformRockDepositInfo,
+  transformGravelDepositProperties,
+  transformRockDepositProperties,
+  transformLandslideProperties,
+  transformSlopePrerequisiteProperties,
+  transformShoreErosionProperties,
 } from '@/types/point-queries';
+import type { GeoJsonGeometry } from '@/types/geojson';
 
 // ============================================================================
 // SGU API Endpoints
@@ -42,21 +60,25 @@ const bedrockWmsClient = createWmsClient({
 const soilTypesWmsClient = createWmsClient({
   baseUrl: SGU_WMS_SOIL_TYPES_URL,
   timeout: 30000,
+  cacheTtlMs: CACHE_TTL.hazard,
 });
 
 const soilDepthWmsClient = createWmsClient({
   baseUrl: SGU_WMS_SOIL_DEPTH_URL,
   timeout: 30000,
+  cacheTtlMs: CACHE_TTL.mapProduct,
 });
 
 const groundwaterWmsClient = createWmsClient({
   baseUrl: SGU_WMS_GROUNDWATER_URL,
   timeout: 30000,
+  cacheTtlMs: CACHE_TTL.hazard,
 });
 
 const gammaWmsClient = createWmsClient({
   baseUrl: SGU_WMS_GAMMA_URL,
   timeout: 30000,
+  cacheTtlMs: CACHE_TTL.hazard,
 });
 
 const wellsWmsClient = createWmsClient({
@@ -67,6 +89,8 @@ const wellsWmsClient = createWmsClient({
 const ballastWmsClient = createWmsClient({
   baseUrl: SGU_WMS_BALLAST_URL,
   timeout: 30000,
+  cacheTtlMs: CACHE_TTL.mapProduct,
+  version: '1.1.1',
 });
 
 // ============================================================================
@@ -79,6 +103,9 @@ const BOULDER_COVERAGE_LAYERS = ['SE.GOV.SGU.JORD.BLOCKIGHET.25K'];
 const SOIL_DEPTH_LAYERS = ['SE.GOV.SGU.MISC.JORDDJUPSMODELL.RASTER_INTERVALL'];
 const GROUNDWATER_LAYERS = ['SE.GOV.SGU.HMAG.GRUNDVATTENMAGASIN_J1.V2'];
 const LANDSLIDE_LAYERS = ['SE.GOV.SGU.JORD.SKRED'];
+// Landslide and erosion screening layers (jord workspace, next to the scars)
+const SLOPE_PREREQUISITE_LAYERS = ['SE.GOV.SGU.JORD.FORUTSATTNINGAR_SKRED_FINKORNIG'];
+const SHORE_EROSION_LAYERS = ['SE.GOV.SGU.JORD.STRANDEROSION'];
 const RADON_RISK_LAYERS = ['SE.GOV.SGU.URAN'];
 const WELLS_LAYERS = ['SE.GOV.SGU.BRUNNAR.250K'];
 // Groundwater vulnerability (on maps3.sgu.se)
@@ -147,8 +174,6 @@ function createPointQueryMethod<TResponse, TResult>(
   layers: string[],
   transform: (response: TResponse) => TResult | null,
   bufferMeters: number = 100,
-  // Sparse polygon layers (e.g. landslide) need grid scanning — center pixel often misses
-  gridScan: boolean = false,
 ): (point: Point) => Promise<TResult | null> {
   return async (point: Point): Promise<TResult | null> => {
     const buffer = bufferMeters;
@@ -162,43 +187,357 @@ function createPointQueryMethod<TResponse, TResult>(
     const width = 256;
     const height = 256;
 
-    if (!gridScan) {
-      const response = await wmsClient.getFeatureInfo<TResponse>({
-        layers,
-        bbox,
-        width,
-        height,
-        x: Math.floor(width / 2),
-        y: Math.floor(height / 2),
-      });
-      return transform(response);
+    const response = await wmsClient.getFeatureInfo<TResponse>({
+      layers,
+      bbox,
+      width,
+      height,
+      x: Math.floor(width / 2),
+      y: Math.floor(height / 2),
+    });
+    return transform(response);
+  };
+}
+
+/** A feature found by a scan query, with its distance from the point when the service provides a geometry */
+interface ScannedFeature<TResult> {
+  /** Distance in meters from the query point to the feature (0 = the point is inside) */
+  distance_m?: number;
+  info: TResult;
+}
+
+const SCAN_PIXELS = 256;
+const SCAN_FEATURE_COUNT = 50;
+// Search tolerance around the center pixel, a quarter of the box width (±1 km in the 4 km landslide box)
+const SCAN_BUFFER_PIXELS = 64;
+
+/**
+ * Sparse polygon layers (e.g. landslide scars), where the center pixel usually misses: one GetFeatureInfo
+ * with a pixel tolerance and FEATURE_COUNT returns every feature near the point, nearest first.
+ */
+function createScanQueryMethod<TProperties, TResult>(
+  wmsClient: ReturnType<typeof createWmsClient>,
+  layers: string[],
+  transform: (properties: TProperties) => TResult,
+  bufferMeters: number,
+): (point: Point) => Promise<ScannedFeature<TResult>[]> {
+  return async (point: Point) => {
+    const bbox: BoundingBox = {
+      minX: point.x - bufferMeters,
+      minY: point.y - bufferMeters,
+      maxX: point.x + bufferMeters,
+      maxY: point.y + bufferMeters,
+    };
+    const response = await wmsClient.getFeatureInfo<{
+      features?: Array<{ geometry?: GeoJsonGeometry | null; properties: TProperties }>;
+    }>({
+      layers,
+      bbox,
+      width: SCAN_PIXELS,
+      height: SCAN_PIXELS,
+      x: SCAN_PIXELS / 2,
+      y: SCAN_PIXELS / 2,
+      featureCount: SCAN_FEATURE_COUNT,
+      buffer: SCAN_BUFFER_PIXELS,
+    });
+
+    return (response.features ?? [])
+      .map((f) => ({
+        distance_m: f.geometry ? Math.round(relatePointToGeometry(f.geometry, [point.x, point.y]).distance) : undefined,
+        info: transform(f.properties),
+      }))
+      .sort((a, b) => (a.distance_m ?? Infinity) - (b.distance_m ?? Infinity));
+  };
+}
+
+// MinScaleDenominator requires ≥2km bbox
+const scanLandslides = createScanQueryMethod(soilTypesWmsClient, LANDSLIDE_LAYERS, transformLandslideProperties, 2000);
+
+/** A feature returned by a radius query, with its geometry in SWEREF99TM when the service provides it */
+export interface NearbyFeature<TResult> {
+  id?: string;
+  geometry?: GeoJsonGeometry;
+  info: TResult;
+}
+
+// Features per radius query. GeoServer returns them in storage order, not by distance.
+const RADIUS_QUERY_FEATURE_COUNT = 50;
+
+// The search square is rendered at this size whatever the radius; odd so the point sits on the center pixel
+const RADIUS_QUERY_PIXELS = 501;
+
+// The scar layer is hidden below a map scale; at 501 px this keeps the square as coarse as getLandslideAt's 2 km box
+const LANDSLIDE_MIN_QUERY_RADIUS_M = 2000;
+
+function createRadiusQueryMethod<TProperties, TResult>(
+  wmsClient: ReturnType<typeof createWmsClient>,
+  layers: string[],
+  transform: (properties: TProperties) => TResult,
+  // Layers with a MinScaleDenominator need a larger square; callers filter the extra features by distance
+  minQueryRadiusMeters: number = 0,
+): (point: Point, radiusMeters: number) => Promise<{ features: NearbyFeature<TResult>[]; truncated: boolean }> {
+  return async (point: Point, radiusMeters: number) => {
+    const queryRadius = Math.max(radiusMeters, minQueryRadiusMeters);
+    const bbox: BoundingBox = {
+      minX: point.x - queryRadius,
+      minY: point.y - queryRadius,
+      maxX: point.x + queryRadius,
+      maxY: point.y + queryRadius,
+    };
+    const center = Math.floor(RADIUS_QUERY_PIXELS / 2);
+
+    const response = await wmsClient.getFeatureInfo<{
+      features?: Array<{ id?: string; geometry?: GeoJsonGeometry | null; properties: TProperties }>;
+    }>({
+      layers,
+      bbox,
+      width: RADIUS_QUERY_PIXELS,
+      height: RADIUS_QUERY_PIXELS,
+      x: center,
+      y: center,
+      featureCount: RADIUS_QUERY_FEATURE_COUNT,
+      // Tolerance out to the edge of the square
+      buffer: center,
+    });
+
+    const features = response.features ?? [];
+    return {
+      features: features.map((f) => ({ id: f.id, geometry: f.geometry ?? undefined, info: transform(f.properties) })),
+      truncated: features.length >= RADIUS_QUERY_FEATURE_COUNT,
+    };
+  };
+}
+
+// Download a rendered GetMap URL. GeoServer reports WMS errors as HTTP 200 XML, so check the type.
+async function fetchMapImage(mapUrl: string, maxBytes: number): Promise<BinaryBody> {
+  const client = createHttpClient({ baseUrl: mapUrl, timeout: 30000 });
+  let image: BinaryBody;
+  try {
+    // Stops downloading at maxBytes
+    image = await client.request<BinaryBody>('', { responseType: 'binary', maxBytes });
+  } catch (error) {
+    if (error instanceof UpstreamApiError && error.code === 'RESPONSE_TOO_LARGE') {
+      throw new ValidationError(
+        `The rendered map is above the ${Math.round(maxBytes / 1024)} KB image limit. ` +
+          'Use format "jpeg" or a smaller width/height.',
+        'includeImage',
+      );
     }
+    throw error;
+  }
+
+  if (!image.mimeType.startsWith('image/')) {
+    throw new UpstreamApiError(
+      'The map service returned an error instead of an image. The layer may not be available for this area.',
+      200,
+      mapUrl,
+    );
+  }
+  return image;
+}
+
+// ============================================================================
+// Multi-layer maps
+// ============================================================================
+
+interface MapLayerSource {
+  wmsClient: ReturnType<typeof createWmsClient>;
+  baseUrl: string;
+  layers: string[];
+  legendKey: keyof typeof LEGEND_URLS;
+}
+
+// Keyed by sgu_get_map layer name
+const MAP_LAYER_SOURCES: Record<string, MapLayerSource> = {
+  bedrock: { wmsClient: bedrockWmsClient, baseUrl: SGU_WMS_BEDROCK_URL, layers: BEDROCK_LAYERS, legendKey: 'bedrock' },
+  soil_types: {
+    wmsClient: soilTypesWmsClient,
+    baseUrl: SGU_WMS_SOIL_TYPES_URL,
+    layers: SOIL_TYPES_LAYERS,
+    legendKey: 'soilTypes',
+  },
+  boulder_coverage: {
+    wmsClient: soilTypesWmsClient,
+    baseUrl: SGU_WMS_SOIL_TYPES_URL,
+    layers: BOULDER_COVERAGE_LAYERS,
+    legendKey: 'boulderCoverage',
+  },
+  soil_depth: {
+    wmsClient: soilDepthWmsClient,
+    baseUrl: SGU_WMS_SOIL_DEPTH_URL,
+    layers: SOIL_DEPTH_LAYERS,
+    legendKey: 'soilDepth',
+  },
+  groundwater: {
+    wmsClient: groundwaterWmsClient,
+    baseUrl: SGU_WMS_GROUNDWATER_URL,
+    layers: GROUNDWATER_LAYERS,
+    legendKey: 'groundwater',
+  },
+  groundwater_vulnerability: {
+    wmsClient: groundwaterWmsClient,
+    baseUrl: SGU_WMS_GROUNDWATER_URL,
+    layers: GROUNDWATER_VULNERABILITY_LAYERS,
+    legendKey: 'groundwaterVulnerability',
+  },
+  landslide: {
+    wmsClient: soilTypesWmsClient,
+    baseUrl: SGU_WMS_SOIL_TYPES_URL,
+    layers: LANDSLIDE_LAYERS,
+    legendKey: 'landslide',
+  },
+  radon_risk: { wmsClient: gammaWmsClient, baseUrl: SGU_WMS_GAMMA_URL, layers: RADON_RISK_LAYERS, legendKey: 'radonRisk' },
+  wells: { wmsClient: wellsWmsClient, baseUrl: SGU_WMS_WELLS_URL, layers: WELLS_LAYERS, legendKey: 'wells' },
+  gravel_deposits: {
+    wmsClient: ballastWmsClient,
+    baseUrl: SGU_WMS_BALLAST_URL,
+    layers: GRAVEL_DEPOSITS_LAYERS,
+    legendKey: 'gravelDeposits',
+  },
+  rock_deposits: {
+    wmsClient: ballastWmsClient,
+    baseUrl: SGU_WMS_BALLAST_URL,
+    layers: ROCK_DEPOSITS_LAYERS,
+    legendKey: 'rockDeposits',
+  },
+};
+
+export interface MapLayerRequest {
+  /** sgu_get_map layer name */
+  layer: string;
+  /** 0–1 */
+  opacity: number;
+}
 
-    // Grid scan: check 3x3 grid of pixels across the bbox for sparse polygon layers
-    const positions = [128, 64, 192]; // center, 25%, 75%
-    for (const x of positions) {
-      for (const y of positions) {
-        const response = await wmsClient.getFeatureInfo<TResponse>({
-          layers,
-          bbox,
-          width,
-          height,
-          x,
-          y,
-        });
-        const result = transform(response);
-        if (result !== null) return result;
-      }
+/** One GetMap request covering a run of consecutive layers from the same host */
+export interface MapRequest {
+  layers: string[];
+  opacity: number;
+  map_url: string;
+}
+
+// GeoServer workspace endpoint (/geoserver/<workspace>/ows) → workspace name; undefined for the global /geoserver/ows
+function geoserverWorkspace(baseUrl: string): string | undefined {
+  return new URL(baseUrl).pathname.match(/^\/geoserver\/([^/]+)\/ows$/)?.[1];
+}
+
+function isGeoserver(baseUrl: string): boolean {
+  return new URL(baseUrl).pathname.startsWith('/geoserver/');
+}
+
+// Layers from two endpoints can share a GetMap when both are workspaces of the same GeoServer
+function canCombine(a: MapLayerSource, b: MapLayerSource): boolean {
+  if (a.baseUrl === b.baseUrl) return true;
+  return new URL(a.baseUrl).host === new URL(b.baseUrl).host && isGeoserver(a.baseUrl) && isGeoserver(b.baseUrl);
+}
+
+function buildMapRequest(
+  group: { request: MapLayerRequest; source: MapLayerSource }[],
+  bbox: BoundingBox,
+  options: MapOptions,
+): MapRequest {
+  const { width = 800, height = 600, format = 'png' } = options;
+  const single = group.every((g) => g.source.baseUrl === group[0].source.baseUrl);
+
+  // Mixed workspaces go through GeoServer's global endpoint with workspace-qualified layer names
+  const wmsClient = single
+    ? group[0].source.wmsClient
+    : createWmsClient({ baseUrl: `${new URL(group[0].source.baseUrl).origin}/geoserver/ows` });
+  const layers = group.flatMap(({ source }) => {
+    const workspace = geoserverWorkspace(source.baseUrl);
+    return single || !workspace ? source.layers : source.layers.map((l) => `${workspace}:${l}`);
+  });
+
+  return {
+    layers: group.map((g) => g.request.layer),
+    opacity: group[0].request.opacity,
+    map_url: wmsClient.getMapUrl({
+      layers,
+      bbox,
+      width,
+      height,
+      format: format === 'jpeg' ? 'image/jpeg' : 'image/png',
+    }),
+  };
+}
+
+/**
+ * Plan the GetMap requests for an ordered (bottom → top) list of layers. Consecutive layers from the
+ * same host with the same opacity share one LAYERS= request; everything else needs compositing.
+ */
+function planMapRequests(
+  requests: MapLayerRequest[],
+  bbox: BoundingBox,
+  options: MapOptions = {},
+): { requests: MapRequest[]; legends: { layer: string; legend_url: string }[] } {
+  const groups: { request: MapLayerRequest; source: MapLayerSource }[][] = [];
+  for (const request of requests) {
+    const source = MAP_LAYER_SOURCES[request.layer];
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (previous && previous.request.opacity === request.opacity && canCombine(previous.source, source)) {
+      current.push({ request, source });
+    } else {
+      groups.push([{ request, source }]);
     }
-    return null;
+  }
+
+  return {
+    requests: groups.map((group) => buildMapRequest(group, bbox, options)),
+    legends: requests.map(({ layer }) => ({ layer, legend_url: LEGEND_URLS[MAP_LAYER_SOURCES[layer].legendKey] })),
   };
 }
 
+// ============================================================================
+// WMS services (sgu_status probes)
+// ============================================================================
+
+function wmsService(
+  name: string,
+  url: string,
+  wmsClient: ReturnType<typeof createWmsClient>,
+  dataTypes: string[],
+  mapLayers: string[],
+): ServiceDefinition {
+  return { name, url, dataTypes, mapLayers, probe: (policy) => wmsClient.getCapabilities(policy) };
+}
+
+const WMS_SERVICES: ServiceDefinition[] = [
+  wmsService('wms:berg', SGU_WMS_BEDROCK_URL, bedrockWmsClient, [], ['bedrock']),
+  wmsService(
+    'wms:jord',
+    SGU_WMS_SOIL_TYPES_URL,
+    soilTypesWmsClient,
+    ['landslide', 'boulder_coverage'],
+    ['soil_types', 'boulder_coverage', 'landslide'],
+  ),
+  wmsService('wms:misc', SGU_WMS_SOIL_DEPTH_URL, soilDepthWmsClient, ['soil_depth'], ['soil_depth']),
+  wmsService(
+    'wms:ows',
+    SGU_WMS_GROUNDWATER_URL,
+    groundwaterWmsClient,
+    ['groundwater_vulnerability'],
+    ['groundwater', 'groundwater_vulnerability'],
+  ),
+  wmsService('wms:fysik', SGU_WMS_GAMMA_URL, gammaWmsClient, ['radon_risk'], ['radon_risk']),
+  wmsService('wms:grundvatten', SGU_WMS_WELLS_URL, wellsWmsClient, [], ['wells']),
+  wmsService(
+    'wms:ballast',
+    SGU_WMS_BALLAST_URL,
+    ballastWmsClient,
+    ['gravel_deposits', 'rock_deposits'],
+    ['gravel_deposits', 'rock_deposits'],
+  ),
+];
+
 // ============================================================================
 // SGU Client API
 // ============================================================================
 
 export const sguClient = {
+  /** WMS endpoints with GetCapabilities probes — used by sgu-status.ts */
+  wmsServices: WMS_SERVICES,
+
   // ==========================================================================
   // Map URL Methods (WMS GetMap) — used by get-map.ts
   // ==========================================================================
@@ -218,6 +557,8 @@ export const sguClient = {
   ),
   getGravelDepositsMapUrl: createMapUrlMethod(ballastWmsClient, GRAVEL_DEPOSITS_LAYERS, 'gravelDeposits'),
   getRockDepositsMapUrl: createMapUrlMethod(ballastWmsClient, ROCK_DEPOSITS_LAYERS, 'rockDeposits'),
+  fetchMapImage,
+  planMapRequests,
 
   // ==========================================================================
   // Point Query Methods (WMS GetFeatureInfo) — used by data-registry.ts
@@ -241,11 +582,48 @@ export const sguClient = {
     transformGroundwaterVulnerabilityInfo,
   ),
 
-  getLandslideAt: createPointQueryMethod<SguLandslideInfoResponse, LandslideInfo>(
+  getLandslideAt: async (point: Point): Promise<LandslideInfo | null> =>
+    transformScannedLandslides(await scanLandslides(point)),
+
+  getBoulderCoverageAt: createPointQueryMethod<SguBoulderCoverageInfoResponse, BoulderCoverageInfo>(
+    soilTypesWmsClient,
+    BOULDER_COVERAGE_LAYERS,
+    transformBoulderCoverageInfo,
+  ),
+
+  getGravelDepositAt: createPointQueryMethod<SguGravelDepositInfoResponse, GravelDepositInfo>(
+    ballastWmsClient,
+    GRAVEL_DEPOSITS_LAYERS,
+    transformGravelDepositInfo,
+  ),
+
+  getRockDepositAt: createPointQueryMethod<SguRockDepositInfoResponse, RockDepositInfo>(
+    ballastWmsClient,
+    ROCK_DEPOSITS_LAYERS,
+    transformRockDepositInfo,
+  ),
+
+  // ==========================================================================
+  // Radius Query Methods (WMS GetFeatureInfo, many features) — used by sgu-nearest-deposits.ts
+  // and sgu-landslide-screening.ts
+  // ==========================================================================
+
+  getGravelDepositsNear: createRadiusQueryMethod(ballastWmsClient, GRAVEL_DEPOSITS_LAYERS, transformGravelDepositProperties),
+
+  getRockDepositsNear: createRadiusQueryMethod(ballastWmsClient, ROCK_DEPOSITS_LAYERS, transformRockDepositProperties),
+
+  getLandslidesNear: createRadiusQueryMethod(
     soilTypesWmsClient,
     LANDSLIDE_LAYERS,
-    transformLandslideInfo,
-    2000, // MinScaleDenominator requires ≥2km bbox
-    true, // Grid scan — landslide scars are sparse polygons, center pixel often misses
+    transformLandslideProperties,
+    LANDSLIDE_MIN_QUERY_RADIUS_M,
+  ),
+
+  getSlopePrerequisitesNear: createRadiusQueryMethod(
+    soilTypesWmsClient,
+    SLOPE_PREREQUISITE_LAYERS,
+    transformSlopePrerequisiteProperties,
   ),
+
+  getShoreErosionNear: createRadiusQueryMethod(soilTypesWmsClient, SHORE_EROSION_LAYERS, transformShoreErosionProperties),
 };
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeAreaSamples } from '../area-statistics';
+
+describe('summarizeAreaSamples', () => {
+  it('reports min/max/mean and class shares for soil depth', () => {
+    const stats = summarizeAreaSamples(
+      'soil_depth',
+      [
+        { depth_m: 1, depth_class: '0-1 m' },
+        { depth_m: 2, depth_class: '1-3 m' },
+        { depth_m: 3.5, depth_class: '1-3 m' },
+      ],
+      4,
+    );
+
+    expect(stats).toEqual({
+      sample_count: 4,
+      samples_with_data: 3,
+      depth_m: { min: 1, max: 3.5, mean: 2.17 },
+      depth_class_share_pct: { '1-3 m': 50, '0-1 m': 25, 'no_data': 25 },
+    });
+  });
+
+  it('reports the share of the area per vulnerability class', () => {
+    const stats = summarizeAreaSamples(
+      'groundwater_vulnerability',
+      [{ vulnerability_class: 'Hög' }, { vulnerability_class: 'Hög' }, { vulnerability_class: 'Låg' }],
+      3,
+    );
+
+    expect(stats.vulnerability_class_share_pct).toEqual({ Hög: 66.7, Låg: 33.3 });
+  });
+
+  it('treats missing class values as no data', () => {
+    const stats = summarizeAreaSamples('radon_risk', [{ radiation_value: 40 }], 1);
+
+    expect(stats.radiation_value).toEqual({ min: 40, max: 40, mean: 40 });
+    expect(stats.risk_level_share_pct).toEqual({ no_data: 100 });
+  });
+
+  it('omits numeric statistics when no sample has a value', () => {
+    const stats = summarizeAreaSamples('soil_depth', [], 5);
+
+    expect(stats).toEqual({ sample_count: 5, samples_with_data: 0, depth_class_share_pct: { no_data: 100 } });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeComposition } from '../area-summary';
+
+describe('summarizeComposition', () => {
+  it('lists values by share of the query area, largest first', () => {
+    const summary = summarizeComposition(
+      'soil_type',
+      new Map([
+        ['Torv', 8000],
+        ['Lera', 62000],
+        ['Morän', 30000],
+      ]),
+      100000,
+      false,
+    );
+
+    expect(summary.composition.map((c) => [c.value, c.percent])).toEqual([
+      ['Lera', 62],
+      ['Morän', 30],
+      ['Torv', 8],
+    ]);
+    expect(summary.text).toBe('62% Lera, 30% Morän, 8% Torv');
+    expect(summary.unmapped_percent).toBeUndefined();
+    expect(summary.incomplete).toBeUndefined();
+  });
+
+  it('reports the part of the area without features as unmapped', () => {
+    const summary = summarizeComposition('rock_type', new Map([['Granit', 70000]]), 100000, false);
+
+    expect(summary.unmapped_percent).toBe(30);
+    expect(summary.text).toBe('70% Granit, 30% unmapped');
+  });
+
+  it('shows tiny shares as <1% and drops values without area', () => {
+    const summary = summarizeComposition(
+      'soil_type',
+      new Map([
+        ['Lera', 99700],
+        ['Sand', 300],
+        ['Torv', 0],
+      ]),
+      100000,
+      false,
+    );
+
+    expect(summary.text).toBe('100% Lera, <1% Sand');
+    expect(summary.composition).toHaveLength(2);
+  });
+
+  it('flags incomplete feature lists', () => {
+    expect(summarizeComposition('soil_type', new Map(), 100000, true)).toMatchObject({
+      incomplete: true,
+      text: 'No mapped features in the query area',
+    });
+  });
+});
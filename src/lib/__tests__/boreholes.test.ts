@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { groupBoreholes, type AttributedSoilLayer } from '../boreholes';
+
+function layer(layer_number: number, from?: number, to?: number, grain_size?: string): AttributedSoilLayer {
+  return { id: `l${layer_number}`, layer_number, depth_from_m: from, depth_to_m: to, grain_size, distance_m: 40 };
+}
+
+describe('groupBoreholes', () => {
+  it('groups layers by source point and orders the column by depth', () => {
+    const [borehole] = groupBoreholes(
+      [layer(3, 4, 6.2, 'Morän'), layer(1, 0, 1.5, 'Fyllning'), layer(2, 1.5, 4, 'Lera')],
+      ['a', 'a', 'a'],
+    );
+
+    expect(borehole.column.map((l) => l.layer_number)).toEqual([1, 2, 3]);
+    expect(borehole.column[1]).toMatchObject({ from_m: 1.5, to_m: 4, thickness_m: 2.5, grain_size: 'Lera' });
+    expect(borehole).toMatchObject({ layer_count: 3, total_depth_m: 6.2, rock_reached: false, distance_m: 40 });
+    expect(borehole.gaps).toBeUndefined();
+    expect(borehole.overlaps).toBeUndefined();
+    expect(borehole.summary).toBe('0–1.5 m fyllning, 1.5–4 m lera, 4–6.2 m morän');
+  });
+
+  it('reports whether and where rock was reached', () => {
+    const [borehole] = groupBoreholes([layer(1, 0, 3.2, 'Lera'), layer(2, 3.2, 3.5, 'Berg')], ['a', 'a']);
+
+    expect(borehole).toMatchObject({ rock_reached: true, depth_to_rock_m: 3.2, total_depth_m: 3.5 });
+    expect(borehole.column[1].is_rock).toBe(true);
+    expect(borehole.summary).toBe('0–3.2 m lera, rock at 3.2 m');
+  });
+
+  it('does not take crushed rock fill for bedrock', () => {
+    const [borehole] = groupBoreholes([layer(1, 0, 0.5, 'Bergkross')], ['a']);
+
+    expect(borehole.rock_reached).toBe(false);
+  });
+
+  it('flags gaps and overlaps between layers', () => {
+    const [borehole] = groupBoreholes(
+      [layer(1, 0, 2, 'Sand'), layer(2, 3, 5, 'Lera'), layer(3, 4.5, 6, 'Morän')],
+      ['a', 'a', 'a'],
+    );
+
+    expect(borehole.gaps).toEqual([{ from_m: 2, to_m: 3 }]);
+    expect(borehole.overlaps).toEqual([{ from_m: 4.5, to_m: 5, layer_numbers: [2, 3] }]);
+  });
+
+  it('lists layers without depths separately', () => {
+    const [borehole] = groupBoreholes([layer(1, 0, 2, 'Sand'), layer(2)], ['a', 'a']);
+
+    expect(borehole.column).toHaveLength(1);
+    expect(borehole.layers_without_depth).toEqual([2]);
+  });
+
+  it('flags boreholes from a query area that hit the layer limit', () => {
+    const boreholes = groupBoreholes([layer(1, 0, 1, 'Sand'), layer(1, 0, 2, 'Lera')], ['cut', 'whole'], new Set(['cut']));
+
+    expect(boreholes[0].truncated).toBe(true);
+    expect(boreholes[0].summary).toBe('0–1 m sand (may be incomplete: layer limit reached)');
+    expect(boreholes[1].truncated).toBeUndefined();
+  });
+
+  it('orders boreholes by distance to the query point', () => {
+    const near = { ...layer(1, 0, 1, 'Sand'), distance_m: 10 };
+    const far = { ...layer(1, 0, 1, 'Lera'), distance_m: 90 };
+
+    const boreholes = groupBoreholes([far, near], ['far', 'near']);
+
+    expect(boreholes.map((b) => b.distance_m)).toEqual([10, 90]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMemoryCache, normalizeCacheKey } from '../cache';
+
+describe('cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createMemoryCache', () => {
+    it('returns stored values', async () => {
+      const cache = createMemoryCache();
+      await cache.set('a', { foo: 1 }, 1000);
+      expect(await cache.get('a')).toEqual({ foo: 1 });
+    });
+
+    it('keeps stored values safe from callers that mutate them', async () => {
+      const cache = createMemoryCache();
+      const body = { features: [{ id: 1 }] };
+      await cache.set('a', body, 1000);
+
+      body.features.push({ id: 2 });
+      ((await cache.get('a')) as typeof body).features.length = 0;
+
+      expect(await cache.get('a')).toEqual({ features: [{ id: 1 }] });
+    });
+
+    it('returns undefined for unknown keys', async () => {
+      const cache = createMemoryCache();
+      expect(await cache.get('missing')).toBeUndefined();
+    });
+
+    it('expires entries after their TTL', async () => {
+      vi.useFakeTimers();
+      const cache = createMemoryCache();
+      await cache.set('a', 'value', 1000);
+
+      vi.advanceTimersByTime(999);
+      expect(await cache.get('a')).toBe('value');
+      vi.advanceTimersByTime(1);
+      expect(await cache.get('a')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entry when maxEntries is exceeded', async () => {
+      const cache = createMemoryCache({ maxEntries: 2 });
+      await cache.set('a', 1, 1000);
+      await cache.set('b', 2, 1000);
+      await cache.get('a'); // a is now most recently used
+      await cache.set('c', 3, 1000);
+
+      expect(await cache.get('a')).toBe(1);
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('c')).toBe(3);
+    });
+
+    it('evicts old entries to stay under maxBytes', async () => {
+      const cache = createMemoryCache({ maxBytes: 10 });
+      await cache.set('a', '123456', 1000);
+      await cache.set('b', '123456', 1000);
+
+      expect(await cache.get('a')).toBeUndefined();
+      expect(await cache.get('b')).toBe('123456');
+    });
+
+    it('skips values larger than maxBytes', async () => {
+      const cache = createMemoryCache({ maxBytes: 4 });
+      await cache.set('a', '12', 1000);
+      await cache.set('big', '123456', 1000);
+
+      expect(await cache.get('big')).toBeUndefined();
+      expect(await cache.get('a')).toBe('12');
+    });
+
+    it('clears all entries', async () => {
+      const cache = createMemoryCache();
+      await cache.set('a', 1, 1000);
+      await cache.clear();
+      expect(await cache.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeCacheKey', () => {
+    it('ignores query parameter order', () => {
+      const a = normalizeCacheKey(new URL('https://maps3.sgu.se/geoserver/ows?LAYERS=x&BBOX=1,2,3,4&I=1'));
+      const b = normalizeCacheKey(new URL('https://maps3.sgu.se/geoserver/ows?I=1&BBOX=1,2,3,4&LAYERS=x'));
+      expect(a).toBe(b);
+    });
+
+    it('distinguishes different parameter values', () => {
+      const a = normalizeCacheKey(new URL('https://maps3.sgu.se/geoserver/ows?I=1'));
+      const b = normalizeCacheKey(new URL('https://maps3.sgu.se/geoserver/ows?I=2'));
+      expect(a).not.toBe(b);
+    });
+  });
+});
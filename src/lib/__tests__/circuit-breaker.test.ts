@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { checkCircuit, getCircuitStatus, recordFailure, recordSuccess, resetCircuits } from '../circuit-breaker';
+import { UpstreamApiError } from '../errors';
+
+const HOST = 'maps3.sgu.se';
+const UPSTREAM = 'https://maps3.sgu.se/geoserver/jord/ows';
+
+function fail(times: number) {
+  for (let i = 0; i < times; i++) {
+    recordFailure(HOST, 'HTTP 503');
+  }
+}
+
+describe('circuit-breaker', () => {
+  beforeEach(() => {
+    resetCircuits();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts closed', () => {
+    expect(() => checkCircuit(HOST, UPSTREAM)).not.toThrow();
+    expect(getCircuitStatus(HOST)).toEqual({ host: HOST, state: 'closed', consecutive_failures: 0 });
+  });
+
+  it('stays closed below the failure threshold', () => {
+    fail(4);
+    expect(() => checkCircuit(HOST, UPSTREAM)).not.toThrow();
+  });
+
+  it('opens after repeated failures and fails fast with UPSTREAM_UNAVAILABLE', () => {
+    fail(5);
+
+    const error = (() => {
+      try {
+        checkCircuit(HOST, UPSTREAM);
+      } catch (e) {
+        return e as UpstreamApiError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(UpstreamApiError);
+    expect(error?.code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(error?.details).toMatchObject({ host: HOST, retry_after_s: 30 });
+    expect(getCircuitStatus(HOST)).toMatchObject({ state: 'open', consecutive_failures: 5, last_error: 'HTTP 503' });
+  });
+
+  it('a success resets the failure count', () => {
+    fail(4);
+    recordSuccess(HOST);
+    fail(4);
+    expect(getCircuitStatus(HOST).state).toBe('closed');
+  });
+
+  it('lets a single probe through after the cooldown', () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+
+    expect(() => checkCircuit(HOST, UPSTREAM)).not.toThrow();
+    expect(getCircuitStatus(HOST).state).toBe('half_open');
+    // Concurrent requests wait for the probe's verdict
+    expect(() => checkCircuit(HOST, UPSTREAM)).toThrow(UpstreamApiError);
+  });
+
+  it('closes when the probe succeeds', () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    checkCircuit(HOST, UPSTREAM);
+    recordSuccess(HOST);
+
+    expect(getCircuitStatus(HOST)).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+    expect(() => checkCircuit(HOST, UPSTREAM)).not.toThrow();
+  });
+
+  it('re-opens when the probe fails', () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    checkCircuit(HOST, UPSTREAM);
+    recordFailure(HOST, 'timeout');
+
+    expect(getCircuitStatus(HOST)).toMatchObject({ state: 'open', last_error: 'timeout' });
+    expect(() => checkCircuit(HOST, UPSTREAM)).toThrow(UpstreamApiError);
+  });
+
+  it('tracks hosts independently', () => {
+    fail(5);
+    expect(() => checkCircuit('api.sgu.se', UPSTREAM)).not.toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  acquireSlot,
+  concurrencyLimitsFromEnv,
+  getQueueStatuses,
+  resetConcurrency,
+  setConcurrencyLimits,
+} from '../concurrency';
+
+const HOST = 'maps3.sgu.se';
+
+// Let queued resolutions run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('concurrency', () => {
+  beforeEach(() => {
+    resetConcurrency();
+  });
+
+  it('grants slots immediately up to the limit', async () => {
+    setConcurrencyLimits({ defaultLimit: 2 });
+
+    const first = await acquireSlot(HOST);
+    const second = await acquireSlot(HOST);
+
+    expect([first.queued, second.queued]).toEqual([false, false]);
+    expect(getQueueStatuses()).toEqual([{ host: HOST, limit: 2, active: 2, queued: 0 }]);
+  });
+
+  it('queues requests over the limit and starts them in order as slots are released', async () => {
+    setConcurrencyLimits({ defaultLimit: 1 });
+    const first = await acquireSlot(HOST);
+    const started: string[] = [];
+    const second = acquireSlot(HOST).then((slot) => (started.push('second'), slot));
+    const third = acquireSlot(HOST).then((slot) => (started.push('third'), slot));
+    await flush();
+
+    expect(started).toEqual([]);
+    expect(getQueueStatuses()[0]).toMatchObject({ active: 1, queued: 2 });
+
+    first.release();
+    const secondSlot = await second;
+    expect(started).toEqual(['second']);
+    expect(secondSlot.queued).toBe(true);
+
+    secondSlot.release();
+    (await third).release();
+    expect(getQueueStatuses()[0]).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('keeps hosts independent and applies per-host limits', async () => {
+    setConcurrencyLimits({ defaultLimit: 1, hosts: { 'api.sgu.se': 3 } });
+
+    await acquireSlot(HOST);
+    const slots = await Promise.all([acquireSlot('api.sgu.se'), acquireSlot('api.sgu.se'), acquireSlot('api.sgu.se')]);
+
+    expect(slots.map((s) => s.queued)).toEqual([false, false, false]);
+  });
+
+  it('ignores repeated releases', async () => {
+    setConcurrencyLimits({ defaultLimit: 2 });
+    const slot = await acquireSlot(HOST);
+    await acquireSlot(HOST);
+
+    slot.release();
+    slot.release();
+
+    expect(getQueueStatuses()[0].active).toBe(1);
+  });
+
+  it('starts waiting requests when the limit is raised', async () => {
+    setConcurrencyLimits({ defaultLimit: 1 });
+    await acquireSlot(HOST);
+    const waiting = acquireSlot(HOST);
+
+    setConcurrencyLimits({ defaultLimit: 2 });
+
+    await expect(waiting).resolves.toMatchObject({ queued: true });
+  });
+
+  it('leaves the queue when no slot frees up in time', async () => {
+    setConcurrencyLimits({ defaultLimit: 1 });
+    const first = await acquireSlot(HOST);
+
+    await expect(acquireSlot(HOST, 10)).resolves.toBeNull();
+    expect(getQueueStatuses()[0]).toMatchObject({ active: 1, queued: 0 });
+
+    first.release();
+    expect(getQueueStatuses()[0].active).toBe(0);
+  });
+
+  it('rejects limits below 1', () => {
+    expect(() => setConcurrencyLimits({ defaultLimit: 0 })).toThrow(RangeError);
+    expect(() => setConcurrencyLimits({ hosts: { [HOST]: 1.5 } })).toThrow(RangeError);
+  });
+
+  describe('concurrencyLimitsFromEnv', () => {
+    it('reads the default and per-host limits', () => {
+      expect(
+        concurrencyLimitsFromEnv({
+          SGU_MAX_CONCURRENT_REQUESTS: '4',
+          SGU_MAX_CONCURRENT_REQUESTS_PER_HOST: 'api.sgu.se=10, maps3.sgu.se=2',
+        }),
+      ).toEqual({ defaultLimit: 4, hosts: { 'api.sgu.se': 10, 'maps3.sgu.se': 2 } });
+    });
+
+    it('keeps the defaults when nothing is set', () => {
+      expect(concurrencyLimitsFromEnv({})).toEqual({});
+    });
+
+    it('rejects limits that are not positive integers', () => {
+      expect(() => concurrencyLimitsFromEnv({ SGU_MAX_CONCURRENT_REQUESTS: 'many' })).toThrow(RangeError);
+      expect(() => concurrencyLimitsFromEnv({ SGU_MAX_CONCURRENT_REQUESTS_PER_HOST: 'api.sgu.se' })).toThrow(RangeError);
+      expect(() => concurrencyLimitsFromEnv({ SGU_MAX_CONCURRENT_REQUESTS_PER_HOST: 'api.sgu.se=0' })).toThrow(RangeError);
+    });
+  });
+});
@@ -4,6 +4,10 @@ import {
   wgs84ToSweref99,
   wgs84BboxToSweref99,
   wgs84CoordinatesToSweref99,
+  transformGeometry,
+  inputToWgs84,
+  inputBboxToSweref99,
+  inputGeometryToSweref99,
   CRS_SWEREF99TM,
   CRS_WGS84,
 } from '../coordinates';
@@ -187,4 +191,163 @@ describe('coordinates', () => {
       ).toThrow(ValidationError);
     });
   });
+
+  describe('inputToWgs84', () => {
+    const stockholm = { latitude: 59.33, longitude: 18.07 };
+    const sweref = wgs84ToSweref99(stockholm);
+
+    it('returns WGS84 input unchanged', () => {
+      expect(inputToWgs84(stockholm, CRS_WGS84, 'points')).toBe(stockholm);
+    });
+
+    it('reads SWEREF99 TM input as latitude = northing, longitude = easting', () => {
+      const result = inputToWgs84({ latitude: sweref.y, longitude: sweref.x }, CRS_SWEREF99TM, 'points');
+
+      expect(result.latitude).toBeCloseTo(59.33, 6);
+      expect(result.longitude).toBeCloseTo(18.07, 6);
+    });
+
+    it('converts RT90 2.5 gon V', () => {
+      // Stockholm in RT90 is roughly N 6581000, E 1628000
+      const result = inputToWgs84({ latitude: 6581000, longitude: 1628000 }, 'EPSG:3021', 'points');
+
+      expect(result.latitude).toBeCloseTo(59.33, 1);
+      expect(result.longitude).toBeCloseTo(18.07, 1);
+    });
+
+    it('converts SWEREF99 local zones', () => {
+      // SWEREF99 18 00: false easting 150 km on the 18°E meridian
+      const result = inputToWgs84({ latitude: 6580000, longitude: 150000 }, 'EPSG:3011', 'points');
+
+      expect(result.longitude).toBeCloseTo(18, 3);
+      expect(result.latitude).toBeGreaterThan(59);
+      expect(result.latitude).toBeLessThan(60);
+    });
+
+    it("validates in the input system's own bounds", () => {
+      // A valid SWEREF99 TM easting is far outside RT90's easting range
+      expect(() => inputToWgs84({ latitude: sweref.y, longitude: sweref.x }, 'EPSG:3021', 'points')).toThrow(
+        'outside Sweden in RT90 2.5 gon V',
+      );
+    });
+
+    it('points out swapped northing and easting', () => {
+      const swapped = { latitude: sweref.x, longitude: sweref.y };
+
+      expect(() => inputToWgs84(swapped, CRS_SWEREF99TM, 'points')).toThrow('look swapped');
+    });
+
+    it('names the offending field', () => {
+      try {
+        inputToWgs84({ latitude: 1, longitude: 1 }, CRS_SWEREF99TM, 'route');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details).toEqual({ field: 'route' });
+      }
+    });
+  });
+
+  describe('inputBboxToSweref99', () => {
+    it('matches wgs84BboxToSweref99 for WGS84 input', () => {
+      const bbox = { minLat: 59.3, minLon: 18.0, maxLat: 59.35, maxLon: 18.1 };
+
+      expect(inputBboxToSweref99(bbox, CRS_WGS84)).toEqual(wgs84BboxToSweref99(bbox));
+    });
+
+    it('buffers a SWEREF99 TM bbox without reprojecting it', () => {
+      const result = inputBboxToSweref99(
+        { minLat: 6580000, minLon: 674000, maxLat: 6581000, maxLon: 675000 },
+        CRS_SWEREF99TM,
+        100,
+      );
+
+      expect(result.minX).toBeCloseTo(673900, 3);
+      expect(result.minY).toBeCloseTo(6579900, 3);
+      expect(result.maxX).toBeCloseTo(675100, 3);
+      expect(result.maxY).toBeCloseTo(6581100, 3);
+    });
+
+    it('takes the envelope of all four corners of a rotated RT90 bbox', () => {
+      const result = inputBboxToSweref99(
+        { minLat: 6580000, minLon: 1628000, maxLat: 6581000, maxLon: 1629000 },
+        'EPSG:3021',
+        0,
+      );
+
+      // The grids are rotated against each other, so the envelope is a little larger than 1 km
+      expect(result.maxX - result.minX).toBeGreaterThan(1000);
+      expect(result.maxY - result.minY).toBeGreaterThan(1000);
+      expect(result.maxX - result.minX).toBeLessThan(1100);
+    });
+
+    it('rejects inverted projected bboxes', () => {
+      expect(() =>
+        inputBboxToSweref99({ minLat: 6581000, minLon: 674000, maxLat: 6580000, maxLon: 675000 }, CRS_SWEREF99TM),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('inputGeometryToSweref99', () => {
+    const ring = [
+      [674000, 6580000],
+      [675000, 6580000],
+      [675000, 6581000],
+      [674000, 6580000],
+    ];
+
+    it('keeps SWEREF99 TM input as is', () => {
+      const polygon = { type: 'Polygon' as const, coordinates: [ring] };
+      expect(inputGeometryToSweref99(polygon, CRS_SWEREF99TM, 'area')).toBe(polygon);
+    });
+
+    it('projects WGS84 [lon, lat] positions', () => {
+      const result = inputGeometryToSweref99({ type: 'Polygon', coordinates: [[[18.07, 59.33]]] }, CRS_WGS84, 'area');
+      const [[[x, y]]] = result.coordinates as number[][][];
+      const expected = wgs84ToSweref99({ latitude: 59.33, longitude: 18.07 });
+
+      expect(x).toBeCloseTo(expected.x, 3);
+      expect(y).toBeCloseTo(expected.y, 3);
+    });
+
+    it('validates every position in the input system', () => {
+      const swapped = { type: 'Polygon' as const, coordinates: [ring.map(([x, y]) => [y, x])] };
+
+      expect(() => inputGeometryToSweref99(swapped, CRS_SWEREF99TM, 'area')).toThrow('look swapped');
+      expect(() => inputGeometryToSweref99({ type: 'Polygon', coordinates: [[[2.35, 48.85]]] }, CRS_WGS84, 'area')).toThrow(
+        'outside Sweden',
+      );
+    });
+  });
+
+  describe('transformGeometry', () => {
+    it('reprojects every position of a polygon', () => {
+      const polygon = {
+        type: 'Polygon' as const,
+        coordinates: [
+          [
+            [18.07, 59.33],
+            [18.08, 59.33],
+            [18.08, 59.34],
+            [18.07, 59.33],
+          ],
+        ],
+      };
+
+      const result = transformGeometry(polygon, CRS_WGS84, CRS_SWEREF99TM);
+      const ring = (result.coordinates as number[][][])[0];
+      const expected = wgs84ToSweref99({ latitude: 59.33, longitude: 18.07 });
+
+      expect(result.type).toBe('Polygon');
+      expect(ring).toHaveLength(4);
+      expect(ring[0][0]).toBeCloseTo(expected.x, 3);
+      expect(ring[0][1]).toBeCloseTo(expected.y, 3);
+    });
+
+    it('reprojects a point', () => {
+      const result = transformGeometry({ type: 'Point', coordinates: [18.07, 59.33] }, CRS_WGS84, CRS_SWEREF99TM);
+
+      expect((result.coordinates as number[])[0]).toBeGreaterThan(670000);
+    });
+  });
 });
@@ -5,6 +5,8 @@ import type { BoundingBox, Point } from '@/lib/geometry-utils';
 vi.mock('@/lib/ogc-client', () => ({
   createOgcClient: vi.fn(() => ({
     getItemsWithCount: vi.fn(),
+    iterateItems: vi.fn(),
+    getAllItems: vi.fn(),
     getItems: vi.fn(),
     getCollections: vi.fn(),
     getFeature: vi.fn(),
@@ -21,9 +23,10 @@ vi.mock('@/clients/sgu-client', () => ({
   },
 }));
 
-import { queryAll } from '../data-registry';
+import { getOgcServices, queryAll } from '../data-registry';
 import { createOgcClient } from '@/lib/ogc-client';
 import { sguClient } from '@/clients/sgu-client';
+import { sweref99ToWgs84 } from '@/lib/coordinates';
 
 // ============================================================================
 // Test data
@@ -62,6 +65,28 @@ const mockSoilFeature = {
   properties: { jg2_tx: 'Morän', jg2: 'Mo', geom_area: 5000 },
 };
 
+// Polygons around / away from stockholmSweref99 (≈ 59.3315°N, 18.0685°E)
+const containingSoilFeature = {
+  type: 'Feature',
+  id: 'soil-under',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[[18.06, 59.33], [18.08, 59.33], [18.08, 59.335], [18.06, 59.335], [18.06, 59.33]]],
+  },
+  properties: { jg2_tx: 'Lera', jg2: 'Le' },
+};
+
+// East edge at 18.0675 → ~54 m west of the point
+const neighbouringSoilFeature = {
+  type: 'Feature',
+  id: 'soil-west',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[[18.06, 59.33], [18.0675, 59.33], [18.0675, 59.335], [18.06, 59.335], [18.06, 59.33]]],
+  },
+  properties: { jg2_tx: 'Morän', jg2: 'Mo' },
+};
+
 // WGS84 bbox: minX=minLon, minY=minLat
 const southernBbox: BoundingBox = { minX: 17.95, minY: 59.25, maxX: 18.05, maxY: 59.35 };
 const northernBbox: BoundingBox = { minX: 17.95, minY: 65.4, maxX: 18.05, maxY: 65.6 };
@@ -75,6 +100,13 @@ const stockholmSweref99: Point = { x: 674553, y: 6580992 };
 function getMockOgcClient(features: Record<string, unknown>[], numberMatched = 100) {
   return {
     getItemsWithCount: vi.fn().mockResolvedValue({ features, numberMatched }),
+    iterateItems: vi.fn(),
+    getAllItems: vi.fn().mockResolvedValue({
+      features,
+      numberMatched,
+      numberReturned: features.length,
+      truncated: numberMatched > features.length,
+    }),
     getItems: vi.fn(),
     getCollections: vi.fn(),
     getFeature: vi.fn(),
@@ -102,12 +134,160 @@ describe('queryAll', () => {
       const feature = (results.bedrock as Record<string, unknown>[])[0];
       expect(feature.rock_type).toBe('Granit');
       expect(feature.geological_unit).toBe('Örö');
-      expect(mockClient.getItemsWithCount).toHaveBeenCalledWith(
+      expect(mockClient.getAllItems).toHaveBeenCalledWith(
         'geologisk-enhet-yta',
-        expect.objectContaining({ bbox: southernBbox, limit: 50 }),
+        expect.objectContaining({ bbox: southernBbox, maxFeatures: 50 }),
       );
     });
 
+    it('filters by polygon WKT instead of bbox when polygonWkt is given', async () => {
+      const mockClient = getMockOgcClient([mockBedrockFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+      const polygonWkt = 'POLYGON((674000 6580000,675000 6580000,675000 6581000,674000 6580000))';
+
+      await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'simplified', { polygonWkt });
+
+      const options = mockClient.getAllItems.mock.calls[0][1];
+      expect(options).toMatchObject({ polygonWkt, filterCrs: 'EPSG:3006', maxFeatures: 50 });
+      expect(options.bbox).toBeUndefined();
+    });
+
+    it('requests SWEREF99 TM geometries with a metric bbox for projected output', async () => {
+      const sweref99Feature = {
+        ...mockBedrockFeature,
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [674000, 6580500],
+              [675000, 6580500],
+              [675000, 6581500],
+              [674000, 6581500],
+              [674000, 6580500],
+            ],
+          ],
+        },
+      };
+      const mockClient = getMockOgcClient([sweref99Feature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results } = await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'full', {
+        outputCrs: 'EPSG:3006',
+      });
+
+      const options = mockClient.getAllItems.mock.calls[0][1];
+      expect(options.crs).toBe('EPSG:3006');
+      expect(options.bbox.minX).toBeGreaterThan(600000);
+      expect(options.bbox.minY).toBeGreaterThan(6500000);
+      const feature = (results.bedrock as Record<string, unknown>[])[0];
+      // Point-in-polygon runs on the metric coordinates
+      expect(feature.contains_point).toBe(true);
+      expect((feature.geometry as { coordinates: number[][][] }).coordinates[0][0]).toEqual([674000, 6580500]);
+    });
+
+    it('reprojects SWEREF99 TM geometries into a local zone', async () => {
+      const sweref99Feature = { ...mockBedrockFeature, geometry: { type: 'Point', coordinates: [674553, 6580992] } };
+      const mockClient = getMockOgcClient([sweref99Feature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results } = await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'full', {
+        outputCrs: 'EPSG:3011',
+      });
+
+      expect(mockClient.getAllItems.mock.calls[0][1].crs).toBe('EPSG:3006');
+      const [x, y] = (results.bedrock as { geometry: { coordinates: number[] } }[])[0].geometry.coordinates;
+      // SWEREF99 18 00: false easting 150 km on 18°E
+      expect(x).toBeGreaterThan(150000);
+      expect(x).toBeLessThan(160000);
+      expect(y).toBeGreaterThan(6500000);
+    });
+
+    it('keeps CRS84 requests when no outputCrs is given', async () => {
+      const mockClient = getMockOgcClient([mockBedrockFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      expect(mockClient.getAllItems.mock.calls[0][1].crs).toBeUndefined();
+    });
+
+    it('reports matched, returned and truncated per OGC type', async () => {
+      const mockClient = getMockOgcClient([mockBedrockFeature], 120);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { featureCounts } = await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      expect(featureCounts.bedrock).toEqual({ matched: 120, returned: 1, truncated: true });
+    });
+
+    it('sums matched over query areas and counts unique features as returned', async () => {
+      const mockClient = getMockOgcClient([mockBedrockFeature], 1);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results, featureCounts } = await queryAll(
+        ['bedrock'],
+        [southernBbox, { minX: 18.15, minY: 59.25, maxX: 18.25, maxY: 59.35 }],
+        [stockholmSweref99],
+        50,
+        'simplified',
+      );
+
+      expect(results.bedrock).toHaveLength(1);
+      expect(featureCounts.bedrock).toEqual({ matched: 2, returned: 1, truncated: false });
+    });
+
+    it('queries overlapping bboxes once over their envelope and drops features outside every bbox', async () => {
+      // South-east corner of the envelope, covered by neither bbox
+      const gapFeature = {
+        ...mockBedrockFeature,
+        id: 'bedrock-gap',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [18.07, 59.26],
+              [18.09, 59.26],
+              [18.09, 59.28],
+              [18.07, 59.26],
+            ],
+          ],
+        },
+      };
+      const mockClient = getMockOgcClient([mockBedrockFeature, gapFeature], 2);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+      const overlapping: BoundingBox = { minX: 18.0, minY: 59.3, maxX: 18.1, maxY: 59.4 };
+
+      const { results } = await queryAll(
+        ['bedrock'],
+        [southernBbox, overlapping],
+        [stockholmSweref99, stockholmSweref99],
+        50,
+        'simplified',
+      );
+
+      expect(mockClient.getAllItems).toHaveBeenCalledTimes(1);
+      expect(mockClient.getAllItems.mock.calls[0][1]).toMatchObject({
+        bbox: { minX: 17.95, minY: 59.25, maxX: 18.1, maxY: 59.4 },
+        maxFeatures: 100,
+      });
+      expect((results.bedrock as { geological_unit: string }[]).map((f) => f.geological_unit)).toEqual(['Örö']);
+    });
+
+    it('leaves matched undefined when the server does not report numberMatched', async () => {
+      const mockClient = getMockOgcClient([mockBedrockFeature]);
+      mockClient.getAllItems.mockResolvedValue({
+        features: [mockBedrockFeature],
+        numberMatched: undefined,
+        numberReturned: 1,
+        truncated: false,
+      });
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { featureCounts } = await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      expect(featureCounts.bedrock.matched).toBeUndefined();
+    });
+
     it('dispatches soil_type to correct collection', async () => {
       const mockClient = getMockOgcClient([mockSoilFeature]);
       vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
@@ -115,30 +295,128 @@ describe('queryAll', () => {
       const { results } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified');
 
       expect(results.soil_type).toHaveLength(1);
-      expect(mockClient.getItemsWithCount).toHaveBeenCalledWith('grundlager', expect.any(Object));
+      expect(mockClient.getAllItems).toHaveBeenCalledWith('grundlager', expect.any(Object));
     });
 
-    it('uses jordarter250k for northern Sweden (centerLat > 65.1)', async () => {
-      const mockClient = getMockOgcClient([mockSoilFeature]);
+    it('queries the detailed soil map first and reports its scale', async () => {
+      const mockClient = getMockOgcClient([containingSoilFeature]);
       vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
 
-      await queryAll(['soil_type'], [northernBbox], [stockholmSweref99], 50, 'simplified');
+      const { results } = await queryAll(['soil_type'], [northernBbox], [stockholmSweref99], 50, 'simplified');
 
-      // createOgcClient should have been called with the 250k workspace
+      expect(createOgcClient).toHaveBeenCalledTimes(1);
       expect(createOgcClient).toHaveBeenCalledWith(
-        expect.objectContaining({ baseUrl: expect.stringContaining('jordarter250k') }),
+        expect.objectContaining({ baseUrl: expect.stringContaining('jordarter25k-100k') }),
       );
+      expect((results.soil_type as Record<string, unknown>[])[0].map_scale).toBe('25k-100k');
     });
 
-    it('uses jordarter25k-100k for southern Sweden (centerLat <= 65.1)', async () => {
-      const mockClient = getMockOgcClient([mockSoilFeature]);
+    it('falls back to jordarter250k where the detailed map has no features', async () => {
+      const detailed = getMockOgcClient([], 0);
+      const coarse = getMockOgcClient([mockSoilFeature], 1);
+      vi.mocked(createOgcClient)
+        .mockReturnValueOnce(detailed as ReturnType<typeof createOgcClient>)
+        .mockReturnValueOnce(coarse as ReturnType<typeof createOgcClient>);
+
+      const { results, featureCounts } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      expect(vi.mocked(createOgcClient).mock.calls[1][0].baseUrl).toContain('jordarter250k');
+      expect((results.soil_type as Record<string, unknown>[])[0].map_scale).toBe('250k');
+      expect(featureCounts.soil_type).toMatchObject({ matched: 1, returned: 1 });
+    });
+
+    describe('partial detailed coverage', () => {
+      // Second point ~55 km east of Stockholm, with a 250k polygon around it
+      const eastPoint: Point = { x: 730000, y: 6580000 };
+      const east = sweref99ToWgs84(eastPoint);
+      const squareAround = (id: string, lon: number, lat: number) => ({
+        type: 'Feature',
+        id,
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [lon - 0.01, lat - 0.01],
+              [lon + 0.01, lat - 0.01],
+              [lon + 0.01, lat + 0.01],
+              [lon - 0.01, lat + 0.01],
+              [lon - 0.01, lat - 0.01],
+            ],
+          ],
+        },
+        properties: { jg2_tx: 'Sand', jg2: 'Sa' },
+      });
+      const coarseEast = squareAround('coarse-east', east.longitude, east.latitude);
+      const coarseStockholm = squareAround('coarse-stockholm', 18.0685, 59.3315);
+      const scaleOf = (results: Record<string, unknown>) =>
+        Object.fromEntries((results.soil_type as { id: string; map_scale: string }[]).map((f) => [f.id, f.map_scale]));
+
+      it('falls back to 250k only for the points the detailed map leaves uncovered', async () => {
+        const mockClient = getMockOgcClient([]);
+        mockClient.getAllItems
+          .mockResolvedValueOnce({ features: [containingSoilFeature], numberMatched: 1, truncated: false })
+          .mockResolvedValueOnce({ features: [], numberMatched: 0, truncated: false })
+          .mockResolvedValueOnce({ features: [coarseEast], numberMatched: 1, truncated: false });
+        vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+        const eastBbox: BoundingBox = {
+          minX: east.longitude - 0.05,
+          minY: east.latitude - 0.05,
+          maxX: east.longitude + 0.05,
+          maxY: east.latitude + 0.05,
+        };
+
+        const { results } = await queryAll(
+          ['soil_type'],
+          [southernBbox, eastBbox],
+          [stockholmSweref99, eastPoint],
+          50,
+          'simplified',
+        );
+
+        const workspaces = vi.mocked(createOgcClient).mock.calls.map(([config]) => config.baseUrl.split('/')[4]);
+        expect(workspaces).toEqual(['jordarter25k-100k', 'jordarter25k-100k', 'jordarter250k']);
+        expect(mockClient.getAllItems.mock.calls[2][1]).toMatchObject({ bbox: eastBbox, maxFeatures: 50 });
+        expect(scaleOf(results)).toEqual({ 'soil-under': '25k-100k', 'coarse-east': '250k' });
+      });
+
+      it('keeps 250k features that cover route or area samples the detailed map misses', async () => {
+        const mockClient = getMockOgcClient([]);
+        mockClient.getAllItems
+          .mockResolvedValueOnce({ features: [containingSoilFeature], numberMatched: 1, truncated: false })
+          .mockResolvedValueOnce({ features: [coarseStockholm, coarseEast], numberMatched: 2, truncated: false });
+        vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+        const polygonWkt = 'POLYGON((670000 6570000,740000 6570000,740000 6590000,670000 6570000))';
+
+        const { results } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99, eastPoint], 50, 'simplified', {
+          polygonWkt,
+        });
+
+        expect(mockClient.getAllItems.mock.calls[1][1]).toMatchObject({ polygonWkt });
+        // Stockholm is covered at 25k–100k, so its 250k polygon is left out
+        expect(scaleOf(results)).toEqual({ 'soil-under': '25k-100k', 'coarse-east': '250k' });
+      });
+    });
+
+    it('reports an unknown map scale as an error for the type', async () => {
+      const { errors } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified', {
+        mapScale: '10k',
+      });
+
+      expect(errors.soil_type).toBe('No grundlager map at scale 10k');
+      expect(createOgcClient).not.toHaveBeenCalled();
+    });
+
+    it('queries only the requested soil map scale', async () => {
+      const mockClient = getMockOgcClient([], 0);
       vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
 
-      await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+      const { results } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified', {
+        mapScale: '250k',
+      });
 
-      expect(createOgcClient).toHaveBeenCalledWith(
-        expect.objectContaining({ baseUrl: expect.stringContaining('jordarter25k-100k') }),
-      );
+      expect(createOgcClient).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(createOgcClient).mock.calls[0][0].baseUrl).toContain('jordarter250k');
+      expect(results.soil_type).toEqual([]);
     });
 
     it('applies geometry simplification to OGC features', async () => {
@@ -157,7 +435,7 @@ describe('queryAll', () => {
 
       await queryAll(['wells'], [southernBbox], [stockholmSweref99], 50, 'simplified');
 
-      expect(mockClient.getItemsWithCount).toHaveBeenCalledWith('brunnar', expect.any(Object));
+      expect(mockClient.getAllItems).toHaveBeenCalledWith('brunnar', expect.any(Object));
     });
 
     it('dispatches soil_layers to lagerinformation collection', async () => {
@@ -166,7 +444,50 @@ describe('queryAll', () => {
 
       await queryAll(['soil_layers'], [southernBbox], [stockholmSweref99], 50, 'simplified');
 
-      expect(mockClient.getItemsWithCount).toHaveBeenCalledWith('lagerinformation', expect.any(Object));
+      expect(mockClient.getAllItems).toHaveBeenCalledWith('lagerinformation', expect.any(Object));
+    });
+
+    it('groups soil layers into boreholes by source point', async () => {
+      const soilLayer = (id: string, coordinates: number[], lagernr: number, djup_fran: number, djup_till: number) => ({
+        type: 'Feature',
+        id,
+        geometry: { type: 'Point', coordinates },
+        properties: { lagernr, djup_fran, djup_till, kornst_tx: 'Lera' },
+      });
+      const mockClient = getMockOgcClient([
+        soilLayer('a-2', [18.069, 59.3316], 2, 2, 5),
+        soilLayer('b-1', [18.075, 59.3316], 1, 0, 3),
+        soilLayer('a-1', [18.069, 59.3316], 1, 0, 2),
+      ]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results, featureCounts } = await queryAll(['soil_layers'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      const boreholes = results.soil_layers as { layer_count: number; total_depth_m: number; distance_m: number }[];
+      expect(boreholes.map((b) => [b.layer_count, b.total_depth_m])).toEqual([
+        [2, 5],
+        [1, 3],
+      ]);
+      expect(boreholes[0].distance_m).toBeLessThan(boreholes[1].distance_m);
+      expect(featureCounts.soil_layers.returned).toBe(3);
+    });
+
+    it('flags boreholes whose layers may have been cut by the limit', async () => {
+      const soilLayer = (id: string, lagernr: number) => ({
+        type: 'Feature',
+        id,
+        geometry: { type: 'Point', coordinates: [18.069, 59.3316] },
+        properties: { lagernr, djup_fran: lagernr - 1, djup_till: lagernr, kornst_tx: 'Lera' },
+      });
+      const layers = [soilLayer('a-1', 1), soilLayer('a-2', 2)];
+
+      vi.mocked(createOgcClient).mockReturnValue(getMockOgcClient(layers, 2) as ReturnType<typeof createOgcClient>);
+      const complete = await queryAll(['soil_layers'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+      vi.mocked(createOgcClient).mockReturnValue(getMockOgcClient(layers, 5) as ReturnType<typeof createOgcClient>);
+      const cut = await queryAll(['soil_layers'], [southernBbox], [stockholmSweref99], 2, 'simplified');
+
+      expect((complete.results.soil_layers as { truncated?: boolean }[])[0].truncated).toBeUndefined();
+      expect((cut.results.soil_layers as { truncated?: boolean }[])[0].truncated).toBe(true);
     });
 
     it('dispatches groundwater_aquifers to grundvattenmagasin collection', async () => {
@@ -175,7 +496,218 @@ describe('queryAll', () => {
 
       await queryAll(['groundwater_aquifers'], [southernBbox], [stockholmSweref99], 50, 'simplified');
 
-      expect(mockClient.getItemsWithCount).toHaveBeenCalledWith('grundvattenmagasin', expect.any(Object));
+      expect(mockClient.getAllItems).toHaveBeenCalledWith('grundvattenmagasin', expect.any(Object));
+    });
+  });
+
+  describe('point-in-polygon attribution', () => {
+    it('marks features containing the query point', async () => {
+      const mockClient = getMockOgcClient([neighbouringSoilFeature, containingSoilFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      const [west, under] = results.soil_type as Record<string, unknown>[];
+      expect(under.contains_point).toBe(true);
+      expect(under.distance_m).toBeUndefined();
+      expect(west.contains_point).toBe(false);
+      expect(west.distance_m).toBeGreaterThan(40);
+      expect(west.distance_m).toBeLessThan(70);
+    });
+
+    it('attributes on the full geometry even when geometry is dropped', async () => {
+      const mockClient = getMockOgcClient([containingSoilFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'none');
+
+      const [feature] = results.soil_type as Record<string, unknown>[];
+      expect(feature.contains_point).toBe(true);
+      expect(feature.geometry).toBeUndefined();
+    });
+
+    it('builds a primary summary of soil type and bedrock under each point', async () => {
+      const bedrockUnder = {
+        ...mockBedrockFeature,
+        id: 'bedrock-2',
+        geometry: containingSoilFeature.geometry,
+        properties: { ...mockBedrockFeature.properties, bergart_tx: 'Gnejs' },
+      };
+      vi.mocked(createOgcClient).mockImplementation(
+        ({ baseUrl }) =>
+          (baseUrl.includes('berggrund')
+            ? getMockOgcClient([mockBedrockFeature, bedrockUnder])
+            : getMockOgcClient([neighbouringSoilFeature, containingSoilFeature])) as ReturnType<typeof createOgcClient>,
+      );
+
+      const { primary } = await queryAll(
+        ['bedrock', 'soil_type'],
+        [southernBbox],
+        [stockholmSweref99],
+        50,
+        'simplified',
+      );
+
+      expect(primary).toHaveLength(1);
+      expect(primary[0]).toMatchObject({ bedrock: 'Gnejs', soil_type: 'Lera' });
+      expect(primary[0].latitude).toBeCloseTo(59.3315, 3);
+    });
+
+    it('reports point indices and the nearest point for multi-point queries', async () => {
+      const farPoint: Point = { x: 684553, y: 6580992 };
+      const mockClient = getMockOgcClient([containingSoilFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { results, primary } = await queryAll(
+        ['soil_type'],
+        [southernBbox],
+        [farPoint, stockholmSweref99],
+        50,
+        'simplified',
+      );
+
+      const [feature] = results.soil_type as Record<string, unknown>[];
+      expect(feature.point_indices).toEqual([1]);
+      expect(primary.map((p) => p.soil_type)).toEqual([undefined, 'Lera']);
+    });
+
+    it('returns no primary summary for types without a primary field', async () => {
+      const mockClient = getMockOgcClient([]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { primary } = await queryAll(['wells'], [southernBbox], [stockholmSweref99], 50, 'simplified');
+
+      expect(primary).toEqual([]);
+    });
+  });
+
+  describe('composition summary', () => {
+    // 400 m × 400 m query square around stockholmSweref99 (SWEREF99 TM)
+    const { x, y } = stockholmSweref99;
+    const summaryArea = {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [x - 200, y - 200],
+          [x + 200, y - 200],
+          [x + 200, y + 200],
+          [x - 200, y + 200],
+          [x - 200, y - 200],
+        ],
+      ],
+    };
+
+    function sweref99Soil(id: string, soil: string, minX: number, maxX: number) {
+      return {
+        type: 'Feature',
+        id,
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [minX, y - 1000],
+              [maxX, y - 1000],
+              [maxX, y + 1000],
+              [minX, y + 1000],
+              [minX, y - 1000],
+            ],
+          ],
+        },
+        properties: { jg2_tx: soil },
+      };
+    }
+
+    it('clips each feature to the query area and reports the share per soil type', async () => {
+      // Clay covers the western 300 m of the square, till the eastern 100 m; both extend well beyond it
+      const mockClient = getMockOgcClient(
+        [sweref99Soil('clay', 'Lera', x - 5000, x + 100), sweref99Soil('till', 'Morän', x + 100, x + 5000)],
+        2,
+      );
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { summaries } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'none', {
+        outputCrs: 'EPSG:3006',
+        summaryArea,
+      });
+
+      expect(summaries.soil_type).toEqual({
+        field: 'soil_type',
+        area_m2: 160000,
+        composition: [
+          { value: 'Lera', area_m2: 120000, percent: 75 },
+          { value: 'Morän', area_m2: 40000, percent: 25 },
+        ],
+        text: '75% Lera, 25% Morän',
+      });
+    });
+
+    it('measures CRS84 geometries in metres and reports the unmapped share', async () => {
+      const mockClient = getMockOgcClient([containingSoilFeature]);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { summaries } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 50, 'simplified', {
+        summaryArea,
+      });
+
+      // The clay polygon starts at 59.33°N, about 30 m north of the square's southern edge
+      const [clay] = summaries.soil_type.composition;
+      expect(clay.value).toBe('Lera');
+      expect(clay.percent).toBeGreaterThan(88);
+      expect(clay.percent).toBeLessThan(96);
+      expect(summaries.soil_type.unmapped_percent).toBeCloseTo(100 - clay.percent, 1);
+    });
+
+    it('counts a 250k polygon only where the detailed map has no feature', async () => {
+      const clay = sweref99Soil('clay', 'Lera', x - 5000, x + 100);
+      const coarseSand = sweref99Soil('coarse-sand', 'Sand', x - 5000, x + 5000);
+      const mockClient = getMockOgcClient([]);
+      mockClient.getAllItems
+        .mockResolvedValueOnce({ features: [clay], numberMatched: 1, truncated: false })
+        .mockResolvedValueOnce({ features: [coarseSand], numberMatched: 1, truncated: false });
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      // Area samples: the western one on clay, the eastern one off the detailed map
+      const samples = [
+        { x: x - 100, y },
+        { x: x + 150, y },
+      ];
+      const { summaries } = await queryAll(['soil_type'], [southernBbox], samples, 50, 'none', {
+        outputCrs: 'EPSG:3006',
+        summaryArea,
+      });
+
+      // The sand polygon also lies under the clay; only the eastern 100 m are its own
+      expect(summaries.soil_type.composition).toEqual([
+        { value: 'Lera', area_m2: 120000, percent: 75 },
+        { value: 'Sand', area_m2: 40000, percent: 25 },
+      ]);
+      const total = summaries.soil_type.composition.reduce((sum, c) => sum + c.area_m2, 0);
+      expect(total).toBe(summaries.soil_type.area_m2);
+    });
+
+    it('flags summaries of truncated feature lists as incomplete', async () => {
+      const mockClient = getMockOgcClient([sweref99Soil('clay', 'Lera', x - 5000, x + 5000)], 500);
+      vi.mocked(createOgcClient).mockReturnValue(mockClient as ReturnType<typeof createOgcClient>);
+
+      const { summaries } = await queryAll(['soil_type'], [southernBbox], [stockholmSweref99], 1, 'none', {
+        outputCrs: 'EPSG:3006',
+        summaryArea,
+      });
+
+      expect(summaries.soil_type.incomplete).toBe(true);
+    });
+
+    it('summarises only types with a summary field, and only when a summary area is given', async () => {
+      vi.mocked(createOgcClient).mockReturnValue(getMockOgcClient([]) as ReturnType<typeof createOgcClient>);
+
+      const withArea = await queryAll(['wells', 'bedrock'], [southernBbox], [stockholmSweref99], 50, 'none', {
+        summaryArea,
+      });
+      const withoutArea = await queryAll(['bedrock'], [southernBbox], [stockholmSweref99], 50, 'none');
+
+      expect(Object.keys(withArea.summaries)).toEqual(['bedrock']);
+      expect(withArea.summaries.bedrock.text).toBe('No mapped features in the query area');
+      expect(withoutArea.summaries).toEqual({});
     });
   });
 
@@ -246,6 +778,24 @@ describe('queryAll', () => {
 
       expect(results.radon_risk).toHaveLength(0);
     });
+
+    it('reports which query point each WMS result belongs to', async () => {
+      const point2: Point = { x: 675000, y: 6581000 };
+      vi.mocked(sguClient.getRadonRiskAt)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ radiation_value: 3.0, risk_level: 'moderate' });
+
+      const { results, pointIndices } = await queryAll(
+        ['radon_risk'],
+        [southernBbox],
+        [stockholmSweref99, point2],
+        50,
+        'simplified',
+      );
+
+      expect(results.radon_risk).toHaveLength(1);
+      expect(pointIndices).toEqual({ radon_risk: [1] });
+    });
   });
 
   describe('mixed types and error handling', () => {
@@ -287,10 +837,39 @@ describe('queryAll', () => {
     });
 
     it('returns empty results and errors when no types requested', async () => {
-      const { results, errors } = await queryAll([], [southernBbox], [stockholmSweref99], 50, 'simplified');
+      const { results, errors, featureCounts } = await queryAll([], [southernBbox], [stockholmSweref99], 50, 'simplified');
 
       expect(results).toEqual({});
       expect(errors).toEqual({});
+      expect(featureCounts).toEqual({});
+    });
+  });
+
+  describe('getOgcServices', () => {
+    it('lists each workspace once with the data types it serves', () => {
+      const services = getOgcServices();
+
+      expect(services.map((s) => s.name)).toEqual([
+        'ogc:berggrund50k-250k',
+        'ogc:jordarter25k-100k',
+        'ogc:jordarter250k',
+        'ogc:grundvattenmagasin',
+        'ogc:brunnar',
+        'ogc:jordlagerfoljder',
+      ]);
+      expect(services[2]).toMatchObject({
+        url: 'https://api.sgu.se/oppnadata/jordarter250k/ogc/features/v1',
+        dataTypes: ['soil_type'],
+      });
+    });
+
+    it('probes with getCollections', async () => {
+      const getCollections = vi.fn().mockResolvedValue([]);
+      vi.mocked(createOgcClient).mockReturnValueOnce({ getCollections } as unknown as ReturnType<typeof createOgcClient>);
+
+      await getOgcServices()[0].probe({ cache: false });
+
+      expect(getCollections).toHaveBeenCalledWith({ cache: false });
     });
   });
 });
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { estimateDepthToRock, type RockObservation } from '../depth-to-rock';
+
+function well(distance_m: number, depth_m: number): RockObservation {
+  return { source: 'well', distance_m, depth_m };
+}
+
+describe('estimateDepthToRock', () => {
+  it('rates an observation at the site that agrees with the model as high confidence', () => {
+    const estimate = estimateDepthToRock(6, [well(20, 5.5), well(400, 9)]);
+
+    expect(estimate.confidence).toBe('high');
+    expect(estimate.drilling_recommended).toBe(false);
+    expect(estimate.nearest_observation).toEqual(well(20, 5.5));
+    expect(estimate.model_vs_observed?.disagreement).toBe('small');
+  });
+
+  it('weights observations by inverse distance squared', () => {
+    // Weights 1/100² and 1/300² → (4·9 + 12) / 10
+    const estimate = estimateDepthToRock(undefined, [well(100, 4), well(300, 12)]);
+
+    expect(estimate.observed_depth_m).toBe(4.8);
+    expect(estimate.estimate_m).toBe(4.8);
+    expect(estimate.observed_range_m).toEqual({ min: 4, max: 12 });
+  });
+
+  it('falls back to the model with low confidence when nothing was observed nearby', () => {
+    const estimate = estimateDepthToRock(7, []);
+
+    expect(estimate.estimate_m).toBe(7);
+    expect(estimate.observation_count).toBe(0);
+    expect(estimate.confidence).toBe('low');
+    expect(estimate.drilling_recommended).toBe(true);
+  });
+
+  it('lowers confidence when model and observations disagree', () => {
+    const estimate = estimateDepthToRock(15, [well(30, 3)]);
+
+    expect(estimate.model_vs_observed).toEqual({ difference_m: 12, disagreement: 'large' });
+    expect(estimate.confidence).toBe('medium');
+    expect(estimate.reasons.some((r) => r.includes('differ by 12 m'))).toBe(true);
+  });
+
+  it('treats boreholes that stopped in soil as lower bounds', () => {
+    const estimate = estimateDepthToRock(4, [{ source: 'borehole', distance_m: 25, depth_m: 9, lower_bound: true }]);
+
+    expect(estimate.observation_count).toBe(0);
+    expect(estimate.deepest_without_rock?.depth_m).toBe(9);
+    expect(estimate.estimate_m).toBe(9);
+    expect(estimate.confidence).toBe('low');
+  });
+});
@@ -33,6 +33,12 @@ describe('errors', () => {
       expect(error.name).toBe('UpstreamApiError');
     });
 
+    it('should accept a more specific error code', () => {
+      const error = new UpstreamApiError('Down', 0, 'WMS Service', { host: 'maps3.sgu.se' }, 'UPSTREAM_UNAVAILABLE');
+      expect(error.code).toBe('UPSTREAM_UNAVAILABLE');
+      expect(error.details).toEqual({ statusCode: 0, upstream: 'WMS Service', host: 'maps3.sgu.se' });
+    });
+
     it('should include statusCode and upstream in details', () => {
       const error = new UpstreamApiError('API failed', 404, 'WMS Service');
       expect(error.details).toEqual({
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { toFeatureCollection, toFeatureCollections, type GeoJsonOutputInput } from '../geojson-output';
+import { wgs84ToSweref99 } from '../coordinates';
+
+const stockholm = wgs84ToSweref99({ latitude: 59.33, longitude: 18.07 });
+
+const bedrock = {
+  id: 'berg.1',
+  rock_type: 'Granit',
+  contains_point: true,
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [18.06, 59.32],
+        [18.08, 59.32],
+        [18.08, 59.34],
+        [18.06, 59.32],
+      ],
+    ],
+  },
+};
+
+function input(overrides: Partial<GeoJsonOutputInput> = {}): GeoJsonOutputInput {
+  return {
+    results: { bedrock: [bedrock], radon_risk: [{ radiation_value: 2.5, risk_level: 'low' }] },
+    pointIndices: { radon_risk: [0] },
+    sweref99Points: [stockholm],
+    crs: 'EPSG:4326',
+    ...overrides,
+  };
+}
+
+describe('geojson-output', () => {
+  describe('toFeatureCollection', () => {
+    it('emits one FeatureCollection with a data_type property on every feature', () => {
+      const fc = toFeatureCollection(['bedrock', 'radon_risk'], input());
+
+      expect(fc.type).toBe('FeatureCollection');
+      expect(fc.crs).toBeUndefined();
+      expect(fc.features.map((f) => f.properties.data_type)).toEqual(['bedrock', 'radon_risk']);
+    });
+
+    it('moves the feature id and geometry out of the properties', () => {
+      const [feature] = toFeatureCollection(['bedrock'], input()).features;
+
+      expect(feature).toMatchObject({ type: 'Feature', id: 'berg.1', geometry: { type: 'Polygon' } });
+      expect(feature.properties).toEqual({ data_type: 'bedrock', rock_type: 'Granit', contains_point: true });
+    });
+
+    it('places point results at the query point in lon/lat order', () => {
+      const [feature] = toFeatureCollection(['radon_risk'], input()).features;
+
+      expect(feature.geometry).toEqual({ type: 'Point', coordinates: [18.07, 59.33] });
+      expect(feature.properties).toEqual({ data_type: 'radon_risk', radiation_value: 2.5, risk_level: 'low' });
+    });
+
+    it('adds point_index when there are several query points', () => {
+      const second = wgs84ToSweref99({ latitude: 59.4, longitude: 18.1 });
+      const fc = toFeatureCollection(
+        ['radon_risk'],
+        input({ pointIndices: { radon_risk: [1] }, sweref99Points: [stockholm, second] }),
+      );
+
+      expect(fc.features[0].properties.point_index).toBe(1);
+      expect(fc.features[0].geometry).toEqual({ type: 'Point', coordinates: [18.1, 59.4] });
+    });
+
+    it('uses a null geometry for features without one', () => {
+      const { geometry: _geometry, ...withoutGeometry } = bedrock;
+      const fc = toFeatureCollection(['bedrock'], input({ results: { bedrock: [withoutGeometry] } }));
+
+      expect(fc.features[0].geometry).toBeNull();
+    });
+
+    it('places query points in a projected output CRS and names it', () => {
+      const fc = toFeatureCollection(['radon_risk'], input({ crs: 'EPSG:3006' }));
+
+      expect(fc.crs).toEqual({ type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3006' } });
+      expect(fc.features[0].geometry!.coordinates).toEqual([
+        Math.round(stockholm.x * 100) / 100,
+        Math.round(stockholm.y * 100) / 100,
+      ]);
+    });
+
+    it('supports SWEREF99 local zones', () => {
+      const fc = toFeatureCollection(['radon_risk'], input({ crs: 'EPSG:3011' }));
+      const [x] = fc.features[0].geometry!.coordinates as number[];
+
+      expect(fc.crs?.properties.name).toBe('urn:ogc:def:crs:EPSG::3011');
+      // SWEREF99 18 00 has its false easting of 150 km on 18°E, just west of Stockholm
+      expect(x).toBeGreaterThan(150000);
+      expect(x).toBeLessThan(160000);
+    });
+  });
+
+  describe('toFeatureCollections', () => {
+    it('emits one FeatureCollection per data type', () => {
+      const collections = toFeatureCollections(['bedrock', 'radon_risk'], input());
+
+      expect(Object.keys(collections)).toEqual(['bedrock', 'radon_risk']);
+      expect(collections.bedrock.type).toBe('FeatureCollection');
+      expect(collections.bedrock.features).toHaveLength(1);
+      expect(collections.radon_risk.features[0].geometry?.type).toBe('Point');
+    });
+  });
+});
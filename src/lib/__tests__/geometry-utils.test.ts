@@ -4,6 +4,23 @@ import {
   validateBbox,
   bboxToString,
   corridorToBoundingBox,
+  bufferCorridor,
+  ringToWkt,
+  polygonToWkt,
+  parsePolygonWkt,
+  normalizePolygon,
+  polygonArea,
+  samplePolygonGrid,
+  unionOfBoxes,
+  clusterBoxes,
+  geometryBounds,
+  prepareClipArea,
+  intersectionArea,
+  subtractFromClipArea,
+  lineLength,
+  sampleLine,
+  relatePointToGeometry,
+  wgs84MetersPerDegree,
   simplifyGeometry,
   type BoundingBox,
   type Corridor,
@@ -149,6 +166,472 @@ describe('geometry-utils', () => {
     });
   });
 
+  describe('bufferCorridor', () => {
+    const straight: Corridor = {
+      coordinates: [
+        { x: 670000, y: 6570000 },
+        { x: 671000, y: 6570000 },
+      ],
+      bufferMeters: 100,
+    };
+
+    it('should return a closed ring', () => {
+      const ring = bufferCorridor(straight);
+      expect(ring[0]).toEqual(ring[ring.length - 1]);
+    });
+
+    it('should extend the buffer distance beyond the line ends and sides', () => {
+      const ring = bufferCorridor(straight);
+      const xs = ring.map((c) => c[0]);
+      const ys = ring.map((c) => c[1]);
+      expect(Math.min(...xs)).toBeCloseTo(669900, 6);
+      expect(Math.max(...xs)).toBeCloseTo(671100, 6);
+      expect(Math.min(...ys)).toBeCloseTo(6569900, 6);
+      expect(Math.max(...ys)).toBeCloseTo(6570100, 6);
+    });
+
+    it('should keep every vertex exactly bufferMeters from a straight line', () => {
+      const ring = bufferCorridor(straight);
+      for (const [x, y] of ring) {
+        const nearestX = Math.min(Math.max(x, 670000), 671000);
+        expect(Math.hypot(x - nearestX, y - 6570000)).toBeCloseTo(100, 6);
+      }
+    });
+
+    it('should use the miter point on the inside of a bend', () => {
+      const ring = bufferCorridor({
+        coordinates: [
+          { x: 670000, y: 6570000 },
+          { x: 671000, y: 6570000 },
+          { x: 671000, y: 6571000 },
+        ],
+        bufferMeters: 100,
+      });
+      // Left turn: inner corner at (670900, 6570100), no vertex inside the bend
+      expect(ring).toContainEqual([670900, 6570100]);
+      const insideBend = ring.filter(([x, y]) => x > 670900 && x < 671000 && y > 6570000 && y < 6570100);
+      expect(insideBend).toHaveLength(0);
+    });
+
+    it('should not cross itself around segments shorter than the buffer', () => {
+      // 20 m jogs with a 100 m buffer: each miter would cut 100 m back along a 20 m segment
+      const ring = bufferCorridor({
+        coordinates: [
+          { x: 670000, y: 6570000 },
+          { x: 671000, y: 6570000 },
+          { x: 671000, y: 6570020 },
+          { x: 672000, y: 6570020 },
+          { x: 672000, y: 6570000 },
+          { x: 673000, y: 6570000 },
+        ],
+        bufferMeters: 100,
+      });
+
+      const side = (o: number[], a: number[], b: number[]) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+      const edges = ring.slice(1).map((p, i) => [ring[i], p]);
+      // Edges that are not neighbours (the first and last edge meet at the closing vertex)
+      const crossings = edges.flatMap(([a, b], i) =>
+        edges
+          .slice(i + 2, i === 0 ? -1 : undefined)
+          .filter(([c, d]) => side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0),
+      );
+      expect(crossings).toHaveLength(0);
+      // The inner side follows the offset of the first segment until it meets the round join of the jog's far end
+      expect(ring.some(([x, y]) => Math.abs(y - 6570100) < 1e-6 && x > 670930 && x < 670950)).toBe(true);
+    });
+
+    it('should ignore repeated vertices', () => {
+      const ring = bufferCorridor({
+        coordinates: [straight.coordinates[0], straight.coordinates[0], straight.coordinates[1]],
+        bufferMeters: 100,
+      });
+      expect(ring).toEqual(bufferCorridor(straight));
+    });
+
+    it('should throw for fewer than 2 distinct points', () => {
+      const corridor: Corridor = {
+        coordinates: [
+          { x: 670000, y: 6570000 },
+          { x: 670000, y: 6570000 },
+        ],
+        bufferMeters: 100,
+      };
+      expect(() => bufferCorridor(corridor)).toThrow(ValidationError);
+    });
+
+    it('should throw for a non-positive buffer', () => {
+      expect(() => bufferCorridor({ ...straight, bufferMeters: 0 })).toThrow('greater than 0');
+    });
+  });
+
+  describe('ringToWkt', () => {
+    it('should format a POLYGON rounded to decimeters', () => {
+      const wkt = ringToWkt([
+        [670000.123, 6570000.987],
+        [670100, 6570000],
+        [670100, 6570100],
+        [670000.123, 6570000.987],
+      ]);
+      expect(wkt).toBe('POLYGON((670000.1 6570001,670100 6570000,670100 6570100,670000.1 6570001))');
+    });
+  });
+
+  describe('polygon area input', () => {
+    // 100 m square with a 20 m square hole in the middle
+    const square: GeoJsonGeometry = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [100, 0],
+          [100, 100],
+          [0, 100],
+          [0, 0],
+        ],
+        [
+          [40, 40],
+          [40, 60],
+          [60, 60],
+          [60, 40],
+          [40, 40],
+        ],
+      ],
+    };
+
+    it('parses a WKT POLYGON with a hole', () => {
+      const wkt = 'POLYGON ((0 0, 100 0, 100 100, 0 100, 0 0), (40 40, 40 60, 60 60, 60 40, 40 40))';
+      expect(parsePolygonWkt(wkt)).toEqual(square);
+    });
+
+    it('parses a WKT MULTIPOLYGON case-insensitively', () => {
+      const geometry = parsePolygonWkt('multipolygon(((0 0,1 0,1 1,0 0)),((5 5,6 5,6 6,5 5)))');
+
+      expect(geometry.type).toBe('MultiPolygon');
+      expect(geometry.coordinates).toHaveLength(2);
+    });
+
+    it('rejects other and malformed WKT', () => {
+      expect(() => parsePolygonWkt('POINT (1 2)')).toThrow('POLYGON or MULTIPOLYGON');
+      expect(() => parsePolygonWkt('POLYGON ((0 0, 1 0, 1 1, 0 0)')).toThrow('Malformed WKT');
+      expect(() => parsePolygonWkt('POLYGON ((0 0, 1 0, 1 1, 0 0)) x')).toThrow('after the geometry');
+    });
+
+    it('closes unclosed rings and rejects degenerate ones', () => {
+      const polygon = normalizePolygon({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+          ],
+        ],
+      });
+      expect((polygon.coordinates as number[][][])[0]).toHaveLength(4);
+
+      const degenerate = [
+        [0, 0],
+        [1, 0],
+        [0, 0],
+      ];
+      expect(() => normalizePolygon({ type: 'Polygon', coordinates: [degenerate] })).toThrow(ValidationError);
+      expect(() => normalizePolygon({ type: 'LineString', coordinates: [] })).toThrow('Polygon or MultiPolygon');
+    });
+
+    it('writes POLYGON and MULTIPOLYGON WKT with holes', () => {
+      expect(polygonToWkt(square)).toBe('POLYGON((0 0,100 0,100 100,0 100,0 0),(40 40,40 60,60 60,60 40,40 40))');
+      expect(polygonToWkt({ type: 'MultiPolygon', coordinates: [square.coordinates as number[][][]] })).toMatch(
+        /^MULTIPOLYGON\(\(\(0 0,/,
+      );
+    });
+
+    it('computes area with holes removed, whatever the ring orientation', () => {
+      expect(polygonArea(square)).toBe(9600);
+      expect(polygonArea({ type: 'MultiPolygon', coordinates: [square.coordinates as number[][][]] })).toBe(9600);
+    });
+
+    it('samples cell centres inside the polygon, skipping holes', () => {
+      const samples = samplePolygonGrid(square, 10);
+
+      // 100 cells, 4 of them in the hole
+      expect(samples).toHaveLength(96);
+      expect(samples[0]).toEqual({ x: 5, y: 5 });
+      expect(samples).not.toContainEqual({ x: 45, y: 45 });
+    });
+  });
+
+  describe('unionOfBoxes', () => {
+    it('merges overlapping boxes into disjoint rectangles', () => {
+      const union = unionOfBoxes([
+        { minX: 0, minY: 0, maxX: 100, maxY: 100 },
+        { minX: 50, minY: 50, maxX: 150, maxY: 150 },
+      ]);
+
+      expect(union.type).toBe('MultiPolygon');
+      expect(polygonArea(union)).toBe(17500);
+    });
+  });
+
+  describe('clusterBoxes', () => {
+    const square = (x: number, y: number, half = 50): BoundingBox => ({
+      minX: x - half,
+      minY: y - half,
+      maxX: x + half,
+      maxY: y + half,
+    });
+
+    it('merges boxes along a straight line into one envelope', () => {
+      const clusters = clusterBoxes([square(0, 0), square(60, 0), square(120, 0)]);
+
+      expect(clusters).toEqual([{ envelope: { minX: -50, minY: -50, maxX: 170, maxY: 50 }, members: [0, 1, 2] }]);
+    });
+
+    it('keeps apart boxes that do not overlap', () => {
+      const clusters = clusterBoxes([square(0, 0), square(500, 0), square(20, 20)]);
+
+      expect(clusters.map((c) => c.members)).toEqual([[0, 2], [1]]);
+    });
+
+    it('splits a diagonal into several envelopes rather than one mostly empty square', () => {
+      const boxes = [0, 1, 2, 3, 4, 5].map((i) => square(i * 80, i * 80));
+
+      const clusters = clusterBoxes(boxes);
+
+      expect(clusters.length).toBeGreaterThan(1);
+      expect(clusters.flatMap((c) => c.members).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it('merges clusters whose envelopes grow into each other', () => {
+      // 0 and 1 are apart until 2 bridges them
+      const clusters = clusterBoxes([square(0, 0), square(110, 0), square(55, 0)]);
+
+      expect(clusters.map((c) => c.members)).toEqual([[0, 1, 2]]);
+    });
+  });
+
+  describe('geometryBounds', () => {
+    it('covers point and line geometries', () => {
+      expect(geometryBounds({ type: 'Point', coordinates: [3, 4] })).toEqual({ minX: 3, minY: 4, maxX: 3, maxY: 4 });
+      expect(
+        geometryBounds({
+          type: 'MultiLineString',
+          coordinates: [
+            [
+              [0, 5],
+              [2, 1],
+            ],
+            [[-1, 3]],
+          ],
+        }),
+      ).toEqual({ minX: -1, minY: 1, maxX: 2, maxY: 5 });
+    });
+  });
+
+  describe('intersectionArea', () => {
+    const box = (minX: number, minY: number, maxX: number, maxY: number): GeoJsonGeometry => ({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [minX, minY],
+          [maxX, minY],
+          [maxX, maxY],
+          [minX, maxY],
+          [minX, minY],
+        ],
+      ],
+    });
+
+    it('clips a polygon to a convex area', () => {
+      const clip = prepareClipArea(box(0, 0, 100, 100));
+
+      expect(clip.area).toBe(10000);
+      expect(intersectionArea(box(50, -50, 200, 50), clip)).toBeCloseTo(2500, 6);
+      expect(intersectionArea(box(200, 200, 300, 300), clip)).toBe(0);
+    });
+
+    it('clips to a concave area', () => {
+      // L shape: 100 × 100 square without its north-east quarter
+      const lShape: GeoJsonGeometry = {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [100, 0],
+            [100, 50],
+            [50, 50],
+            [50, 100],
+            [0, 100],
+            [0, 0],
+          ],
+        ],
+      };
+      const clip = prepareClipArea(lShape);
+
+      expect(clip.area).toBe(7500);
+      // Eastern half: only its southern quarter is inside the L
+      expect(intersectionArea(box(50, 0, 100, 100), clip)).toBeCloseTo(2500, 6);
+    });
+
+    it('removes holes of both the polygon and the area', () => {
+      const withHole = (outer: number, hole: number[]): GeoJsonGeometry => ({
+        type: 'Polygon',
+        coordinates: [
+          (box(0, 0, outer, outer).coordinates as number[][][])[0],
+          (box(hole[0], hole[1], hole[2], hole[3]).coordinates as number[][][])[0],
+        ],
+      });
+      const clip = prepareClipArea(withHole(100, [0, 0, 20, 20]));
+
+      // Subject hole 40-60 lies inside the area; the area's own hole is 0-20
+      expect(intersectionArea(withHole(100, [40, 40, 60, 60]), clip)).toBeCloseTo(10000 - 400 - 400, 6);
+    });
+
+    it('ignores non-polygon geometries', () => {
+      const clip = prepareClipArea(box(0, 0, 100, 100));
+
+      expect(intersectionArea({ type: 'Point', coordinates: [50, 50] }, clip)).toBe(0);
+    });
+
+    it('leaves out the ground covered by subtracted polygons', () => {
+      const clip = subtractFromClipArea(prepareClipArea(box(0, 0, 100, 100)), [box(50, -50, 200, 50)]);
+
+      expect(clip.area).toBeCloseTo(7500, 6);
+      expect(intersectionArea(box(0, 0, 100, 100), clip)).toBeCloseTo(7500, 6);
+      // The south-eastern quarter is gone
+      expect(intersectionArea(box(50, 0, 100, 50), clip)).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('lineLength', () => {
+    it('should sum segment lengths', () => {
+      expect(
+        lineLength([
+          { x: 0, y: 0 },
+          { x: 300, y: 400 },
+          { x: 300, y: 1400 },
+        ]),
+      ).toBe(1500);
+    });
+  });
+
+  describe('sampleLine', () => {
+    it('should sample at a fixed spacing including both ends', () => {
+      const samples = sampleLine(
+        [
+          { x: 0, y: 0 },
+          { x: 1000, y: 0 },
+        ],
+        300,
+      );
+      expect(samples.map((p) => p.x)).toEqual([0, 300, 600, 900, 1000]);
+    });
+
+    it('should carry spacing across vertices', () => {
+      const samples = sampleLine(
+        [
+          { x: 0, y: 0 },
+          { x: 250, y: 0 },
+          { x: 250, y: 500 },
+        ],
+        200,
+      );
+      expect(samples).toEqual([
+        { x: 0, y: 0 },
+        { x: 200, y: 0 },
+        { x: 250, y: 150 },
+        { x: 250, y: 350 },
+        { x: 250, y: 500 },
+      ]);
+    });
+
+    it('should not duplicate the end point when length is a multiple of spacing', () => {
+      const samples = sampleLine(
+        [
+          { x: 0, y: 0 },
+          { x: 1000, y: 0 },
+        ],
+        500,
+      );
+      expect(samples).toHaveLength(3);
+    });
+
+    it('should throw for non-positive spacing', () => {
+      const line = [
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+      ];
+      expect(() => sampleLine(line, 0)).toThrow(ValidationError);
+    });
+  });
+});
+
+describe('relatePointToGeometry', () => {
+  // 100 m square with a 20 m hole in the middle (SWEREF99TM-like meters)
+  const squareWithHole: GeoJsonGeometry = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [100, 0],
+        [100, 100],
+        [0, 100],
+        [0, 0],
+      ],
+      [
+        [40, 40],
+        [60, 40],
+        [60, 60],
+        [40, 60],
+        [40, 40],
+      ],
+    ],
+  };
+
+  it('detects a point inside a polygon', () => {
+    expect(relatePointToGeometry(squareWithHole, [10, 10])).toEqual({ contains: true, distance: 0 });
+  });
+
+  it('measures distance to the edge for a point outside', () => {
+    const relation = relatePointToGeometry(squareWithHole, [130, 50]);
+    expect(relation.contains).toBe(false);
+    expect(relation.distance).toBeCloseTo(30, 6);
+  });
+
+  it('treats a point in a hole as outside, with distance to the hole edge', () => {
+    const relation = relatePointToGeometry(squareWithHole, [50, 45]);
+    expect(relation.contains).toBe(false);
+    expect(relation.distance).toBeCloseTo(5, 6);
+  });
+
+  it('handles MultiPolygon (contained in any part)', () => {
+    const multi: GeoJsonGeometry = {
+      type: 'MultiPolygon',
+      coordinates: [
+        squareWithHole.coordinates as number[][][],
+        [
+          [
+            [200, 0],
+            [300, 0],
+            [300, 100],
+            [200, 0],
+          ],
+        ],
+      ],
+    };
+    expect(relatePointToGeometry(multi, [290, 50]).contains).toBe(true);
+    expect(relatePointToGeometry(multi, [150, 50]).distance).toBeCloseTo(50, 6);
+  });
+
+  it('measures distance to points', () => {
+    const point: GeoJsonGeometry = { type: 'Point', coordinates: [30, 40] };
+    expect(relatePointToGeometry(point, [0, 0])).toEqual({ contains: false, distance: 50 });
+  });
+
+  it('scales WGS84 degrees to meters', () => {
+    const point: GeoJsonGeometry = { type: 'Point', coordinates: [18.0, 59.01] };
+    const relation = relatePointToGeometry(point, [18.0, 59.0], wgs84MetersPerDegree(59.0));
+    expect(relation.distance).toBeCloseTo(1105.74, 1);
+  });
 });
 
 describe('simplifyGeometry', () => {
@@ -206,9 +689,9 @@ describe('simplifyGeometry', () => {
   });
 
   it('accepts optional tolerance parameter and uses it for simplification', () => {
-    // With a large tolerance (0.1°) even the jagged corners collapse
-    const resultLoose = simplifyGeometry(polygonGeometry, 'simplified', 0.1);
-    const resultTight = simplifyGeometry(polygonGeometry, 'simplified', 0.0001);
+    // With a large tolerance (10 km) even the jagged corners collapse
+    const resultLoose = simplifyGeometry(polygonGeometry, 'simplified', { toleranceM: 10000 });
+    const resultTight = simplifyGeometry(polygonGeometry, 'simplified', { toleranceM: 5 });
     expect(resultLoose).toBeDefined();
     expect(resultTight).toBeDefined();
     const looseCoordsLen = ((resultLoose!.coordinates as number[][][])[0]).length;
@@ -217,6 +700,35 @@ describe('simplifyGeometry', () => {
     expect(looseCoordsLen).toBeLessThanOrEqual(tightCoordsLen);
   });
 
+  it('measures the tolerance in metres for WGS84 coordinates', () => {
+    // The bottom-edge kinks deviate 0.0001° of latitude, about 11 m
+    const count = (g: GeoJsonGeometry | undefined) => (g!.coordinates as number[][][])[0].length;
+    const original = (polygonGeometry.coordinates as number[][][])[0].length;
+
+    expect(count(simplifyGeometry(polygonGeometry, 'simplified', { toleranceM: 20 }))).toBeLessThan(original);
+    expect(count(simplifyGeometry(polygonGeometry, 'simplified', { toleranceM: 5 }))).toBe(original);
+  });
+
+  it('simplifies metric coordinates with the same tolerance and rounds them to centimetres', () => {
+    const sweref: GeoJsonGeometry = {
+      type: 'LineString',
+      coordinates: [
+        [674000.123456, 6580000],
+        [674500, 6580011],
+        [675000, 6580000],
+      ],
+    };
+
+    const simplified = simplifyGeometry(sweref, 'simplified', { units: 'metres', toleranceM: 20 });
+    const kept = simplifyGeometry(sweref, 'simplified', { units: 'metres', toleranceM: 5 });
+
+    expect(simplified!.coordinates).toEqual([
+      [674000.12, 6580000],
+      [675000, 6580000],
+    ]);
+    expect((kept!.coordinates as number[][]).length).toBe(3);
+  });
+
   it('handles MultiPolygon correctly', () => {
     const multiPolygon: GeoJsonGeometry = {
       type: 'MultiPolygon',
@@ -0,0 +1,413 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHttpClient } from '../http-client';
+import { createMemoryCache, setCacheStore, type CacheStore } from '../cache';
+import { runWithDiagnostics } from '../diagnostics';
+import { runWithDeadline } from '../deadline';
+import { getCircuitStatus, resetCircuits } from '../circuit-breaker';
+import { resetConcurrency, setConcurrencyLimits } from '../concurrency';
+import { UpstreamApiError } from '../errors';
+
+const BASE_URL = 'https://maps3.sgu.se/geoserver/jord/ows';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('http-client', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    setCacheStore(createMemoryCache());
+    resetCircuits();
+    resetConcurrency();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('request', () => {
+    it('builds the URL from path and params, skipping empty values', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: 'https://api.sgu.example/v1' });
+
+      await client.request('collections/x/items', { params: { limit: 10, bbox: '', offset: undefined } });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.sgu.example/v1/collections/x/items?limit=10');
+    });
+
+    it('returns binary bodies base64-encoded', async () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+      fetchMock.mockResolvedValue(new Response(png, { headers: { 'content-type': 'image/png;charset=x' } }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const body = await client.request('', { responseType: 'binary' });
+
+      expect(body).toEqual({ data: Buffer.from(png).toString('base64'), mimeType: 'image/png', bytes: 4 });
+    });
+
+    it('refuses a binary body over maxBytes by its Content-Length without reading it', async () => {
+      const response = new Response(new Uint8Array(10), {
+        headers: { 'content-type': 'image/png', 'content-length': '10' },
+      });
+      const arrayBuffer = vi.spyOn(response, 'arrayBuffer');
+      fetchMock.mockResolvedValue(response);
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await expect(client.request('', { responseType: 'binary', maxBytes: 8 })).rejects.toMatchObject({
+        code: 'RESPONSE_TOO_LARGE',
+      });
+      expect(arrayBuffer).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(getCircuitStatus('maps3.sgu.se').consecutive_failures).toBe(0);
+    });
+
+    it('stops downloading a body without Content-Length once it passes maxBytes', async () => {
+      let pulls = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++;
+          controller.enqueue(new Uint8Array(4));
+        },
+      });
+      fetchMock.mockResolvedValue(new Response(stream, { headers: { 'content-type': 'image/png' } }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await expect(client.request('', { responseType: 'binary', maxBytes: 10 })).rejects.toMatchObject({
+        code: 'RESPONSE_TOO_LARGE',
+      });
+      expect(pulls).toBeLessThan(6);
+    });
+
+    it('returns a binary body within maxBytes', async () => {
+      fetchMock.mockResolvedValue(new Response(new Uint8Array(8), { headers: { 'content-type': 'image/png' } }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const body = await client.request('', { responseType: 'binary', maxBytes: 8 });
+
+      expect(body).toMatchObject({ mimeType: 'image/png', bytes: 8 });
+    });
+
+    it('throws UpstreamApiError on HTTP errors', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}, 400));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await expect(client.request('')).rejects.toBeInstanceOf(UpstreamApiError);
+    });
+  });
+
+  describe('caching', () => {
+    it('serves repeated GETs from the cache when a TTL is set', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ features: [1] }));
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000 });
+
+      const first = await client.request('', { params: { A: 1, B: 2 } });
+      const second = await client.request('', { params: { B: 2, A: 1 } });
+
+      expect(first).toEqual({ features: [1] });
+      expect(second).toEqual({ features: [1] });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache bodies the cacheable check rejects', async () => {
+      fetchMock.mockImplementation(
+        async () => new Response('<ServiceExceptionReport/>', { headers: { 'content-type': 'text/xml' } }),
+      );
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000 });
+      const cacheable = (body: unknown) => !String(body).startsWith('<ServiceException');
+
+      await client.request('', { cacheable });
+      await client.request('', { cacheable });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache without a TTL', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ features: [] }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await client.request('', { params: { A: 1 } });
+      await client.request('', { params: { A: 1 } });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache error responses', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({}, 502)).mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000, retry: false });
+
+      await expect(client.request('')).rejects.toThrow();
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+    });
+
+    it('records hits, misses and upstream requests in diagnostics', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000 });
+
+      const { diagnostics } = await runWithDiagnostics(async () => {
+        await client.request('', { params: { A: 1 } });
+        await client.request('', { params: { A: 1 } });
+        await client.request('', { params: { A: 2 } });
+      });
+
+      expect(diagnostics).toMatchObject({ upstream_requests: 2, cache_hits: 1, cache_misses: 2 });
+    });
+
+    it('falls through to the network when the cache store fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failingStore: CacheStore = {
+        get: vi.fn().mockRejectedValue(new Error('KV down')),
+        set: vi.fn().mockRejectedValue(new Error('KV down')),
+        clear: vi.fn(),
+      };
+      setCacheStore(failingStore);
+      fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000 });
+
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('concurrency limit', () => {
+    it('queues requests over the per-host limit and reports the wait in diagnostics', async () => {
+      setConcurrencyLimits({ defaultLimit: 2 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      fetchMock.mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return jsonResponse({ ok: true });
+      });
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const { diagnostics } = await runWithDiagnostics(() =>
+        Promise.all([1, 2, 3, 4, 5].map((i) => client.request('', { params: { i } }))),
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+      expect(diagnostics.queued_requests).toBe(3);
+      expect(diagnostics.queue_wait_ms).toBeGreaterThan(0);
+    });
+
+    it('frees the slot when the request fails', async () => {
+      setConcurrencyLimits({ defaultLimit: 1 });
+      fetchMock.mockResolvedValueOnce(jsonResponse({}, 400)).mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await expect(client.request('')).rejects.toBeInstanceOf(UpstreamApiError);
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+    });
+    it('gives up waiting for a slot at the deadline without counting it against the host', async () => {
+      setConcurrencyLimits({ defaultLimit: 1 });
+      let finish = () => {};
+      fetchMock.mockImplementationOnce(() => new Promise((resolve) => (finish = () => resolve(jsonResponse({ ok: true })))));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry: false });
+      const running = client.request('', { params: { i: 1 } });
+
+      // 1 s is held back for the attempt itself, so this waits about 50 ms in the queue
+      const error = (await runWithDeadline(() => client.request('', { params: { i: 2 } }), 1050).catch(
+        (e) => e,
+      )) as UpstreamApiError;
+
+      expect(error.code).toBe('DEADLINE_EXCEEDED');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(getCircuitStatus('maps3.sgu.se').consecutive_failures).toBe(0);
+      finish();
+      await running;
+    });
+  });
+
+  describe('coalescing', () => {
+    it('shares one upstream request between identical GETs in flight', async () => {
+      fetchMock.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return jsonResponse({ ok: true });
+      });
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const { result, diagnostics } = await runWithDiagnostics(() =>
+        Promise.all([
+          client.request('', { params: { a: 1, b: 2 } }),
+          client.request('', { params: { b: 2, a: 1 } }),
+          client.request('', { params: { a: 2 } }),
+        ]),
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+      expect(result[1]).not.toBe(result[0]);
+      expect(diagnostics).toMatchObject({ upstream_requests: 2, coalesced_requests: 1 });
+    });
+
+    it('lets each waiter give up at its own deadline while the shared request carries on', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        return jsonResponse({ ok: true });
+      });
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const short = runWithDeadline(() => client.request(''), 2000).catch((e) => e);
+      const long = runWithDiagnostics(() => runWithDeadline(() => client.request(''), 10000));
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(await short).toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { result, diagnostics } = await long;
+      expect(result).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(diagnostics).toMatchObject({ upstream_requests: 0, coalesced_requests: 1 });
+      vi.useRealTimers();
+    });
+
+    it('shares the failure and sends the next request afresh', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({}, 400)).mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      const settled = await Promise.allSettled([client.request(''), client.request('')]);
+
+      expect(settled.map((s) => s.status)).toEqual(['rejected', 'rejected']);
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('always sends requests that bypass the cache', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL });
+
+      await Promise.all([client.request('', { cache: false }), client.request('', { cache: false })]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retries', () => {
+    const retry = { baseDelayMs: 1, maxDelayMs: 5 };
+
+    it('retries 502/503/504 and returns the eventual success', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({}, 502))
+        .mockResolvedValueOnce(jsonResponse({}, 504))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      const { result, diagnostics } = await runWithDiagnostics(() => client.request(''));
+
+      expect(result).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(diagnostics).toMatchObject({ upstream_requests: 3, retries: 2 });
+    });
+
+    it('records the number of attempts in the error details', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 503));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry: { ...retry, maxAttempts: 4 } });
+
+      const error = (await client.request('').catch((e) => e)) as UpstreamApiError;
+
+      expect(error).toBeInstanceOf(UpstreamApiError);
+      expect(error.details).toMatchObject({ statusCode: 503, attempts: 4 });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('retries connection resets', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed')).mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+    });
+
+    it('retries timeouts', async () => {
+      const abortError = Object.assign(new Error('aborted'), { name: 'AbortError' });
+      fetchMock.mockRejectedValueOnce(abortError).mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      await expect(client.request('')).resolves.toEqual({ ok: true });
+    });
+
+    it('does not retry client errors or HTTP 500', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({}, 400)).mockResolvedValueOnce(jsonResponse({}, 500));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      await expect(client.request('')).rejects.toMatchObject({ details: { attempts: 1 } });
+      await expect(client.request('')).rejects.toMatchObject({ details: { attempts: 1 } });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry POST requests', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}, 503));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      await expect(client.request('', { method: 'POST', body: {} })).rejects.toThrow();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('honours Retry-After', async () => {
+      vi.useFakeTimers();
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 503, headers: { 'retry-after': '2' } }))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      const pending = client.request('');
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it('gives up when the backoff would overrun the tool call deadline', async () => {
+      fetchMock.mockResolvedValue(new Response('', { status: 503, headers: { 'retry-after': '30' } }));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry });
+
+      const error = (await runWithDeadline(() => client.request(''), 10000).catch((e) => e)) as UpstreamApiError;
+
+      expect(error.details).toMatchObject({ attempts: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('fails fast once repeated failures open the circuit', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 503));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry: false });
+
+      for (let i = 0; i < 5; i++) {
+        await expect(client.request('')).rejects.toMatchObject({ code: 'UPSTREAM_API_ERROR' });
+      }
+      await expect(client.request('')).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(getCircuitStatus('maps3.sgu.se').state).toBe('open');
+    });
+
+    it('does not count client errors as failures', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 400));
+      const client = createHttpClient({ baseUrl: BASE_URL, retry: false });
+
+      for (let i = 0; i < 6; i++) {
+        await expect(client.request('')).rejects.toMatchObject({ code: 'UPSTREAM_API_ERROR' });
+      }
+
+      expect(getCircuitStatus('maps3.sgu.se')).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+    });
+
+    it('still serves cached responses while the circuit is open', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true })).mockImplementation(async () => jsonResponse({}, 503));
+      const client = createHttpClient({ baseUrl: BASE_URL, cacheTtlMs: 60000, retry: false });
+
+      await client.request('', { params: { A: 1 } });
+      for (let i = 0; i < 5; i++) {
+        await client.request('', { params: { B: i } }).catch(() => {});
+      }
+
+      await expect(client.request('', { params: { A: 1 } })).resolves.toEqual({ ok: true });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { compassDirection, screenLandslideRisk } from '../landslide-screening';
+
+describe('compassDirection', () => {
+  it('rounds bearings to the nearest of eight compass points', () => {
+    expect([0, 44, 90, 200, 350].map(compassDirection)).toEqual(['N', 'NE', 'E', 'S', 'N']);
+  });
+});
+
+describe('screenLandslideRisk', () => {
+  it('rates a scar at the site as high', () => {
+    const screening = screenLandslideRisk({
+      landslide_scars: [{ distance_m: 0, description: 'Skredärr i finkornig jordart' }],
+      slope_prerequisites: [],
+      shore_erosion: [],
+    });
+
+    expect(screening.level).toBe('high');
+    expect(screening.evidence).toEqual(['Landslide scar at the site: Skredärr i finkornig jordart']);
+    expect(screening.incomplete).toBeUndefined();
+  });
+
+  it('rates slope prerequisites at the site together with a scar in the radius as high', () => {
+    const screening = screenLandslideRisk({
+      landslide_scars: [{ distance_m: 420, direction: 'NE' }],
+      slope_prerequisites: [{ distance_m: 0 }],
+      shore_erosion: [],
+    });
+
+    expect(screening.level).toBe('high');
+    expect(screening.evidence[0]).toBe('Landslide scar 420 m NE');
+  });
+
+  it('rates a distant scar or shore erosion at the site as moderate', () => {
+    expect(
+      screenLandslideRisk({ landslide_scars: [{ distance_m: 300 }], slope_prerequisites: [], shore_erosion: [] }).level,
+    ).toBe('moderate');
+    expect(
+      screenLandslideRisk({ landslide_scars: [], slope_prerequisites: [], shore_erosion: [{ distance_m: 40 }] }).level,
+    ).toBe('moderate');
+  });
+
+  it('counts every feature of a layer in the evidence', () => {
+    const screening = screenLandslideRisk({
+      landslide_scars: [{ distance_m: 450, direction: 'W' }, { distance_m: 200, direction: 'S' }, { within_m: 500 }],
+      slope_prerequisites: [],
+      shore_erosion: [],
+    });
+
+    expect(screening.evidence).toEqual(['Landslide scar 200 m S (3 in total)']);
+  });
+
+  it('rates nothing found as low', () => {
+    const screening = screenLandslideRisk({ landslide_scars: [], slope_prerequisites: [], shore_erosion: [] });
+
+    expect(screening.level).toBe('low');
+    expect(screening.evidence).toEqual(['No landslide scars, slope prerequisites or shore erosion found within the radius']);
+  });
+
+  it('flags layers that could not be checked', () => {
+    const screening = screenLandslideRisk({ landslide_scars: [], slope_prerequisites: [] });
+
+    expect(screening.level).toBe('low');
+    expect(screening.incomplete).toBe(true);
+    expect(screening.evidence).toEqual(['Shore erosion layer could not be checked']);
+  });
+});
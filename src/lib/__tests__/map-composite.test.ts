@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { compositeMapImages } from '../map-composite';
+import type { BinaryBody } from '../http-client';
+
+async function solid(r: number, g: number, b: number, alpha: number): Promise<BinaryBody> {
+  const buffer = await sharp({ create: { width: 4, height: 4, channels: 4, background: { r, g, b, alpha } } })
+    .png()
+    .toBuffer();
+  return { data: buffer.toString('base64'), mimeType: 'image/png', bytes: buffer.length };
+}
+
+async function pixel(image: BinaryBody): Promise<number[]> {
+  const { data } = await sharp(Buffer.from(image.data, 'base64')).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return [...data.subarray(0, 4)];
+}
+
+describe('compositeMapImages', () => {
+  it('draws later layers on top', async () => {
+    const result = await compositeMapImages(
+      [
+        { image: await solid(255, 0, 0, 1), opacity: 1 },
+        { image: await solid(0, 0, 255, 1), opacity: 1 },
+      ],
+      4,
+      4,
+      'png',
+    );
+
+    expect(result.mimeType).toBe('image/png');
+    expect(await pixel(result)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('keeps lower layers visible through transparent areas', async () => {
+    const result = await compositeMapImages(
+      [
+        { image: await solid(255, 0, 0, 1), opacity: 1 },
+        { image: await solid(0, 0, 255, 0), opacity: 1 },
+      ],
+      4,
+      4,
+      'png',
+    );
+
+    expect(await pixel(result)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('applies per-layer opacity', async () => {
+    const result = await compositeMapImages(
+      [
+        { image: await solid(255, 0, 0, 1), opacity: 1 },
+        { image: await solid(0, 0, 255, 1), opacity: 0.5 },
+      ],
+      4,
+      4,
+      'png',
+    );
+
+    const [r, g, b] = await pixel(result);
+    expect(r).toBeGreaterThan(100);
+    expect(r).toBeLessThan(155);
+    expect(g).toBe(0);
+    expect(b).toBeGreaterThan(100);
+    expect(b).toBeLessThan(155);
+  });
+
+  it('encodes JPEG on a white background', async () => {
+    const result = await compositeMapImages([{ image: await solid(0, 0, 0, 0), opacity: 1 }], 4, 4, 'jpeg');
+
+    expect(result.mimeType).toBe('image/jpeg');
+    const [r, g, b] = await pixel(result);
+    expect(Math.min(r, g, b)).toBeGreaterThan(245);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UpstreamApiError } from '../errors';
+import { byDistance, failureMessages, locateFeature, searchLayers, throwIfAllFailed } from '../nearby-search';
+
+const point = { x: 500000, y: 6500000 };
+
+// 100 m square whose western edge is `east` meters east of the point
+function squareAt(east: number) {
+  const x0 = point.x + east;
+  return {
+    type: 'Polygon' as const,
+    coordinates: [
+      [
+        [x0, point.y - 50],
+        [x0 + 100, point.y - 50],
+        [x0 + 100, point.y + 50],
+        [x0, point.y + 50],
+        [x0, point.y - 50],
+      ],
+    ],
+  };
+}
+
+describe('searchLayers', () => {
+  it('keeps the layers that answered when another fails', async () => {
+    const error = new UpstreamApiError('GeoServer down', 503, 'https://maps3.sgu.se');
+    const searches = {
+      a: vi.fn().mockResolvedValue({ features: [{ info: { name: 'A' } }], truncated: true }),
+      b: vi.fn().mockRejectedValue(error),
+    };
+
+    const result = await searchLayers(searches, ['a', 'b'], point, 1000);
+
+    expect(searches.a).toHaveBeenCalledWith(point, 1000);
+    expect(result.found).toEqual({ a: [{ info: { name: 'A' } }] });
+    expect(result.truncated).toEqual(['a']);
+    expect(result.failures).toEqual({ b: error });
+    expect(failureMessages(result.failures)).toEqual({ b: 'GeoServer down' });
+    expect(() => throwIfAllFailed(['a', 'b'], result.failures)).not.toThrow();
+  });
+
+  it('rethrows the upstream error when every layer failed', async () => {
+    const error = new UpstreamApiError('GeoServer down', 503, 'https://maps3.sgu.se');
+    const { failures } = await searchLayers({ a: vi.fn().mockRejectedValue(error) }, ['a'], point, 1000);
+
+    expect(() => throwIfAllFailed(['a'], failures)).toThrow(error);
+  });
+
+  it('reports no errors when nothing failed', () => {
+    expect(failureMessages({})).toBeUndefined();
+  });
+});
+
+describe('locateFeature', () => {
+  it('measures the distance to the outline, and falls back to the radius without geometry', () => {
+    expect(locateFeature({ geometry: squareAt(300), info: {} }, point, 1000)).toEqual({ distance_m: 300 });
+    expect(locateFeature({ info: {} }, point, 1000)).toEqual({ within_m: 1000 });
+  });
+
+  it('sorts features with a distance first, nearest first', () => {
+    const sorted = [{ within_m: 1000 }, { distance_m: 400 }, { distance_m: 0 }].sort(byDistance);
+    expect(sorted).toEqual([{ distance_m: 0 }, { distance_m: 400 }, { within_m: 1000 }]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockRequest = vi.fn();
+
+// Mock HTTP layer — the OGC client only builds params and follows pages
+vi.mock('../http-client', () => ({
+  createHttpClient: vi.fn(() => ({ request: mockRequest })),
+}));
+
+import { createOgcClient } from '../ogc-client';
+
+const BASE_URL = 'https://api.sgu.se/oppnadata/brunnar/ogc/features/v1';
+
+function page(ids: number[], extra: Record<string, unknown> = {}) {
+  return {
+    type: 'FeatureCollection',
+    features: ids.map((id) => ({ type: 'Feature', id, geometry: null, properties: {} })),
+    ...extra,
+  };
+}
+
+function nextLink(offset: number) {
+  return { links: [{ rel: 'next', href: `${BASE_URL}/collections/brunnar/items?limit=2&offset=${offset}` }] };
+}
+
+describe('ogc-client', () => {
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  describe('getItemsWithCount', () => {
+    it('returns features, numberMatched and the next link', async () => {
+      mockRequest.mockResolvedValue(page([1, 2], { numberMatched: 5, ...nextLink(2) }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getItemsWithCount('brunnar', { limit: 2 });
+
+      expect(result.features).toHaveLength(2);
+      expect(result.numberMatched).toBe(5);
+      expect(result.nextHref).toContain('offset=2');
+    });
+  });
+
+  describe('getAllItems', () => {
+    it('follows rel=next links until numberMatched is reached', async () => {
+      mockRequest
+        .mockResolvedValueOnce(page([1, 2], { numberMatched: 5, ...nextLink(2) }))
+        .mockResolvedValueOnce(page([3, 4], { numberMatched: 5, ...nextLink(4) }))
+        .mockResolvedValueOnce(page([5], { numberMatched: 5 }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 10 });
+
+      expect(result.features).toHaveLength(5);
+      expect(result).toMatchObject({ numberMatched: 5, numberReturned: 5, truncated: false });
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+      expect(mockRequest.mock.calls[1][0]).toContain('offset=2');
+    });
+
+    it('falls back to offset paging when there is no next link', async () => {
+      mockRequest
+        .mockResolvedValueOnce(page([1, 2], { numberMatched: 3 }))
+        .mockResolvedValueOnce(page([3], { numberMatched: 3 }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 10 });
+
+      expect(result.features).toHaveLength(3);
+      expect(mockRequest.mock.calls[1][1].params).toMatchObject({ limit: 2, offset: 2 });
+    });
+
+    it('stops at maxFeatures and reports truncation', async () => {
+      mockRequest
+        .mockResolvedValueOnce(page([1, 2], { numberMatched: 50, ...nextLink(2) }))
+        .mockResolvedValueOnce(page([3, 4], { numberMatched: 50, ...nextLink(4) }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 3 });
+
+      // Second page comes from the next link (limit=2) and overshoots — trimmed to the cap
+      expect(result.features).toHaveLength(3);
+      expect(result).toMatchObject({ numberMatched: 50, numberReturned: 3, truncated: true });
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at maxPages', async () => {
+      mockRequest.mockResolvedValue(page([1, 2], { numberMatched: 100, ...nextLink(2) }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 100, maxPages: 3 });
+
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('stops on a short page when numberMatched is not reported', async () => {
+      mockRequest.mockResolvedValueOnce(page([1, 2])).mockResolvedValueOnce(page([3]));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      const result = await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 10 });
+
+      expect(result.features).toHaveLength(3);
+      expect(result.numberMatched).toBeUndefined();
+      expect(result.truncated).toBe(false);
+    });
+
+    it('does not follow next links to another host', async () => {
+      mockRequest
+        .mockResolvedValueOnce(
+          page([1, 2], { numberMatched: 3, links: [{ rel: 'next', href: 'https://example.com/items?offset=2' }] }),
+        )
+        .mockResolvedValueOnce(page([3], { numberMatched: 3 }));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+
+      await client.getAllItems('brunnar', { pageSize: 2, maxFeatures: 10 });
+
+      expect(mockRequest.mock.calls[1][0]).toBe('collections/brunnar/items');
+      expect(mockRequest.mock.calls[1][1].params).toMatchObject({ offset: 2 });
+    });
+
+    it('passes bbox filter on every offset page', async () => {
+      mockRequest.mockResolvedValueOnce(page([1, 2])).mockResolvedValueOnce(page([]));
+      const client = createOgcClient({ baseUrl: BASE_URL });
+      const bbox = { minX: 18.0, minY: 59.3, maxX: 18.1, maxY: 59.4 };
+
+      await client.getAllItems('brunnar', { bbox, pageSize: 2, maxFeatures: 10 });
+
+      for (const call of mockRequest.mock.calls) {
+        expect(call[1].params.bbox).toBe('18,59.3,18.1,59.4');
+      }
+    });
+  });
+});
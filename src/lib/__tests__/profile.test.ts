@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { formatChainage, mergeStations, type ProfileStation } from '../profile';
+
+function station(chainageM: number, overrides: Partial<ProfileStation> = {}): ProfileStation {
+  return {
+    chainage: formatChainage(chainageM),
+    chainage_m: chainageM,
+    latitude: 59.33,
+    longitude: 18.07,
+    soil_type: 'Lera',
+    bedrock: 'Granit',
+    ...overrides,
+  };
+}
+
+describe('profile', () => {
+  describe('formatChainage', () => {
+    it('formats meters as km+m', () => {
+      expect(formatChainage(2300)).toBe('2+300');
+    });
+
+    it('pads meters to three digits', () => {
+      expect(formatChainage(15)).toBe('0+015');
+      expect(formatChainage(12050)).toBe('12+050');
+    });
+
+    it('rounds to whole meters (carrying into km)', () => {
+      expect(formatChainage(2300.4)).toBe('2+300');
+      expect(formatChainage(2999.6)).toBe('3+000');
+    });
+  });
+
+  describe('mergeStations', () => {
+    it('merges consecutive stations with identical conditions', () => {
+      const segments = mergeStations([
+        station(2300, { soil_depth_m: 8 }),
+        station(2400, { soil_depth_m: 12 }),
+        station(2500, { soil_depth_m: 10 }),
+      ]);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toMatchObject({
+        from: '2+300',
+        to: '2+500',
+        station_count: 3,
+        soil_depth_m: { min: 8, max: 12 },
+      });
+      expect(segments[0].summary).toBe('km 2+300–2+500: lera over granit, 8–12 m to rock');
+    });
+
+    it('starts a new segment when any condition changes', () => {
+      const segments = mergeStations([
+        station(0),
+        station(100, { soil_type: 'Morän' }),
+        station(200, { soil_type: 'Morän', groundwater_vulnerability: 'high' }),
+        station(300, { soil_type: 'Morän', groundwater_vulnerability: 'high' }),
+      ]);
+
+      expect(segments.map((s) => [s.from, s.to])).toEqual([
+        ['0+000', '0+000'],
+        ['0+100', '0+100'],
+        ['0+200', '0+300'],
+      ]);
+    });
+
+    it('does not merge non-consecutive stations with the same conditions', () => {
+      const segments = mergeStations([station(0), station(100, { bedrock: 'Gnejs' }), station(200)]);
+      expect(segments).toHaveLength(3);
+    });
+
+    it('describes single-station segments, missing data, vulnerability and landslides', () => {
+      const [segment] = mergeStations([
+        station(1000, {
+          soil_type: undefined,
+          bedrock: undefined,
+          soil_depth_m: 3,
+          groundwater_vulnerability: 'high',
+          landslide: 'Skredärr i finkornig jordart',
+        }),
+      ]);
+
+      expect(segment.summary).toBe(
+        'km 1+000: no mapped soil or bedrock, 3 m to rock, high groundwater vulnerability, ' +
+          'landslide scar nearby (Skredärr i finkornig jordart)',
+      );
+    });
+
+    it('omits soil depth when no station has a value', () => {
+      const [segment] = mergeStations([station(0), station(100)]);
+      expect(segment.soil_depth_m).toBeUndefined();
+      expect(segment.summary).toBe('km 0+000–0+100: lera over granit');
+    });
+
+    it('returns no segments for no stations', () => {
+      expect(mergeStations([])).toEqual([]);
+    });
+  });
+});
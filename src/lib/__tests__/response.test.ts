@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
-import { successResponse, errorResponse, withErrorHandling } from '../response';
+import { successResponse, errorResponse, withErrorHandling, ResultWithImages } from '../response';
 import { McpToolError, ValidationError, UpstreamApiError } from '../errors';
+import { recordDiagnostic } from '../diagnostics';
 
 describe('response', () => {
   describe('successResponse', () => {
@@ -37,6 +38,14 @@ describe('response', () => {
 
       expect(parsed).toBeNull();
     });
+
+    it('should append image content after the JSON text', () => {
+      const response = successResponse({ layer: 'bedrock' }, [{ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' }]);
+
+      expect(response.content).toHaveLength(2);
+      expect(JSON.parse(response.content[0].text)).toEqual({ layer: 'bedrock' });
+      expect(response.content[1]).toEqual({ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' });
+    });
   });
 
   describe('errorResponse', () => {
@@ -157,5 +166,45 @@ describe('response', () => {
       expect(data.features).toEqual(['a', 'b']);
       expect(data.count).toBe(2);
     });
+
+    it('should add diagnostics when upstream requests were recorded', async () => {
+      const handler = async () => {
+        recordDiagnostic('upstream_requests');
+        recordDiagnostic('cache_hits', 2);
+        return { count: 1 };
+      };
+      const wrapped = withErrorHandling(handler);
+
+      const data = JSON.parse((await wrapped({})).content[0].text);
+
+      expect(data.diagnostics).toEqual({
+        upstream_requests: 1,
+        cache_hits: 2,
+        cache_misses: 0,
+        retries: 0,
+        queued_requests: 0,
+        queue_wait_ms: 0,
+        coalesced_requests: 0,
+      });
+    });
+
+    it('should not add diagnostics when nothing was recorded', async () => {
+      const wrapped = withErrorHandling(async () => ({ count: 1 }));
+
+      const data = JSON.parse((await wrapped({})).content[0].text);
+
+      expect(data).toEqual({ count: 1 });
+    });
+
+    it('should return image content for ResultWithImages', async () => {
+      const wrapped = withErrorHandling(
+        async () => new ResultWithImages({ layer: 'bedrock' }, [{ type: 'image', data: 'abc', mimeType: 'image/jpeg' }]),
+      );
+
+      const result = await wrapped({});
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ layer: 'bedrock' });
+      expect(result.content[1]).toEqual({ type: 'image', data: 'abc', mimeType: 'image/jpeg' });
+    });
   });
 });
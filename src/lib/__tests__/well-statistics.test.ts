@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeWells } from '../well-statistics';
+import type { WellFeature } from '@/types/features';
+
+function well(well_id: number, fields: Partial<WellFeature> = {}): WellFeature {
+  return { id: String(well_id), well_id, ...fields };
+}
+
+describe('summarizeWells', () => {
+  it('reports median and quartiles of each field', () => {
+    const wells = [40, 60, 80, 100, 120].map((depth, i) => well(i + 1, { total_depth_m: depth, usage: 'Enskild' }));
+
+    const stats = summarizeWells(wells, false);
+
+    expect(stats.well_count).toBe(5);
+    expect(stats.total_depth_m).toEqual({ count: 5, missing: 0, min: 40, p25: 60, median: 80, p75: 100, max: 120 });
+    expect(stats.soil_depth_m).toBeUndefined();
+  });
+
+  it('adds deciles with 10 or more values', () => {
+    const wells = Array.from({ length: 11 }, (_, i) => well(i, { water_capacity_ls: i / 10 }));
+
+    const stats = summarizeWells(wells, false).water_capacity_ls!;
+
+    expect(stats.p10).toBe(0.1);
+    expect(stats.p90).toBe(0.9);
+  });
+
+  it('counts missing and impossible values as missing', () => {
+    const wells = [
+      well(1, { total_depth_m: 80, soil_depth_m: 0 }),
+      well(2, { total_depth_m: 0, soil_depth_m: 4 }),
+      well(3, { total_depth_m: -5 }),
+      well(4),
+    ];
+
+    const stats = summarizeWells(wells, false);
+
+    // 0 m total depth means "not recorded", 0 m soil depth is rock at the surface
+    expect(stats.total_depth_m).toMatchObject({ count: 1, missing: 3 });
+    expect(stats.soil_depth_m).toMatchObject({ count: 2, missing: 2, min: 0, max: 4 });
+  });
+
+  it('keeps negative groundwater levels of artesian wells', () => {
+    const wells = [-1.5, 3, 6].map((level, i) => well(i + 1, { groundwater_level_m: level }));
+
+    const stats = summarizeWells(wells, false).groundwater_level_m!;
+
+    expect(stats).toMatchObject({ count: 3, missing: 0, min: -1.5, median: 3, max: 6 });
+  });
+
+  it('flags outliers beyond the Tukey fences without dropping them', () => {
+    const wells = [50, 55, 60, 65, 70, 400].map((depth, i) => well(i + 1, { total_depth_m: depth }));
+
+    const stats = summarizeWells(wells, false).total_depth_m!;
+
+    expect(stats.outliers).toEqual([{ well_id: 6, value: 400 }]);
+    expect(stats.max).toBe(400);
+  });
+
+  it('breaks the statistics down by usage, largest group first', () => {
+    const wells = [
+      well(1, { usage: 'Energibrunn', total_depth_m: 180 }),
+      well(2, { usage: 'Enskild vattenförsörjning', total_depth_m: 70 }),
+      well(3, { usage: 'Energibrunn', total_depth_m: 200 }),
+      well(4, { total_depth_m: 50 }),
+    ];
+
+    const { by_usage } = summarizeWells(wells, false);
+
+    expect(Object.keys(by_usage)).toEqual(['Energibrunn', 'Enskild vattenförsörjning', 'unknown']);
+    expect(by_usage.Energibrunn).toMatchObject({ well_count: 2, total_depth_m: { median: 190 } });
+  });
+
+  it('marks statistics over a truncated well list as incomplete', () => {
+    expect(summarizeWells([], true)).toEqual({ well_count: 0, by_usage: {}, incomplete: true });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockRequest = vi.fn();
+
+// Mock HTTP layer — the WMS client only builds parameters
+vi.mock('../http-client', () => ({
+  createHttpClient: vi.fn(() => ({ request: mockRequest })),
+}));
+
+import { createWmsClient } from '../wms-client';
+import { UpstreamApiError } from '../errors';
+
+const bbox = { minX: 670000, minY: 6570000, maxX: 680000, maxY: 6580000 };
+const featureInfo = { layers: ['LAYER'], bbox, width: 256, height: 256, x: 10, y: 20 };
+
+describe('wms-client', () => {
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  describe('WMS 1.3.0 (default)', () => {
+    it('uses CRS, Y/X bbox order and I/J pixel params', async () => {
+      mockRequest.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+      const client = createWmsClient({ baseUrl: 'https://maps3.sgu.se/geoserver/jord/ows' });
+
+      await client.getFeatureInfo(featureInfo);
+
+      const { params } = mockRequest.mock.calls[0][1];
+      expect(params).toMatchObject({ VERSION: '1.3.0', CRS: 'EPSG:3006', BBOX: '6570000,670000,6580000,680000', I: 10, J: 20 });
+      expect(params.SRS).toBeUndefined();
+    });
+
+    it('passes FEATURE_COUNT and BUFFER only when requested', async () => {
+      mockRequest.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+      const client = createWmsClient({ baseUrl: 'https://maps3.sgu.se/geoserver/jord/ows' });
+
+      await client.getFeatureInfo(featureInfo);
+      await client.getFeatureInfo({ ...featureInfo, featureCount: 50, buffer: 128 });
+
+      expect(mockRequest.mock.calls[0][1].params).not.toHaveProperty('FEATURE_COUNT');
+      expect(mockRequest.mock.calls[0][1].params).not.toHaveProperty('BUFFER');
+      expect(mockRequest.mock.calls[1][1].params).toMatchObject({ FEATURE_COUNT: 50, BUFFER: 128 });
+    });
+  });
+
+  describe('WMS 1.1.1', () => {
+    const client = () => createWmsClient({ baseUrl: 'https://resource.sgu.se/service/wms/130/ballast', version: '1.1.1' });
+
+    it('uses SRS, X/Y bbox order and X/Y pixel params for GetFeatureInfo', async () => {
+      mockRequest.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+
+      await client().getFeatureInfo(featureInfo);
+
+      const { params } = mockRequest.mock.calls[0][1];
+      expect(params).toMatchObject({ VERSION: '1.1.1', SRS: 'EPSG:3006', BBOX: '670000,6570000,680000,6580000', X: 10, Y: 20 });
+      expect(params.CRS).toBeUndefined();
+      expect(params.I).toBeUndefined();
+    });
+
+    it('builds GetMap URLs with SRS and X/Y bbox order', () => {
+      const url = new URL(client().getMapUrl({ layers: ['LAYER'], bbox }));
+
+      expect(url.searchParams.get('VERSION')).toBe('1.1.1');
+      expect(url.searchParams.get('SRS')).toBe('EPSG:3006');
+      expect(url.searchParams.get('BBOX')).toBe('670000,6570000,680000,6580000');
+    });
+
+    it('parses JSON served as text', async () => {
+      mockRequest.mockResolvedValue('{"type":"FeatureCollection","features":[{"properties":{"namn":"X"}}]}');
+
+      const result = await client().getFeatureInfo<{ features: unknown[] }>(featureInfo);
+
+      expect(result.features).toHaveLength(1);
+    });
+
+    it('rejects ServiceException XML returned with HTTP 200', async () => {
+      mockRequest.mockResolvedValue(
+        '<ServiceExceptionReport><ServiceException>Bad</ServiceException></ServiceExceptionReport>',
+      );
+
+      await expect(client().getFeatureInfo(featureInfo)).rejects.toBeInstanceOf(UpstreamApiError);
+    });
+
+    it('only lets feature data into the response cache', async () => {
+      mockRequest.mockResolvedValue({ features: [] });
+
+      await client().getFeatureInfo(featureInfo);
+
+      const { cacheable } = mockRequest.mock.calls[0][1];
+      expect(cacheable({ features: [] })).toBe(true);
+      expect(cacheable('{"features":[]}')).toBe(true);
+      expect(cacheable('<ServiceExceptionReport/>')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+// Area statistics for point (WMS) types sampled on a grid inside a polygon (sgu_query area input)
+
+import { roundTo } from './numbers';
+import type { DataType } from '@/types/common-schemas';
+
+// Fields summarised per type: numeric fields get min/max/mean, class fields the share of the area per class
+const STATISTIC_FIELDS: Partial<Record<DataType, { numeric?: string[]; classes?: string[] }>> = {
+  soil_depth: { numeric: ['depth_m'], classes: ['depth_class'] },
+  radon_risk: { numeric: ['radiation_value'], classes: ['risk_level'] },
+  groundwater_vulnerability: { classes: ['vulnerability_class'] },
+  landslide: { classes: ['landslide_type'] },
+  boulder_coverage: { classes: ['boulder_class'] },
+  gravel_deposits: { classes: ['deposit_type'] },
+  rock_deposits: { classes: ['rock_type'] },
+};
+
+const NO_DATA = 'no_data';
+
+export interface NumericStatistics {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface AreaStatistics {
+  sample_count: number;
+  samples_with_data: number;
+  /** `<field>` = NumericStatistics for numeric fields, `<field>_share_pct` = share of the area per class */
+  [field: string]: number | NumericStatistics | Record<string, number>;
+}
+
+function numericStatistics(values: number[]): NumericStatistics | undefined {
+  if (values.length === 0) return undefined;
+  const sum = values.reduce((a, b) => a + b, 0);
+  return { min: Math.min(...values), max: Math.max(...values), mean: roundTo(sum / values.length, 2) };
+}
+
+// Percentage of all samples per class, largest first; samples without a value count as no_data
+function classShares(values: unknown[], sampleCount: number): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = value === undefined || value === null || value === '' ? NO_DATA : String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const missing = sampleCount - values.length;
+  if (missing > 0) counts.set(NO_DATA, (counts.get(NO_DATA) ?? 0) + missing);
+
+  return Object.fromEntries(
+    [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([key, count]) => [key, roundTo((100 * count) / sampleCount, 1)]),
+  );
+}
+
+/**
+ * Summarise a point type's grid samples. Every sample stands for the same cell area, so the share of
+ * samples in a class is the share of the area. `values` holds only the samples that returned data.
+ */
+export function summarizeAreaSamples(type: DataType, values: Record<string, unknown>[], sampleCount: number): AreaStatistics {
+  const statistics: AreaStatistics = { sample_count: sampleCount, samples_with_data: values.length };
+  const fields = STATISTIC_FIELDS[type] ?? {};
+
+  for (const field of fields.numeric ?? []) {
+    const numbers = values.map((v) => v[field]).filter((n): n is number => typeof n === 'number' && Number.isFinite(n));
+    const stats = numericStatistics(numbers);
+    if (stats) statistics[field] = stats;
+  }
+  if (sampleCount > 0) {
+    for (const field of fields.classes ?? []) {
+      statistics[`${field}_share_pct`] = classShares(
+        values.map((v) => v[field]),
+        sampleCount,
+      );
+    }
+  }
+  return statistics;
+}
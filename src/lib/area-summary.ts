@@ -0,0 +1,62 @@
+// Area-weighted composition of OGC area types (share of the query area per soil type, rock type, ...)
+
+import { roundTo } from './numbers';
+
+export interface CompositionEntry {
+  value: string;
+  area_m2: number;
+  percent: number;
+}
+
+export interface AreaSummary {
+  /** Feature field the composition is grouped by, e.g. soil_type */
+  field: string;
+  /** Area of the query area in m² */
+  area_m2: number;
+  composition: CompositionEntry[];
+  /** Share of the query area without a returned feature (water, unmapped, or cut off by the limit) */
+  unmapped_percent?: number;
+  /** True when the feature list was truncated, so the composition misses features */
+  incomplete?: true;
+  text: string;
+}
+
+function formatPercent(percent: number): string {
+  return percent > 0 && percent < 0.5 ? '<1%' : `${Math.round(percent)}%`;
+}
+
+/**
+ * Build the composition of a query area from the intersecting area of each feature's value,
+ * largest share first. Percentages are of the whole query area.
+ */
+export function summarizeComposition(
+  field: string,
+  areaByValue: Map<string, number>,
+  queryAreaM2: number,
+  truncated: boolean,
+): AreaSummary {
+  const composition = [...areaByValue.entries()]
+    .filter(([, area]) => area > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([value, area]) => ({
+      value,
+      area_m2: Math.round(area),
+      percent: queryAreaM2 > 0 ? roundTo((100 * area) / queryAreaM2, 1) : 0,
+    }));
+
+  const mapped = composition.reduce((sum, entry) => sum + entry.percent, 0);
+  // Overlapping features can push the mapped share over 100%
+  const unmapped = roundTo(Math.max(0, 100 - mapped), 1);
+
+  const parts = composition.map((entry) => `${formatPercent(entry.percent)} ${entry.value}`);
+  if (parts.length > 0 && unmapped >= 0.5) parts.push(`${formatPercent(unmapped)} unmapped`);
+
+  return {
+    field,
+    area_m2: Math.round(queryAreaM2),
+    composition,
+    ...(unmapped >= 0.1 && { unmapped_percent: unmapped }),
+    ...(truncated && { incomplete: true as const }),
+    text: parts.length > 0 ? parts.join(', ') : 'No mapped features in the query area',
+  };
+}
@@ -0,0 +1,158 @@
+// Borehole reconstruction from soil_layers: layers grouped by their source point into stratigraphic columns
+
+import { roundTo } from './numbers';
+import type { SoilLayerFeature } from '@/types/features';
+
+/** A soil layer as returned by the registry: cleaned fields plus point attribution */
+export type AttributedSoilLayer = Omit<SoilLayerFeature, 'geometry'> & {
+  geometry?: unknown;
+  distance_m?: number;
+  nearest_point_index?: number;
+  [field: string]: unknown;
+};
+
+export interface ColumnLayer {
+  layer_number: number;
+  from_m: number;
+  to_m: number;
+  thickness_m: number;
+  grain_size?: string;
+  genesis?: string;
+  characteristics?: string;
+  soil_code?: string;
+  soil_classification?: string;
+  is_rock?: true;
+}
+
+export interface DepthInterval {
+  from_m: number;
+  to_m: number;
+}
+
+export interface Borehole {
+  geometry?: unknown;
+  /** Distance in meters to the nearest query point */
+  distance_m?: number;
+  nearest_point_index?: number;
+  layer_count: number;
+  /** Deepest layer bottom, the total investigated depth */
+  total_depth_m?: number;
+  rock_reached: boolean;
+  depth_to_rock_m?: number;
+  /** Layers ordered top-down by depth */
+  column: ColumnLayer[];
+  /** Depth intervals between consecutive layers that no layer describes */
+  gaps?: DepthInterval[];
+  /** Depth intervals described by more than one layer */
+  overlaps?: (DepthInterval & { layer_numbers: number[] })[];
+  /** Layers reported without depth_from_m/depth_to_m, by layer number */
+  layers_without_depth?: number[];
+  /** Its query area had more layers than the limit returned, so the column may be missing layers */
+  truncated?: true;
+  summary: string;
+}
+
+// Grain size or layer code naming bedrock ("Berg", "Berg i dagen") — not crushed rock fill ("Bergkross")
+const ROCK_PATTERN = /^berg(\s|$)/i;
+
+// Depths are given in centimetre precision; smaller differences are rounding, not gaps
+const DEPTH_TOLERANCE_M = 0.01;
+
+function isRock(layer: AttributedSoilLayer): boolean {
+  return [layer.grain_size, layer.soil_code].some((text) => text !== undefined && ROCK_PATTERN.test(text.trim()));
+}
+
+function toColumnLayer(layer: AttributedSoilLayer): ColumnLayer {
+  const from = layer.depth_from_m!;
+  const to = layer.depth_to_m!;
+  return {
+    layer_number: layer.layer_number,
+    from_m: from,
+    to_m: to,
+    thickness_m: roundTo(to - from, 2),
+    grain_size: layer.grain_size,
+    genesis: layer.genesis,
+    characteristics: layer.characteristics,
+    soil_code: layer.soil_code,
+    soil_classification: layer.soil_classification,
+    ...(isRock(layer) && { is_rock: true as const }),
+  };
+}
+
+// "0–1.5 m fyllning, 1.5–4 m lera, rock at 6.2 m"
+function describeColumn(column: ColumnLayer[], depthToRock: number | undefined): string {
+  const parts = column
+    .filter((layer) => !layer.is_rock)
+    .map((layer) => {
+      const name = (layer.grain_size ?? layer.soil_code ?? 'unknown soil').toLowerCase();
+      return `${layer.from_m}–${layer.to_m} m ${name}`;
+    });
+  if (depthToRock !== undefined) parts.push(`rock at ${depthToRock} m`);
+  return parts.length > 0 ? parts.join(', ') : 'no layers with depth';
+}
+
+function buildBorehole(layers: AttributedSoilLayer[], truncated: boolean): Borehole {
+  const withDepth = layers.filter((l) => l.depth_from_m !== undefined && l.depth_to_m !== undefined);
+  const withoutDepth = layers.filter((l) => !withDepth.includes(l)).map((l) => l.layer_number);
+  const column = withDepth
+    .map(toColumnLayer)
+    .sort((a, b) => a.from_m - b.from_m || a.to_m - b.to_m || a.layer_number - b.layer_number);
+
+  const gaps: DepthInterval[] = [];
+  const overlaps: (DepthInterval & { layer_numbers: number[] })[] = [];
+  // Compare each layer with the deepest bottom seen so far
+  let deepest: ColumnLayer | undefined;
+  for (const layer of column) {
+    if (deepest) {
+      if (layer.from_m > deepest.to_m + DEPTH_TOLERANCE_M) {
+        gaps.push({ from_m: deepest.to_m, to_m: layer.from_m });
+      } else if (layer.from_m < deepest.to_m - DEPTH_TOLERANCE_M) {
+        overlaps.push({
+          from_m: layer.from_m,
+          to_m: Math.min(layer.to_m, deepest.to_m),
+          layer_numbers: [deepest.layer_number, layer.layer_number],
+        });
+      }
+    }
+    if (!deepest || layer.to_m > deepest.to_m) deepest = layer;
+  }
+
+  const rock = column.find((layer) => layer.is_rock);
+  const { geometry, distance_m, nearest_point_index } = layers[0];
+  return {
+    geometry,
+    distance_m,
+    nearest_point_index,
+    layer_count: layers.length,
+    total_depth_m: deepest?.to_m,
+    rock_reached: rock !== undefined,
+    depth_to_rock_m: rock?.from_m,
+    column,
+    ...(gaps.length > 0 && { gaps }),
+    ...(overlaps.length > 0 && { overlaps }),
+    ...(withoutDepth.length > 0 && { layers_without_depth: withoutDepth }),
+    ...(truncated && { truncated: true as const }),
+    summary: describeColumn(column, rock?.from_m) + (truncated ? ' (may be incomplete: layer limit reached)' : ''),
+  };
+}
+
+/**
+ * Group soil layers into boreholes. `locations` gives each layer's source point as a key
+ * (same key = same borehole). The service returns layers in no particular order, so a limit can cut
+ * any column short: boreholes at `truncatedLocations` (from a query area that hit the limit) are flagged.
+ * Boreholes are ordered by distance to the nearest query point.
+ */
+export function groupBoreholes(
+  layers: AttributedSoilLayer[],
+  locations: string[],
+  truncatedLocations: ReadonlySet<string> = new Set(),
+): Borehole[] {
+  const byLocation = new Map<string, AttributedSoilLayer[]>();
+  layers.forEach((layer, i) => {
+    byLocation.set(locations[i], [...(byLocation.get(locations[i]) ?? []), layer]);
+  });
+
+  return [...byLocation]
+    .map(([location, columnLayers]) => buildBorehole(columnLayers, truncatedLocations.has(location)))
+    .sort((a, b) => (a.distance_m ?? Infinity) - (b.distance_m ?? Infinity));
+}
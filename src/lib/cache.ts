@@ -0,0 +1,116 @@
+/**
+ * Response cache for upstream GET requests.
+ * In-memory LRU by default; swap in a shared backend (Redis, Vercel KV) with setCacheStore().
+ */
+
+export interface CacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Per-service TTLs
+export const CACHE_TTL = {
+  /** Published map products (bedrock, soil types, aquifers, soil depth model) — revised yearly at most */
+  mapProduct: 7 * DAY,
+  /** Hazard and risk layers (landslide scars, radon, vulnerability) — occasional updates */
+  hazard: DAY,
+  /** Well archive (brunnar) — new wells are registered continuously */
+  wells: HOUR,
+} as const;
+
+interface MemoryCacheOptions {
+  /** Max number of cached responses (default: 500) */
+  maxEntries?: number;
+  /** Approximate max total size in bytes of cached bodies (default: 50 MB) */
+  maxBytes?: number;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+  size: number;
+}
+
+function estimateSize(value: unknown): number {
+  if (typeof value === 'string') return value.length;
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function createMemoryCache(options: MemoryCacheOptions = {}): CacheStore {
+  const { maxEntries = 500, maxBytes = 50 * 1024 * 1024 } = options;
+  // Map iteration order is insertion order: first key = least recently used
+  const entries = new Map<string, MemoryEntry>();
+  let totalBytes = 0;
+
+  function remove(key: string): void {
+    const entry = entries.get(key);
+    if (entry) {
+      totalBytes -= entry.size;
+      entries.delete(key);
+    }
+  }
+
+  async function get(key: string): Promise<unknown | undefined> {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      remove(key);
+      return undefined;
+    }
+    // Refresh recency
+    entries.delete(key);
+    entries.set(key, entry);
+    // A copy per hit: callers transform responses in place
+    return structuredClone(entry.value);
+  }
+
+  async function set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const size = estimateSize(value);
+    remove(key);
+    // Never let a single oversized body flush the whole cache
+    if (size > maxBytes) return;
+
+    entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs, size });
+    totalBytes += size;
+
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+      remove(oldest);
+    }
+  }
+
+  async function clear(): Promise<void> {
+    entries.clear();
+    totalBytes = 0;
+  }
+
+  return { get, set, clear };
+}
+
+let activeStore: CacheStore | undefined = createMemoryCache();
+
+/** Replace the cache backend (e.g. a Redis/KV adapter). Pass undefined to disable caching. */
+export function setCacheStore(store: CacheStore | undefined): void {
+  activeStore = store;
+}
+
+export function getCacheStore(): CacheStore | undefined {
+  return activeStore;
+}
+
+// Same request with params in a different order must hit the same entry
+export function normalizeCacheKey(url: URL): string {
+  const normalized = new URL(url.toString());
+  normalized.searchParams.sort();
+  normalized.hash = '';
+  return normalized.toString();
+}
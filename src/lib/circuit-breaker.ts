@@ -0,0 +1,118 @@
+import { UpstreamApiError } from './errors';
+
+/**
+ * Per-host circuit breaker for upstream SGU services (api.sgu.se, maps3.sgu.se, resource.sgu.se).
+ *
+ * closed → open after FAILURE_THRESHOLD consecutive transient failures (gateway errors, timeouts,
+ * connection errors). While open, requests fail immediately with UPSTREAM_UNAVAILABLE instead of
+ * waiting for a timeout. After COOLDOWN_MS one request is let through as a probe (half-open):
+ * success closes the circuit, failure re-opens it.
+ *
+ * State is per server instance — each serverless instance learns about an outage on its own.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  host: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  last_error?: string;
+  opened_at?: string;
+  retry_at?: string;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+  lastError?: string;
+}
+
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 30 * 1000;
+
+const circuits = new Map<string, Circuit>();
+
+function getCircuit(host: string): Circuit {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, probeInFlight: false };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Call before each network attempt. Throws UpstreamApiError (UPSTREAM_UNAVAILABLE) when the
+ * host's circuit is open, or half-open with a probe already in flight.
+ */
+export function checkCircuit(host: string, upstream: string): void {
+  const circuit = getCircuit(host);
+  if (circuit.state === 'closed') return;
+
+  const retryAt = (circuit.openedAt ?? 0) + COOLDOWN_MS;
+  if (circuit.state === 'open' && Date.now() >= retryAt) {
+    circuit.state = 'half_open';
+  }
+  if (circuit.state === 'half_open' && !circuit.probeInFlight) {
+    circuit.probeInFlight = true;
+    return;
+  }
+
+  const retryAfterS = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+  throw new UpstreamApiError(
+    `The data service at ${host} is currently unavailable after repeated failures. Try again in about ${retryAfterS} s.`,
+    0,
+    upstream,
+    { host, retry_after_s: retryAfterS },
+    'UPSTREAM_UNAVAILABLE',
+  );
+}
+
+/** Record a response from the host — including 4xx and other non-transient errors, which prove it is up */
+export function recordSuccess(host: string): void {
+  const circuit = getCircuit(host);
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = undefined;
+  circuit.probeInFlight = false;
+}
+
+/** Record a transient failure (gateway error, timeout, connection error) */
+export function recordFailure(host: string, message: string): void {
+  const circuit = getCircuit(host);
+  circuit.consecutiveFailures++;
+  circuit.lastError = message;
+
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+  circuit.probeInFlight = false;
+}
+
+export function getCircuitStatus(host: string): CircuitStatus {
+  const circuit = circuits.get(host) ?? { state: 'closed', consecutiveFailures: 0, probeInFlight: false };
+  return {
+    host,
+    state: circuit.state,
+    consecutive_failures: circuit.consecutiveFailures,
+    ...(circuit.lastError && { last_error: circuit.lastError }),
+    ...(circuit.openedAt !== undefined && {
+      opened_at: new Date(circuit.openedAt).toISOString(),
+      retry_at: new Date(circuit.openedAt + COOLDOWN_MS).toISOString(),
+    }),
+  };
+}
+
+/** Status of every host this instance has talked to */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return [...circuits.keys()].map(getCircuitStatus);
+}
+
+/** Forget all circuit state (tests) */
+export function resetCircuits(): void {
+  circuits.clear();
+}
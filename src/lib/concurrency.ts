@@ -0,0 +1,168 @@
+/**
+ * Per-host limit on simultaneous upstream requests, shared by every HTTP client in the instance.
+ *
+ * A corridor query fans out over data types × points; without a limit that is hundreds of requests
+ * at once against the same GeoServer, which trips rate limits and makes timeouts more likely.
+ * Requests over the limit wait in a first-in, first-out queue per host. The limits come from the
+ * environment at startup (see concurrencyLimitsFromEnv); like the circuit breaker, state is per
+ * server instance, and sgu_status reports it.
+ */
+
+export interface ConcurrencyLimits {
+  /** Simultaneous requests per host unless overridden (default: 6) */
+  defaultLimit?: number;
+  /** Per-host overrides, e.g. { 'api.sgu.se': 10 } */
+  hosts?: Record<string, number>;
+}
+
+export interface HostQueueStatus {
+  host: string;
+  limit: number;
+  active: number;
+  queued: number;
+}
+
+interface HostQueue {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const DEFAULT_LIMIT = 6;
+
+let limits: Required<ConcurrencyLimits> = { defaultLimit: DEFAULT_LIMIT, hosts: {} };
+const queues = new Map<string, HostQueue>();
+
+function limitFor(host: string): number {
+  return limits.hosts[host] ?? limits.defaultLimit;
+}
+
+function getQueue(host: string): HostQueue {
+  let queue = queues.get(host);
+  if (!queue) {
+    queue = { active: 0, waiting: [] };
+    queues.set(host, queue);
+  }
+  return queue;
+}
+
+function validLimit(limit: number, name: string): number {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError(`${name} must be an integer of at least 1, got ${limit}`);
+  }
+  return limit;
+}
+
+/** Replace the limits. Requests already running keep their slots; waiting ones start as slots free up. */
+export function setConcurrencyLimits(config: ConcurrencyLimits): void {
+  limits = {
+    defaultLimit: validLimit(config.defaultLimit ?? DEFAULT_LIMIT, 'defaultLimit'),
+    hosts: Object.fromEntries(
+      Object.entries(config.hosts ?? {}).map(([host, limit]) => [host, validLimit(limit, `Limit for ${host}`)]),
+    ),
+  };
+  for (const [host, queue] of queues) {
+    while (queue.active < limitFor(host) && queue.waiting.length > 0) {
+      queue.active++;
+      queue.waiting.shift()!();
+    }
+  }
+}
+
+/**
+ * Limits from SGU_MAX_CONCURRENT_REQUESTS (default per host) and SGU_MAX_CONCURRENT_REQUESTS_PER_HOST,
+ * a comma-separated list such as "api.sgu.se=10,maps3.sgu.se=4". Unset variables keep the defaults.
+ */
+export function concurrencyLimitsFromEnv(env: Record<string, string | undefined> = process.env): ConcurrencyLimits {
+  const config: ConcurrencyLimits = {};
+  const defaultLimit = env.SGU_MAX_CONCURRENT_REQUESTS?.trim();
+  if (defaultLimit) {
+    config.defaultLimit = validLimit(Number(defaultLimit), 'SGU_MAX_CONCURRENT_REQUESTS');
+  }
+  const hosts = env.SGU_MAX_CONCURRENT_REQUESTS_PER_HOST?.trim();
+  if (hosts) {
+    config.hosts = Object.fromEntries(
+      hosts.split(',').map((entry) => {
+        const [host, limit] = entry.split('=').map((part) => part.trim());
+        if (!host || limit === undefined) {
+          throw new RangeError(`SGU_MAX_CONCURRENT_REQUESTS_PER_HOST entries must be host=limit, got "${entry}"`);
+        }
+        return [host, validLimit(Number(limit), `Limit for ${host}`)];
+      }),
+    );
+  }
+  return config;
+}
+
+export interface Slot {
+  /** True when the request had to wait for another to finish */
+  queued: boolean;
+  waitedMs: number;
+  /** Call once when the request is done; further calls are ignored */
+  release: () => void;
+}
+
+/**
+ * Wait for a free request slot on the host. Resolves null when none frees up within timeoutMs;
+ * the request then leaves the queue without ever holding a slot.
+ */
+export async function acquireSlot(host: string): Promise<Slot>;
+export async function acquireSlot(host: string, timeoutMs: number): Promise<Slot | null>;
+export async function acquireSlot(host: string, timeoutMs: number = Infinity): Promise<Slot | null> {
+  const queue = getQueue(host);
+  const start = Date.now();
+  const queued = queue.active >= limitFor(host);
+  if (!queued) {
+    queue.active++;
+  } else {
+    // The releasing request hands its slot straight to the next in line
+    const granted = await new Promise<boolean>((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      if (Number.isFinite(timeoutMs)) {
+        timer = setTimeout(
+          () => {
+            queue.waiting.splice(queue.waiting.indexOf(waiter), 1);
+            resolve(false);
+          },
+          Math.max(0, timeoutMs),
+        );
+      }
+      queue.waiting.push(waiter);
+    });
+    if (!granted) return null;
+  }
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    const next = queue.active <= limitFor(host) ? queue.waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      queue.active--;
+    }
+  };
+  return { queued, waitedMs: Date.now() - start, release };
+}
+
+/** Slots in use and queue length of every host this instance has talked to */
+export function getQueueStatuses(): HostQueueStatus[] {
+  return [...queues.entries()].map(([host, queue]) => ({
+    host,
+    limit: limitFor(host),
+    active: queue.active,
+    queued: queue.waiting.length,
+  }));
+}
+
+/** Restore the default limits and forget all queues (tests) */
+export function resetConcurrency(): void {
+  limits = { defaultLimit: DEFAULT_LIMIT, hosts: {} };
+  queues.clear();
+}
+
+setConcurrencyLimits(concurrencyLimitsFromEnv());
@@ -1,13 +1,56 @@
 import proj4 from 'proj4';
 import { ValidationError } from './errors';
 import type { BoundingBox } from './geometry-utils';
+import type { GeoJsonGeometry } from '@/types/geojson';
 
 export const CRS_SWEREF99TM = 'EPSG:3006';
 export const CRS_WGS84 = 'EPSG:4326';
+export const CRS_RT90 = 'EPSG:3021';
 
 // Official SWEREF99 TM projection definition from Lantmäteriet
 proj4.defs('EPSG:3006', '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
 
+// SWEREF99 local projection zones (Lantmäteriet), named after their central meridian, e.g. "SWEREF99 18 00"
+export const SWEREF99_LOCAL_ZONES: Record<string, { name: string; centralMeridian: number }> = {
+  'EPSG:3007': { name: 'SWEREF99 12 00', centralMeridian: 12 },
+  'EPSG:3008': { name: 'SWEREF99 13 30', centralMeridian: 13.5 },
+  'EPSG:3009': { name: 'SWEREF99 15 00', centralMeridian: 15 },
+  'EPSG:3010': { name: 'SWEREF99 16 30', centralMeridian: 16.5 },
+  'EPSG:3011': { name: 'SWEREF99 18 00', centralMeridian: 18 },
+  'EPSG:3012': { name: 'SWEREF99 14 15', centralMeridian: 14.25 },
+  'EPSG:3013': { name: 'SWEREF99 15 45', centralMeridian: 15.75 },
+  'EPSG:3014': { name: 'SWEREF99 17 15', centralMeridian: 17.25 },
+  'EPSG:3015': { name: 'SWEREF99 18 45', centralMeridian: 18.75 },
+  'EPSG:3016': { name: 'SWEREF99 20 15', centralMeridian: 20.25 },
+  'EPSG:3017': { name: 'SWEREF99 21 45', centralMeridian: 21.75 },
+  'EPSG:3018': { name: 'SWEREF99 23 15', centralMeridian: 23.25 },
+};
+
+for (const [code, { centralMeridian }] of Object.entries(SWEREF99_LOCAL_ZONES)) {
+  proj4.defs(
+    code,
+    `+proj=tmerc +lat_0=0 +lon_0=${centralMeridian} +k=1 +x_0=150000 +y_0=0 +ellps=GRS80 ` +
+      '+towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs',
+  );
+}
+
+// RT90 2.5 gon V, the national grid before SWEREF99 — still used on older municipal drawings
+proj4.defs(
+  CRS_RT90,
+  '+proj=tmerc +lat_0=0 +lon_0=15.8082777777778 +k=1 +x_0=1500000 +y_0=0 +ellps=bessel ' +
+    '+towgs84=414.1,41.3,603.1,-0.855,2.141,-7.023,0 +units=m +no_defs +type=crs',
+);
+
+// Extent of Sweden in each projected input system, in its own metres (x = easting, y = northing)
+const LOCAL_ZONE_BOUNDS: BoundingBox = { minX: 50000, minY: 6100000, maxX: 250000, maxY: 7700000 };
+const PROJECTED_BOUNDS: Record<string, { name: string; bounds: BoundingBox }> = {
+  [CRS_SWEREF99TM]: { name: 'SWEREF99 TM', bounds: { minX: 180000, minY: 6100000, maxX: 1085000, maxY: 7690000 } },
+  [CRS_RT90]: { name: 'RT90 2.5 gon V', bounds: { minX: 1200000, minY: 6100000, maxX: 1900000, maxY: 7700000 } },
+  ...Object.fromEntries(
+    Object.entries(SWEREF99_LOCAL_ZONES).map(([code, { name }]) => [code, { name, bounds: LOCAL_ZONE_BOUNDS }]),
+  ),
+};
+
 export interface Sweref99Point {
   x: number; // Easting
   y: number; // Northing
@@ -58,6 +101,11 @@ export function wgs84ToSweref99(point: Wgs84Point): Sweref99Point {
   };
 }
 
+export function sweref99ToWgs84(point: Sweref99Point): Wgs84Point {
+  const [longitude, latitude] = proj4('EPSG:3006', 'EPSG:4326', [point.x, point.y]);
+  return { latitude, longitude };
+}
+
 // Minimum buffer in meters (SWEREF99TM) added to all bbox queries.
 // Ensures point queries (equal min/max) produce a searchable area,
 // and normal bbox queries capture features near boundaries.
@@ -109,3 +157,87 @@ export function validateWgs84Bbox(bbox: Wgs84Bbox): void {
     );
   }
 }
+
+function inBounds(x: number, y: number, bounds: BoundingBox): boolean {
+  return x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+}
+
+// Projected input (latitude = northing, longitude = easting) -> [x, y], checked against the system's extent
+function projectedInput(point: Wgs84Point, inputCrs: string, field: string): number[] {
+  const { name, bounds } = PROJECTED_BOUNDS[inputCrs];
+  const x = point.longitude;
+  const y = point.latitude;
+  if (!inBounds(x, y, bounds)) {
+    const hint = inBounds(y, x, bounds)
+      ? ' Northing and easting look swapped: latitude takes the northing (N), longitude the easting (E).'
+      : '';
+    throw new ValidationError(
+      `Point (N ${y}, E ${x}) is outside Sweden in ${name} (${inputCrs}): ` +
+        `expected N ${bounds.minY}-${bounds.maxY}, E ${bounds.minX}-${bounds.maxX}.${hint}`,
+      field,
+    );
+  }
+  return [x, y];
+}
+
+/**
+ * Input point in inputCrs -> WGS84. WGS84 input is returned as is. Projected systems take
+ * latitude = northing and longitude = easting in metres, validated in that system's own bounds.
+ */
+export function inputToWgs84(point: Wgs84Point, inputCrs: string, field: string): Wgs84Point {
+  if (inputCrs === CRS_WGS84) return point;
+  const [longitude, latitude] = proj4(inputCrs, CRS_WGS84, projectedInput(point, inputCrs, field));
+  return { latitude, longitude };
+}
+
+/**
+ * Input bbox in inputCrs -> buffered SWEREF99 TM bbox. Projected systems use all four corners,
+ * since RT90 and the local zones are rotated against SWEREF99 TM.
+ */
+export function inputBboxToSweref99(bbox: Wgs84Bbox, inputCrs: string, bufferM: number = BBOX_BUFFER_M): BoundingBox {
+  if (inputCrs === CRS_WGS84) return wgs84BboxToSweref99(bbox, bufferM);
+
+  const [minX, minY] = projectedInput({ latitude: bbox.minLat, longitude: bbox.minLon }, inputCrs, 'bbox');
+  const [maxX, maxY] = projectedInput({ latitude: bbox.maxLat, longitude: bbox.maxLon }, inputCrs, 'bbox');
+  if (minX > maxX || minY > maxY) {
+    throw new ValidationError('minLat/minLon must be less than or equal to maxLat/maxLon', 'bbox');
+  }
+  const corners = [
+    [minX, minY],
+    [maxX, minY],
+    [maxX, maxY],
+    [minX, maxY],
+  ].map((corner) => (inputCrs === CRS_SWEREF99TM ? corner : proj4(inputCrs, CRS_SWEREF99TM, corner)));
+  return {
+    minX: Math.min(...corners.map((c) => c[0])) - bufferM,
+    minY: Math.min(...corners.map((c) => c[1])) - bufferM,
+    maxX: Math.max(...corners.map((c) => c[0])) + bufferM,
+    maxY: Math.max(...corners.map((c) => c[1])) + bufferM,
+  };
+}
+
+/**
+ * Input geometry in inputCrs -> SWEREF99 TM. Positions are [x, y] as in GeoJSON: [lon, lat] for WGS84,
+ * [E, N] for projected systems, each validated against Sweden's extent in the input system.
+ */
+export function inputGeometryToSweref99(geometry: GeoJsonGeometry, inputCrs: string, field: string): GeoJsonGeometry {
+  const check = (coords: unknown): void => {
+    if (typeof (coords as unknown[])[0] !== 'number') return (coords as unknown[]).forEach(check);
+    const [x, y] = coords as number[];
+    if (inputCrs !== CRS_WGS84) {
+      projectedInput({ latitude: y, longitude: x }, inputCrs, field);
+    } else if (!isValidWgs84Coordinate(y, x)) {
+      throw new ValidationError(`Position [${x}, ${y}] is outside Sweden (lon 11-24°E, lat 55-69°N)`, field);
+    }
+  };
+  check(geometry.coordinates);
+  return inputCrs === CRS_SWEREF99TM ? geometry : transformGeometry(geometry, inputCrs, CRS_SWEREF99TM);
+}
+
+// Reproject every coordinate of a GeoJSON geometry. Positions are [x, y] (lon, lat for EPSG:4326).
+export function transformGeometry(geometry: GeoJsonGeometry, fromCrs: string, toCrs: string): GeoJsonGeometry {
+  const converter = proj4(fromCrs, toCrs);
+  const walk = (coords: unknown): unknown =>
+    typeof (coords as unknown[])[0] === 'number' ? converter.forward(coords as number[]) : (coords as unknown[]).map(walk);
+  return { type: geometry.type, coordinates: walk(geometry.coordinates) as GeoJsonGeometry['coordinates'] };
+}
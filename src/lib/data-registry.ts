@@ -1,5 +1,26 @@
 import { createOgcClient } from '@/lib/ogc-client';
-import { simplifyGeometry, type BoundingBox, type Point } from '@/lib/geometry-utils';
+import { CRS_SWEREF99TM, CRS_WGS84, sweref99ToWgs84, transformGeometry, wgs84BboxToSweref99 } from '@/lib/coordinates';
+import { CACHE_TTL } from '@/lib/cache';
+import type { ServiceDefinition } from '@/lib/service-status';
+import { ValidationError } from '@/lib/errors';
+import {
+  boxesIntersect,
+  clusterBoxes,
+  envelopeOf,
+  geometryBounds,
+  intersectionArea,
+  prepareClipArea,
+  relatePointToGeometry,
+  simplifyGeometry,
+  subtractFromClipArea,
+  wgs84MetersPerDegree,
+  type BoundingBox,
+  type ClipArea,
+  type Point,
+} from '@/lib/geometry-utils';
+import { summarizeComposition, type AreaSummary } from '@/lib/area-summary';
+import { groupBoreholes, type AttributedSoilLayer } from '@/lib/boreholes';
+import { roundTo } from '@/lib/numbers';
 import type { GeoJsonFeature, GeoJsonGeometry } from '@/types/geojson';
 import type { DataType, GeometryDetail } from '@/types/common-schemas';
 import {
@@ -17,8 +38,8 @@ import { sguClient } from '@/clients/sgu-client';
 
 const OGC_BASE = 'https://api.sgu.se/oppnadata';
 
-function getOgcClient(workspace: string) {
-  return createOgcClient({ baseUrl: `${OGC_BASE}/${workspace}/ogc/features/v1` });
+function getOgcClient(workspace: string, cacheTtlMs: number = CACHE_TTL.mapProduct) {
+  return createOgcClient({ baseUrl: `${OGC_BASE}/${workspace}/ogc/features/v1`, cacheTtlMs });
 }
 
 // ============================================================================
@@ -29,9 +50,23 @@ type RegistryTransform = (feature: GeoJsonFeature) => Record<string, unknown>;
 
 interface OgcEntry {
   mode: 'ogc';
-  getClient: (bbox: BoundingBox) => ReturnType<typeof createOgcClient>;
+  /**
+   * Workspaces serving the collection, probed by sgu_status. Several are the same map at different scales,
+   * most detailed first: query points no feature of one covers fall back to the next.
+   */
+  workspaces: [string, ...string[]];
+  /** Map scale of each workspace, reported per feature as map_scale and selectable with QueryAllOptions.mapScale */
+  scales?: string[];
+  /** Response cache TTL (default: CACHE_TTL.mapProduct) */
+  cacheTtlMs?: number;
   collection: string;
   transform: RegistryTransform;
+  /** Feature field named in the per-point `primary` summary (the unit directly under the point) */
+  primaryField?: string;
+  /** Feature field the area-weighted composition summary is grouped by */
+  summaryField?: string;
+  /** Return features grouped into boreholes by source point instead of one record per layer (counts stay per layer) */
+  groupByBorehole?: boolean;
 }
 
 interface WmsEntry {
@@ -45,91 +80,306 @@ type RegistryEntry = OgcEntry | WmsEntry;
 // Data registry — unified OGC + WMS entries
 // ============================================================================
 
-// WGS84 latitude threshold separating northern from southern Sweden for soil type scale.
-// Below: use 25k-100k scale; above: use 250k scale (only 250k covers the far north).
-const NORTH_LATITUDE_THRESHOLD = 65.1;
-
 const DATA_REGISTRY: Record<DataType, RegistryEntry> = {
   bedrock: {
     mode: 'ogc',
-    getClient: () => getOgcClient('berggrund50k-250k'),
+    workspaces: ['berggrund50k-250k'],
     collection: 'geologisk-enhet-yta',
     transform: transformBedrockFeature as unknown as RegistryTransform,
+    primaryField: 'rock_type',
+    summaryField: 'rock_type',
   },
   soil_type: {
     mode: 'ogc',
-    getClient: (bbox) => {
-      // bbox is WGS84: minY=minLat, maxY=maxLat
-      const centerLat = (bbox.minY + bbox.maxY) / 2;
-      return centerLat > NORTH_LATITUDE_THRESHOLD
-        ? getOgcClient('jordarter250k')
-        : getOgcClient('jordarter25k-100k');
-    },
+    // Detailed mapping covers most of the south and parts of the north; 250k fills the gaps
+    workspaces: ['jordarter25k-100k', 'jordarter250k'],
+    scales: ['25k-100k', '250k'],
     collection: 'grundlager',
     transform: transformSoilFeature as unknown as RegistryTransform,
+    primaryField: 'soil_type',
+    summaryField: 'soil_type',
   },
   groundwater_aquifers: {
     mode: 'ogc',
-    getClient: () => getOgcClient('grundvattenmagasin'),
+    workspaces: ['grundvattenmagasin'],
     collection: 'grundvattenmagasin',
     transform: transformAquiferFeature as unknown as RegistryTransform,
+    summaryField: 'aquifer_type',
   },
   wells: {
     mode: 'ogc',
-    getClient: () => getOgcClient('brunnar'),
+    workspaces: ['brunnar'],
+    cacheTtlMs: CACHE_TTL.wells,
     collection: 'brunnar',
     transform: transformWellFeature as unknown as RegistryTransform,
   },
   soil_layers: {
     mode: 'ogc',
-    getClient: () => getOgcClient('jordlagerfoljder'),
+    workspaces: ['jordlagerfoljder'],
     collection: 'lagerinformation',
     transform: transformSoilLayerFeature as unknown as RegistryTransform,
+    groupByBorehole: true,
   },
   radon_risk: { mode: 'wms', query: sguClient.getRadonRiskAt },
   soil_depth: { mode: 'wms', query: sguClient.getSoilDepthAt },
   groundwater_vulnerability: { mode: 'wms', query: sguClient.getGroundwaterVulnerabilityAt },
   landslide: { mode: 'wms', query: sguClient.getLandslideAt },
+  boulder_coverage: { mode: 'wms', query: sguClient.getBoulderCoverageAt },
+  gravel_deposits: { mode: 'wms', query: sguClient.getGravelDepositAt },
+  rock_deposits: { mode: 'wms', query: sguClient.getRockDepositAt },
 };
 
 // ============================================================================
 // Query helpers
 // ============================================================================
 
+export interface QueryAllOptions {
+  /**
+   * SWEREF99TM WKT polygon (e.g. a buffered route). When set, OGC types filter with
+   * CQL INTERSECTS on this polygon instead of the bboxes.
+   */
+  polygonWkt?: string;
+  /**
+   * CRS of returned geometries (default: EPSG:4326). Projected systems are fetched from the API in
+   * SWEREF99 TM; local SWEREF99 zones are reprojected from there.
+   */
+  outputCrs?: string;
+  /**
+   * SWEREF99TM Polygon/MultiPolygon covered by the query. When set, OGC types with a summaryField get an
+   * area-weighted composition summary: each feature's full geometry clipped to this area.
+   */
+  summaryArea?: GeoJsonGeometry;
+  /** Query only this map scale of types mapped at several (soil_type: '25k-100k' or '250k') instead of falling back */
+  mapScale?: string;
+}
+
+export interface FeatureCount {
+  /** Sum of numberMatched over all query areas (overlapping areas may count a feature twice) */
+  matched?: number;
+  /** Unique features returned after deduplication */
+  returned: number;
+  /** True when any query area had more matches than the limit allowed */
+  truncated: boolean;
+}
+
+export interface PointPrimary {
+  latitude: number;
+  longitude: number;
+  /** Values of each type's primaryField for the feature containing the point, keyed by data type */
+  [dataType: string]: string | number | undefined;
+}
+
+interface OgcResult {
+  features: Record<string, unknown>[];
+  count: FeatureCount;
+  /** Per query point: the first feature whose full geometry contains it */
+  containing: (Record<string, unknown> | undefined)[];
+  summary?: AreaSummary;
+}
+
+// Attribution fields for a feature against all query points, given in the geometry's CRS
+// ([lon, lat] for CRS84, [x, y] for SWEREF99 TM)
+function attributeToPoints(geometry: GeoJsonGeometry, points: number[][], metric: boolean) {
+  const relations = points.map((p) => relatePointToGeometry(geometry, p, metric ? [1, 1] : wgs84MetersPerDegree(p[1])));
+  const containedIn = relations.flatMap((r, i) => (r.contains ? [i] : []));
+  const multi = points.length > 1;
+
+  if (containedIn.length > 0) {
+    return { containedIn, fields: { contains_point: true, ...(multi && { point_indices: containedIn }) } };
+  }
+  const nearest = relations.reduce((best, r, i) => (r.distance < relations[best].distance ? i : best), 0);
+  return {
+    containedIn,
+    fields: {
+      contains_point: false,
+      distance_m: Math.round(relations[nearest].distance),
+      ...(multi && { nearest_point_index: nearest }),
+    },
+  };
+}
+
+// WGS84 query bbox (minX=minLon, minY=minLat) -> SWEREF99 TM, for requests in crs=EPSG:3006
+function toSweref99Bbox(bbox: BoundingBox): BoundingBox {
+  return wgs84BboxToSweref99({ minLat: bbox.minY, minLon: bbox.minX, maxLat: bbox.maxY, maxLon: bbox.maxX }, 0);
+}
+
+// Geometry as fetched (CRS84, or SWEREF99 TM for projected output) -> output CRS, then simplified in metres
+function outputGeometry(geometry: GeoJsonGeometry, detail: GeometryDetail, outputCrs: string) {
+  if (outputCrs === CRS_WGS84) {
+    return simplifyGeometry(geometry, detail);
+  }
+  const projected = outputCrs === CRS_SWEREF99TM ? geometry : transformGeometry(geometry, CRS_SWEREF99TM, outputCrs);
+  return simplifyGeometry(projected, detail, { units: 'metres' });
+}
+
 async function queryOgcPerPoint(
   entry: OgcEntry,
   perPointBboxes: BoundingBox[],
+  sweref99Points: Point[],
   limit: number,
   geometryDetail: GeometryDetail,
-): Promise<{ features: Record<string, unknown>[] }> {
-  // Query each point's bbox independently, deduplicate by feature ID
-  const perBboxResults = await Promise.all(
-    perPointBboxes.map(async (bbox) => {
-      const client = entry.getClient(bbox);
-      return client.getItemsWithCount<GeoJsonFeature>(entry.collection, { bbox, limit });
+  options: QueryAllOptions = {},
+  clipArea?: ClipArea,
+): Promise<OgcResult> {
+  const { polygonWkt, outputCrs = CRS_WGS84, mapScale } = options;
+  // Anything but WGS84 is requested in SWEREF99 TM, so bbox and geometries are metric
+  const metric = outputCrs !== CRS_WGS84;
+  const sources = entry.workspaces
+    .map((workspace, i) => ({ workspace, scale: entry.scales?.[i] }))
+    .filter(({ scale }) => !mapScale || scale === undefined || scale === mapScale);
+  if (sources.length === 0) {
+    throw new ValidationError(`No ${entry.collection} map at scale ${mapScale}`, 'mapScale');
+  }
+
+  const points = sweref99Points.map((p) => {
+    if (metric) return [p.x, p.y];
+    const { latitude, longitude } = sweref99ToWgs84(p);
+    return [longitude, latitude];
+  });
+  // Points mode: box i is drawn around point i. A route or area has one box for all its sample points.
+  const perPoint = perPointBboxes.length === points.length;
+  const fetchBox = (bbox: BoundingBox) => (metric ? toSweref99Bbox(bbox) : bbox);
+  // The server matched the query box itself, so one box needs no check
+  const touchesAny = (boxes: number[]) => {
+    const fetched = boxes.map((i) => fetchBox(perPointBboxes[i]));
+    return (f: GeoJsonFeature) => {
+      if (polygonWkt || boxes.length === 1 || !f.geometry) return true;
+      const bounds = geometryBounds(f.geometry);
+      return fetched.some((box) => boxesIntersect(bounds, box));
+    };
+  };
+  const covers = (f: GeoJsonFeature, point: number): boolean =>
+    f.geometry !== undefined && relatePointToGeometry(f.geometry, points[point]).contains;
+
+  // Query the boxes' envelope (or the polygon), keeping only the features `keep` accepts
+  const fetchFrom = async (
+    { workspace, scale }: (typeof sources)[number],
+    boxes: number[],
+    keep: (f: GeoJsonFeature) => boolean,
+  ) => {
+    const envelope = envelopeOf(boxes.map((i) => perPointBboxes[i]));
+    const filter = polygonWkt ? { polygonWkt, filterCrs: CRS_SWEREF99TM } : { bbox: fetchBox(envelope) };
+    const result = await getOgcClient(workspace, entry.cacheTtlMs).getAllItems<GeoJsonFeature>(entry.collection, {
+      ...filter,
+      ...(metric && { crs: CRS_SWEREF99TM }),
+      maxFeatures: limit * boxes.length,
+    });
+    return { ...result, features: result.features.filter(keep), scale };
+  };
+
+  // Overlapping point bboxes share one query over their cluster envelope (paging up to limit per point).
+  // The envelope also covers gaps between the boxes, so bbox queries keep only features that touch a member box.
+  const clusterResults = await Promise.all(
+    clusterBoxes(perPointBboxes).map(async ({ members }) => {
+      const results = [await fetchFrom(sources[0], members, touchesAny(members))];
+      if (sources.length === 1) return results;
+
+      // Points no feature of the more detailed map covers fall back to the next scale
+      let uncovered = (perPoint ? members : points.map((_, i) => i)).filter(
+        (i) => !results[0].features.some((f) => covers(f, i)),
+      );
+      for (const source of sources.slice(1)) {
+        if (uncovered.length === 0) break;
+        // Per point: whatever touches an uncovered point's box. Route or area: what covers an uncovered sample.
+        const keep = perPoint ? touchesAny(uncovered) : (f: GeoJsonFeature) => uncovered.some((i) => covers(f, i));
+        const fallback = await fetchFrom(source, perPoint ? uncovered : members, keep);
+        results.push(fallback);
+        uncovered = uncovered.filter((i) => !fallback.features.some((f) => covers(f, i)));
+      }
+      return results;
     }),
   );
+  const perBboxResults = clusterResults.flat();
 
   const seen = new Set<string>();
   const features: Record<string, unknown>[] = [];
+  const containing: (Record<string, unknown> | undefined)[] = sweref99Points.map(() => undefined);
+  const { summaryField } = entry;
+  const summarize = clipArea !== undefined && summaryField !== undefined;
+  const areaByValue = new Map<string, number>();
+  // Source point of each feature (full coordinates), for grouping layers into boreholes
+  const locations: string[] = [];
+  const truncatedLocations = new Set<string>();
+  const metricGeometryOf = (f: GeoJsonFeature) =>
+    metric ? f.geometry! : transformGeometry(f.geometry!, CRS_WGS84, CRS_SWEREF99TM);
+
+  // A coarser map only fills in what the more detailed ones leave: measure each scale on the rest of the area
+  const clipByScale = new Map<string | undefined, ClipArea>();
+  if (summarize) {
+    let remaining = clipArea;
+    for (const [k, { scale }] of sources.entries()) {
+      clipByScale.set(scale, remaining);
+      const coarser = new Set(sources.slice(k + 1).map((source) => source.scale));
+      if (!perBboxResults.some((r) => coarser.has(r.scale) && r.features.length > 0)) break;
+      const byId = new Map<string, GeoJsonFeature>();
+      perBboxResults
+        .filter((r) => r.scale === scale)
+        .flatMap((r) => r.features)
+        .forEach((f, i) => byId.set(String(f.id ?? `no-id:${i}`), f));
+      const mapped = [...byId.values()].filter((f) => f.geometry).map(metricGeometryOf);
+      remaining = subtractFromClipArea(remaining, mapped);
+    }
+  }
+
   for (const result of perBboxResults) {
     for (const f of result.features) {
       const id = String(f.id ?? '');
       if (id && seen.has(id)) continue;
       if (id) seen.add(id);
-      const transformed = entry.transform(f);
-      if (transformed.geometry) {
-        transformed.geometry = simplifyGeometry(transformed.geometry as GeoJsonGeometry, geometryDetail);
+      const { geometry, ...props } = entry.transform(f);
+
+      // Point-in-polygon on the full geometry — must happen before simplification
+      let attribution = {};
+      if (f.geometry && points.length > 0) {
+        const { containedIn, fields } = attributeToPoints(f.geometry, points, metric);
+        attribution = fields;
+        for (const i of containedIn) containing[i] ??= props;
+      }
+
+      // Composition is measured in metres on the full geometry, like the attribution above
+      if (summarize && f.geometry) {
+        const value = String(props[summaryField] ?? 'Unknown');
+        const area = intersectionArea(metricGeometryOf(f), clipByScale.get(result.scale)!);
+        areaByValue.set(value, (areaByValue.get(value) ?? 0) + area);
+      }
+
+      features.push({
+        ...props,
+        ...(result.scale && { map_scale: result.scale }),
+        ...attribution,
+        geometry: geometry ? outputGeometry(geometry as GeoJsonGeometry, geometryDetail, outputCrs) : undefined,
+      });
+      if (entry.groupByBorehole) {
+        const location = f.geometry ? JSON.stringify(f.geometry.coordinates) : `no-geometry:${features.length}`;
+        locations.push(location);
+        if (result.truncated) truncatedLocations.add(location);
       }
-      features.push(transformed);
     }
   }
-  return { features };
+
+  const matchedKnown = perBboxResults.every((r) => r.numberMatched !== undefined);
+  const count: FeatureCount = {
+    matched: matchedKnown ? perBboxResults.reduce((sum, r) => sum + (r.numberMatched ?? 0), 0) : undefined,
+    returned: features.length,
+    truncated: perBboxResults.some((r) => r.truncated),
+  };
+  const summary = summarize ? summarizeComposition(summaryField, areaByValue, clipArea.area, count.truncated) : undefined;
+  const grouped = entry.groupByBorehole
+    ? (groupBoreholes(features as AttributedSoilLayer[], locations, truncatedLocations) as unknown as Record<string, unknown>[])
+    : features;
+  return { features: grouped, count, containing, summary };
+}
+
+interface WmsResult {
+  values: unknown[];
+  /** Query point index of each value (points without data are skipped) */
+  pointIndices: number[];
 }
 
-async function queryWms(entry: WmsEntry, sweref99Points: Point[]): Promise<unknown[]> {
+async function queryWms(entry: WmsEntry, sweref99Points: Point[]): Promise<WmsResult> {
   const results = await Promise.all(sweref99Points.map((pt) => entry.query(pt)));
-  return results.filter((r) => r !== null);
+  const pointIndices = results.flatMap((r, i) => (r !== null ? [i] : []));
+  return { values: pointIndices.map((i) => results[i]), pointIndices };
 }
 
 // ============================================================================
@@ -142,15 +392,35 @@ export async function queryAll(
   sweref99Points: Point[],
   limit: number,
   geometryDetail: GeometryDetail,
-): Promise<{ results: Record<string, unknown>; errors: Record<string, string> }> {
+  options: QueryAllOptions = {},
+): Promise<{
+  results: Record<string, unknown>;
+  errors: Record<string, string>;
+  featureCounts: Record<string, FeatureCount>;
+  primary: PointPrimary[];
+  /** Per point (WMS) type: which query point each result in `results` belongs to */
+  pointIndices: Record<string, number[]>;
+  /** Area-weighted composition per OGC type with a summaryField (only with options.summaryArea) */
+  summaries: Record<string, AreaSummary>;
+}> {
   const results: Record<string, unknown> = {};
   const errors: Record<string, string> = {};
+  const featureCounts: Record<string, FeatureCount> = {};
+  const pointIndices: Record<string, number[]> = {};
+  const summaries: Record<string, AreaSummary> = {};
+  const primaryByType: Record<string, (string | undefined)[]> = {};
+
+  // Split the query area into convex pieces once for all types
+  const clipArea = options.summaryArea ? prepareClipArea(options.summaryArea) : undefined;
 
   const settled = await Promise.allSettled(
     requestedTypes.map(async (type) => {
       const entry = DATA_REGISTRY[type];
       if (entry.mode === 'ogc') {
-        return { type, data: await queryOgcPerPoint(entry, perPointBboxes, limit, geometryDetail) };
+        return {
+          type,
+          data: await queryOgcPerPoint(entry, perPointBboxes, sweref99Points, limit, geometryDetail, options, clipArea),
+        };
       } else {
         return { type, data: await queryWms(entry, sweref99Points) };
       }
@@ -161,15 +431,57 @@ export async function queryAll(
     const type = requestedTypes[i];
     if (result.status === 'fulfilled') {
       const { data } = result.value;
-      if (DATA_REGISTRY[type].mode === 'ogc') {
-        results[type] = (data as { features: unknown[] }).features;
+      const entry = DATA_REGISTRY[type];
+      if (entry.mode === 'ogc') {
+        const { features, count, containing, summary } = data as OgcResult;
+        results[type] = features;
+        featureCounts[type] = count;
+        if (summary) summaries[type] = summary;
+        const { primaryField } = entry;
+        if (primaryField) {
+          primaryByType[type] = containing.map((f) => f?.[primaryField] as string | undefined);
+        }
       } else {
-        results[type] = data;
+        const { values, pointIndices: indices } = data as WmsResult;
+        results[type] = values;
+        pointIndices[type] = indices;
       }
     } else {
       errors[type] = result.reason instanceof Error ? result.reason.message : String(result.reason);
     }
   });
 
-  return { results, errors };
+  // What is directly under each query point, for the types that define a primaryField
+  const primary: PointPrimary[] =
+    Object.keys(primaryByType).length === 0
+      ? []
+      : sweref99Points.map((p, i) => {
+          const { latitude, longitude } = sweref99ToWgs84(p);
+          const entry: PointPrimary = { latitude: roundTo(latitude, 6), longitude: roundTo(longitude, 6) };
+          for (const [type, values] of Object.entries(primaryByType)) {
+            entry[type] = values[i];
+          }
+          return entry;
+        });
+
+  return { results, errors, featureCounts, primary, pointIndices, summaries };
+}
+
+/** OGC API workspaces behind the registry's data types, with getCollections probes — used by sgu_status */
+export function getOgcServices(): ServiceDefinition[] {
+  const byWorkspace = new Map<string, string[]>();
+  for (const [type, entry] of Object.entries(DATA_REGISTRY)) {
+    if (entry.mode !== 'ogc') continue;
+    for (const workspace of entry.workspaces) {
+      byWorkspace.set(workspace, [...(byWorkspace.get(workspace) ?? []), type]);
+    }
+  }
+
+  return [...byWorkspace.entries()].map(([workspace, dataTypes]) => ({
+    name: `ogc:${workspace}`,
+    url: `${OGC_BASE}/${workspace}/ogc/features/v1`,
+    dataTypes,
+    mapLayers: [],
+    probe: (policy) => getOgcClient(workspace).getCollections(policy),
+  }));
 }
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** Route maxDuration in seconds — the platform kills the function after this */
+export const MAX_DURATION_S = 60;
+
+// Headroom after the last upstream call to build and send the response
+const RESPONSE_MARGIN_MS = 5000;
+
+/** Time budget for the upstream calls of one tool call */
+export const TOOL_CALL_BUDGET_MS = MAX_DURATION_S * 1000 - RESPONSE_MARGIN_MS;
+
+/** Absolute deadline (epoch ms); mutable so a request shared by several tool calls can run until the last one's */
+export interface Deadline {
+  at: number;
+}
+
+const storage = new AsyncLocalStorage<Deadline>();
+
+/**
+ * Run a tool call with an absolute deadline. The HTTP layer stops retrying and
+ * shortens timeouts so the call finishes before the route is terminated.
+ */
+export function runWithDeadline<R>(fn: () => Promise<R>, budgetMs: number = TOOL_CALL_BUDGET_MS): Promise<R> {
+  return storage.run({ at: Date.now() + budgetMs }, fn);
+}
+
+/** Run fn under the given deadline instead of the current tool call's */
+export function runUntil<R>(deadline: Deadline, fn: () => Promise<R>): Promise<R> {
+  return storage.run(deadline, fn);
+}
+
+/** Milliseconds left before the current tool call's deadline; Infinity outside a tool call */
+export function remainingTimeMs(): number {
+  const deadline = storage.getStore();
+  return deadline === undefined ? Infinity : deadline.at - Date.now();
+}
@@ -0,0 +1,141 @@
+// Depth-to-rock estimate: SGU's soil depth model checked against observed depths in nearby wells and boreholes
+
+import { roundTo } from './numbers';
+
+export interface RockObservation {
+  source: 'well' | 'borehole';
+  well_id?: number;
+  /** Distance in meters from the site */
+  distance_m: number;
+  depth_m: number;
+  /** Borehole stopped before reaching rock: rock lies deeper than depth_m */
+  lower_bound?: true;
+}
+
+export type Confidence = 'high' | 'medium' | 'low';
+export type Disagreement = 'small' | 'moderate' | 'large';
+
+export interface DepthToRockEstimate {
+  /** Best estimate: distance-weighted observations when available, otherwise the model */
+  estimate_m?: number;
+  /** SGU soil depth model value (10 m grid) at the site */
+  model_depth_m?: number;
+  /** Inverse-distance-weighted mean of the observed depths */
+  observed_depth_m?: number;
+  observation_count: number;
+  nearest_observation?: RockObservation;
+  /** Observed depths, min–max */
+  observed_range_m?: { min: number; max: number };
+  /** Deepest borehole that stopped before rock — the rock is at least this deep there */
+  deepest_without_rock?: RockObservation;
+  model_vs_observed?: { difference_m: number; disagreement: Disagreement };
+  confidence: Confidence;
+  drilling_recommended: boolean;
+  reasons: string[];
+}
+
+// Closer than this counts as at the site; also keeps inverse-distance weights finite
+const MIN_WEIGHT_DISTANCE_M = 10;
+const AT_SITE_DISTANCE_M = 50;
+const NEAR_DISTANCE_M = 250;
+
+// Inverse distance squared
+function weightedDepth(observations: RockObservation[]): number {
+  let weightSum = 0;
+  let sum = 0;
+  for (const o of observations) {
+    const w = 1 / Math.max(o.distance_m, MIN_WEIGHT_DISTANCE_M) ** 2;
+    weightSum += w;
+    sum += w * o.depth_m;
+  }
+  return roundTo(sum / weightSum, 1);
+}
+
+// Relative thresholds for deep soil, absolute ones for shallow soil where a metre matters
+function classifyDifference(difference: number, reference: number): Disagreement {
+  const abs = Math.abs(difference);
+  if (abs <= Math.max(1, 0.25 * reference)) return 'small';
+  if (abs <= Math.max(3, 0.5 * reference)) return 'moderate';
+  return 'large';
+}
+
+const DOWNGRADE: Record<Confidence, Confidence> = { high: 'medium', medium: 'low', low: 'low' };
+
+/**
+ * Combine the model depth with observations (wells' soil depth, boreholes reaching rock). Boreholes that
+ * stopped in soil only bound the depth from below. Confidence is high only with observations at or near
+ * the site that agree with each other and with the model.
+ */
+export function estimateDepthToRock(modelDepth: number | undefined, observations: RockObservation[]): DepthToRockEstimate {
+  const exact = observations.filter((o) => !o.lower_bound).sort((a, b) => a.distance_m - b.distance_m);
+  const bounds = observations.filter((o) => o.lower_bound).sort((a, b) => b.depth_m - a.depth_m);
+  const reasons: string[] = [];
+
+  if (exact.length === 0) {
+    reasons.push(
+      modelDepth === undefined
+        ? 'No model value and no observed depths to rock nearby.'
+        : 'Only the soil depth model; no observed depths to rock nearby.',
+    );
+  }
+
+  const observed = exact.length > 0 ? weightedDepth(exact) : undefined;
+  const nearest = exact[0];
+  const depths = exact.map((o) => o.depth_m);
+  const range = exact.length > 0 ? { min: Math.min(...depths), max: Math.max(...depths) } : undefined;
+
+  let confidence: Confidence = 'low';
+  if (nearest && observed !== undefined) {
+    const near = exact.filter((o) => o.distance_m <= NEAR_DISTANCE_M).map((o) => o.depth_m);
+    if (nearest.distance_m <= AT_SITE_DISTANCE_M) {
+      confidence = 'high';
+      reasons.push(`Observed depth ${Math.round(nearest.distance_m)} m from the site.`);
+    } else if (near.length >= 3) {
+      confidence = 'high';
+      reasons.push(`${near.length} observations within ${NEAR_DISTANCE_M} m.`);
+    } else {
+      confidence = 'medium';
+      reasons.push(`Nearest observation ${Math.round(nearest.distance_m)} m away.`);
+    }
+    // Depths far apart naturally differ; a spread among the near ones means uneven rock under the site
+    const nearMin = Math.min(...near);
+    const nearMax = Math.max(...near);
+    if (near.length >= 2 && classifyDifference(nearMax - nearMin, observed) === 'large') {
+      confidence = DOWNGRADE[confidence];
+      reasons.push(`Observed depths within ${NEAR_DISTANCE_M} m vary from ${nearMin} to ${nearMax} m.`);
+    }
+  }
+
+  let comparison: DepthToRockEstimate['model_vs_observed'];
+  if (modelDepth !== undefined && observed !== undefined) {
+    const difference = roundTo(modelDepth - observed, 1);
+    const disagreement = classifyDifference(difference, observed);
+    comparison = { difference_m: difference, disagreement };
+    if (disagreement !== 'small') {
+      reasons.push(`Model (${modelDepth} m) and observations (${observed} m) differ by ${Math.abs(difference)} m.`);
+    }
+    if (disagreement === 'large') confidence = DOWNGRADE[confidence];
+  }
+
+  let estimate = observed ?? modelDepth;
+  const deepest = bounds[0];
+  if (deepest && (estimate === undefined || deepest.depth_m > estimate)) {
+    reasons.push(`A borehole ${Math.round(deepest.distance_m)} m away reached ${deepest.depth_m} m without hitting rock.`);
+    if (deepest.distance_m <= AT_SITE_DISTANCE_M) estimate = deepest.depth_m;
+    confidence = DOWNGRADE[confidence];
+  }
+
+  return {
+    estimate_m: estimate,
+    model_depth_m: modelDepth,
+    observed_depth_m: observed,
+    observation_count: exact.length,
+    nearest_observation: nearest,
+    observed_range_m: range,
+    deepest_without_rock: deepest,
+    model_vs_observed: comparison,
+    confidence,
+    drilling_recommended: confidence !== 'high',
+    reasons,
+  };
+}
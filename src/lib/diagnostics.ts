@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Per-tool-call counters for upstream traffic (cache hits/misses, network requests, retries, queueing).
+ * The HTTP layer records into whichever tool call it is running under; outside a
+ * tool call (tests, scripts) recording is a no-op.
+ */
+export interface Diagnostics {
+  upstream_requests: number;
+  cache_hits: number;
+  cache_misses: number;
+  /** Upstream requests repeated after a transient failure */
+  retries: number;
+  /** Network attempts that waited for a free slot under the per-host concurrency limit */
+  queued_requests: number;
+  /** Total time those attempts spent waiting, in ms */
+  queue_wait_ms: number;
+  /** Requests that shared an identical request already in flight instead of sending their own */
+  coalesced_requests: number;
+}
+
+const storage = new AsyncLocalStorage<Diagnostics>();
+
+function emptyDiagnostics(): Diagnostics {
+  return {
+    upstream_requests: 0,
+    cache_hits: 0,
+    cache_misses: 0,
+    retries: 0,
+    queued_requests: 0,
+    queue_wait_ms: 0,
+    coalesced_requests: 0,
+  };
+}
+
+export async function runWithDiagnostics<R>(fn: () => Promise<R>): Promise<{ result: R; diagnostics: Diagnostics }> {
+  const diagnostics = emptyDiagnostics();
+  const result = await storage.run(diagnostics, fn);
+  return { result, diagnostics };
+}
+
+/**
+ * Run fn with counters of its own rather than the current tool call's (a request shared by several
+ * tool calls). The counters come back whether fn succeeds or fails.
+ */
+export async function collectDiagnostics<R>(
+  fn: () => Promise<R>,
+): Promise<{ outcome: PromiseSettledResult<R>; diagnostics: Diagnostics }> {
+  const diagnostics = emptyDiagnostics();
+  const [outcome] = await storage.run(diagnostics, () => Promise.allSettled([fn()]));
+  return { outcome, diagnostics };
+}
+
+export function recordDiagnostic(key: keyof Diagnostics, amount: number = 1): void {
+  const diagnostics = storage.getStore();
+  if (diagnostics) {
+    diagnostics[key] += amount;
+  }
+}
+
+/** Add counters collected elsewhere to the current tool call's */
+export function recordDiagnostics(collected: Diagnostics): void {
+  for (const [key, amount] of Object.entries(collected) as [keyof Diagnostics, number][]) {
+    if (amount > 0) recordDiagnostic(key, amount);
+  }
+}
+
+export function hasDiagnostics(diagnostics: Diagnostics): boolean {
+  return Object.values(diagnostics).some((value) => value > 0);
+}
@@ -19,8 +19,9 @@ export class UpstreamApiError extends McpToolError {
     public readonly statusCode: number,
     public readonly upstream: string,
     details?: Record<string, unknown>,
+    code: string = 'UPSTREAM_API_ERROR',
   ) {
-    super(message, 'UPSTREAM_API_ERROR', { statusCode, upstream, ...details });
+    super(message, code, { statusCode, upstream, ...details });
     this.name = 'UpstreamApiError';
   }
 }
@@ -0,0 +1,87 @@
+// RFC 7946 FeatureCollection output for sgu_query (outputFormat: 'geojson')
+
+import { CRS_SWEREF99TM, CRS_WGS84, transformGeometry } from './coordinates';
+import type { Point } from './geometry-utils';
+import { roundTo } from './numbers';
+import type { GeoJsonGeometry } from '@/types/geojson';
+import type { OutputCrs } from '@/types/common-schemas';
+
+export interface OutputFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown>;
+}
+
+export interface FeatureCollection {
+  type: 'FeatureCollection';
+  /** Pre-RFC 7946 named CRS member, only set for projected (non-WGS84) output */
+  crs?: { type: 'name'; properties: { name: string } };
+  features: OutputFeature[];
+}
+
+export interface GeoJsonOutputInput {
+  /** queryAll results: feature arrays (OGC types, geometry already in crs) or point results (WMS types) */
+  results: Record<string, unknown>;
+  /** queryAll pointIndices: query point of each WMS result */
+  pointIndices: Record<string, number[]>;
+  sweref99Points: Point[];
+  crs: OutputCrs;
+}
+
+// Query point in the output CRS, rounded like simplifyGeometry output (6 decimals in degrees, 2 in metres)
+function queryPointGeometry(point: Point, crs: OutputCrs): GeoJsonGeometry {
+  const { coordinates } = transformGeometry({ type: 'Point', coordinates: [point.x, point.y] }, CRS_SWEREF99TM, crs);
+  const decimals = crs === CRS_WGS84 ? 6 : 2;
+  return { type: 'Point', coordinates: (coordinates as number[]).map((n) => roundTo(n, decimals)) };
+}
+
+function typeFeatures(type: string, input: GeoJsonOutputInput): OutputFeature[] {
+  const values = (input.results[type] ?? []) as Record<string, unknown>[];
+  const indices = input.pointIndices[type];
+
+  // Point (WMS) types: one Point feature per query point with data
+  if (indices) {
+    return values.map((value, i) => {
+      const pointIndex = indices[i];
+      return {
+        type: 'Feature',
+        geometry: queryPointGeometry(input.sweref99Points[pointIndex], input.crs),
+        properties: {
+          data_type: type,
+          ...(input.sweref99Points.length > 1 && { point_index: pointIndex }),
+          ...value,
+        },
+      };
+    });
+  }
+
+  // Area (OGC) types: the cleaned-up feature fields become properties
+  return values.map(({ id, geometry, ...properties }) => ({
+    type: 'Feature',
+    ...(id !== undefined && id !== '' && { id: id as string | number }),
+    geometry: (geometry as GeoJsonGeometry | undefined) ?? null,
+    properties: { data_type: type, ...properties },
+  }));
+}
+
+function featureCollection(features: OutputFeature[], crs: OutputCrs): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    ...(crs !== CRS_WGS84 && { crs: { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${crs.split(':')[1]}` } } }),
+    features,
+  };
+}
+
+/** All data types in one FeatureCollection; every feature carries its data_type */
+export function toFeatureCollection(types: string[], input: GeoJsonOutputInput): FeatureCollection {
+  return featureCollection(
+    types.flatMap((type) => typeFeatures(type, input)),
+    input.crs,
+  );
+}
+
+/** One FeatureCollection per data type, keyed by data type */
+export function toFeatureCollections(types: string[], input: GeoJsonOutputInput): Record<string, FeatureCollection> {
+  return Object.fromEntries(types.map((type) => [type, featureCollection(typeFeatures(type, input), input.crs)]));
+}
@@ -1,4 +1,5 @@
 import { ValidationError } from './errors';
+import { roundTo } from './numbers';
 import type { GeoJsonGeometry } from '@/types/geojson';
 import type { GeometryDetail } from '@/types/common-schemas';
 
@@ -81,10 +82,745 @@ export function corridorToBoundingBox(corridor: Corridor): BoundingBox {
   };
 }
 
+// Corridor buffering (planar, SWEREF99TM meters)
+
+// Angular step for round caps and outer joins (22.5°) — keeps the WKT short enough for a GET query string
+const ARC_STEP_RAD = Math.PI / 8;
+
+function dedupeConsecutive(points: Point[]): Point[] {
+  return points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+}
+
+// Left-hand unit normal of segment a→b
+function leftNormal(a: Point, b: Point): Point {
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  return { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+}
+
+// Points strictly between two angles on a circle, sweeping clockwise (sweep < 0)
+function arcPoints(center: Point, radius: number, fromAngle: number, sweep: number): number[][] {
+  const steps = Math.ceil(Math.abs(sweep) / ARC_STEP_RAD);
+  const coords: number[][] = [];
+  for (let i = 1; i < steps; i++) {
+    const angle = fromAngle + (sweep * i) / steps;
+    coords.push([center.x + radius * Math.cos(angle), center.y + radius * Math.sin(angle)]);
+  }
+  return coords;
+}
+
+// Offset chain along the left side of the line, ending with a round cap around the last vertex.
+// Inner (left-turn) joins use the miter point so the outline does not loop back on itself, or a bevel
+// when a segment is shorter than the miter cuts back.
+function offsetLeftSide(points: Point[], distance: number): number[][] {
+  const normals = points.slice(1).map((p, i) => leftNormal(points[i], p));
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  // cross(n1, n2) has the same sign as cross(dir1, dir2): positive = left turn
+  const joins = points.map((_, i) => {
+    if (i === 0 || i === points.length - 1) return { cross: 0, dot: 1, inner: false };
+    const [n1, n2] = [normals[i - 1], normals[i]];
+    const cross = n1.x * n2.y - n1.y * n2.x;
+    const dot = n1.x * n2.x + n1.y * n2.y;
+    return { cross, dot, inner: cross > 1e-9 && dot > -0.99 };
+  });
+  // Length of segment k an inner join may cut back into, shared when both its ends are inner joins
+  const room = (k: number) => lengths[k] / (joins[k].inner && joins[k + 1].inner ? 2 : 1);
+  const coords: number[][] = [[points[0].x + distance * normals[0].x, points[0].y + distance * normals[0].y]];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const n1 = normals[i - 1];
+    const n2 = normals[i];
+    const { cross, dot, inner } = joins[i];
+
+    if (inner) {
+      // The miter point lies this far back along both segments
+      const setback = (distance * cross) / (1 + dot);
+      const maxSetback = Math.min(room(i - 1), room(i));
+      if (setback <= maxSetback) {
+        const scale = distance / (1 + dot);
+        coords.push([p.x + scale * (n1.x + n2.x), p.y + scale * (n1.y + n2.y)]);
+      } else {
+        // A segment shorter than the setback: the miter would cross the next offset, so bevel within the segments
+        coords.push([p.x + distance * n1.x - maxSetback * n1.y, p.y + distance * n1.y + maxSetback * n1.x]);
+        coords.push([p.x + distance * n2.x + maxSetback * n2.y, p.y + distance * n2.y - maxSetback * n2.x]);
+      }
+    } else if (cross < -1e-9 || dot <= -0.99) {
+      const from = Math.atan2(n1.y, n1.x);
+      let sweep = Math.atan2(n2.y, n2.x) - from;
+      while (sweep >= 0) sweep -= 2 * Math.PI;
+      coords.push([p.x + distance * n1.x, p.y + distance * n1.y]);
+      coords.push(...arcPoints(p, distance, from, sweep));
+      coords.push([p.x + distance * n2.x, p.y + distance * n2.y]);
+    } else {
+      coords.push([p.x + distance * n2.x, p.y + distance * n2.y]);
+    }
+  }
+
+  const last = points[points.length - 1];
+  const n = normals[normals.length - 1];
+  coords.push([last.x + distance * n.x, last.y + distance * n.y]);
+  coords.push(...arcPoints(last, distance, Math.atan2(n.y, n.x), -Math.PI));
+  return removeLoops(coords);
+}
+
+// Point where segments ab and cd cross, excluding their end points
+function segmentCrossing(a: number[], b: number[], c: number[], d: number[]): number[] | undefined {
+  const [rx, ry, sx, sy] = [b[0] - a[0], b[1] - a[1], d[0] - c[0], d[1] - c[1]];
+  const denom = rx * sy - ry * sx;
+  if (Math.abs(denom) < 1e-12) return undefined;
+  const [qx, qy] = [c[0] - a[0], c[1] - a[1]];
+  const t = (qx * sy - qy * sx) / denom;
+  const u = (qx * ry - qy * rx) / denom;
+  const eps = 1e-9;
+  if (t <= eps || t >= 1 - eps || u <= eps || u >= 1 - eps) return undefined;
+  return [a[0] + t * rx, a[1] + t * ry];
+}
+
+// Cut out the loops an offset chain makes where it runs over itself: past the round join of the next vertex
+// after a segment shorter than the buffer, or across the inside of a hairpin. Jumps to the farthest crossing.
+function removeLoops(chain: number[][]): number[][] {
+  const result = [chain[0]];
+  let start = chain[0];
+  for (let i = 0; i < chain.length - 1; ) {
+    let crossing: { j: number; point: number[] } | undefined;
+    for (let j = chain.length - 2; j > i + 1 && !crossing; j--) {
+      const point = segmentCrossing(start, chain[i + 1], chain[j], chain[j + 1]);
+      if (point) crossing = { j, point };
+    }
+    start = crossing ? crossing.point : chain[i + 1];
+    i = crossing ? crossing.j : i + 1;
+    result.push(start);
+  }
+  return result;
+}
+
+/**
+ * Buffer a corridor centerline into a closed polygon ring (round caps and joins).
+ * Coordinates must be planar meters (SWEREF99TM). Returns [[x, y], ...] with first === last.
+ */
+export function bufferCorridor(corridor: Corridor): number[][] {
+  const points = dedupeConsecutive(corridor.coordinates);
+  if (points.length < 2) {
+    throw new ValidationError('Corridor must have at least 2 distinct coordinate pairs', 'corridor');
+  }
+  if (!(corridor.bufferMeters > 0)) {
+    throw new ValidationError('Corridor buffer must be greater than 0 meters', 'bufferMeters');
+  }
+
+  const ring = [
+    ...offsetLeftSide(points, corridor.bufferMeters),
+    ...offsetLeftSide([...points].reverse(), corridor.bufferMeters),
+  ];
+  ring.push([...ring[0]]);
+  return ring;
+}
+
+// WKT ring body "(x y,x y,...)", rounded to decimeters (plenty for a query filter)
+function ringWktBody(ring: number[][]): string {
+  return `(${ring.map(([x, y]) => `${roundTo(x, 1)} ${roundTo(y, 1)}`).join(',')})`;
+}
+
+// WKT POLYGON from a single closed ring
+export function ringToWkt(ring: number[][]): string {
+  return `POLYGON(${ringWktBody(ring)})`;
+}
+
+// WKT POLYGON or MULTIPOLYGON from a GeoJSON polygon geometry, holes included
+export function polygonToWkt(geometry: GeoJsonGeometry): string {
+  const polygonBody = (rings: number[][][]) => `(${rings.map(ringWktBody).join(',')})`;
+  if (geometry.type === 'MultiPolygon') {
+    return `MULTIPOLYGON(${(geometry.coordinates as number[][][][]).map(polygonBody).join(',')})`;
+  }
+  return `POLYGON${polygonBody(geometry.coordinates as number[][][])}`;
+}
+
+// Polygon area input (WKT or GeoJSON)
+
+type WktNode = number[] | WktNode[];
+
+// Recursive descent over the parenthesised coordinate lists of a WKT geometry
+function parseWktNode(text: string, start: number): { node: WktNode; end: number } {
+  let i = start + 1; // skip '('
+  const skipSpace = () => {
+    while (/\s/.test(text[i] ?? '')) i++;
+  };
+  skipSpace();
+
+  const items: WktNode[] = [];
+  const nested = text[i] === '(';
+  for (;;) {
+    skipSpace();
+    if (nested) {
+      if (text[i] !== '(') throw new ValidationError('Malformed WKT: expected "("', 'area');
+      const child = parseWktNode(text, i);
+      items.push(child.node);
+      i = child.end;
+    } else {
+      const match = /^[-+\d.eE]+\s+[-+\d.eE]+/.exec(text.slice(i));
+      const position = match?.[0].split(/\s+/).map(Number);
+      if (!position || position.some((n) => !Number.isFinite(n))) {
+        throw new ValidationError('Malformed WKT: expected "x y" coordinate pairs', 'area');
+      }
+      items.push(position);
+      i += match![0].length;
+    }
+    skipSpace();
+    if (text[i] === ',') {
+      i++;
+    } else if (text[i] === ')') {
+      return { node: items, end: i + 1 };
+    } else {
+      throw new ValidationError('Malformed WKT: expected "," or ")"', 'area');
+    }
+  }
+}
+
+/** Parse a WKT POLYGON or MULTIPOLYGON (2D) into a GeoJSON geometry. Coordinates are kept as given. */
+export function parsePolygonWkt(wkt: string): GeoJsonGeometry {
+  const match = /^\s*(MULTIPOLYGON|POLYGON)\s*\(/i.exec(wkt);
+  if (!match) {
+    throw new ValidationError('WKT area must be a POLYGON or MULTIPOLYGON', 'area');
+  }
+  const { node, end } = parseWktNode(wkt, match[0].length - 1);
+  if (wkt.slice(end).trim() !== '') {
+    throw new ValidationError('Malformed WKT: unexpected text after the geometry', 'area');
+  }
+  const type = match[1].toUpperCase() === 'MULTIPOLYGON' ? 'MultiPolygon' : 'Polygon';
+  return normalizePolygon({ type, coordinates: node as GeoJsonGeometry['coordinates'] });
+}
+
+function normalizeRing(ring: unknown): number[][] {
+  const valid =
+    Array.isArray(ring) &&
+    ring.every((p) => Array.isArray(p) && p.length >= 2 && typeof p[0] === 'number' && typeof p[1] === 'number');
+  if (!valid) {
+    throw new ValidationError('Polygon rings must be arrays of [x, y] positions', 'area');
+  }
+  const positions = (ring as number[][]).map(([x, y]) => [x, y]);
+  const [first] = positions;
+  const last = positions[positions.length - 1];
+  // Be lenient about unclosed rings; a closed ring needs 4 positions
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) positions.push([...first]);
+  if (positions.length < 4) {
+    throw new ValidationError('Polygon rings need at least 3 distinct positions', 'area');
+  }
+  return positions;
+}
+
+/**
+ * Validate a Polygon or MultiPolygon from user input: 2D positions only, rings closed
+ * (unclosed rings are closed), at least one polygon.
+ */
+export function normalizePolygon(geometry: { type: string; coordinates: unknown }): GeoJsonGeometry {
+  const polygonRings = (rings: unknown): number[][][] => {
+    if (!Array.isArray(rings) || rings.length === 0) {
+      throw new ValidationError('A polygon needs an outer ring', 'area');
+    }
+    return rings.map(normalizeRing);
+  };
+
+  if (geometry.type === 'Polygon') {
+    return { type: 'Polygon', coordinates: polygonRings(geometry.coordinates) };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      throw new ValidationError('A MultiPolygon needs at least one polygon', 'area');
+    }
+    return { type: 'MultiPolygon', coordinates: geometry.coordinates.map(polygonRings) };
+  }
+  throw new ValidationError(`Area must be a Polygon or MultiPolygon, got ${geometry.type}`, 'area');
+}
+
+// Rings of every polygon in a Polygon or MultiPolygon geometry
+function polygonsOf(geometry: GeoJsonGeometry): number[][][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates as number[][][]];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates as number[][][][];
+  return [];
+}
+
+// Shoelace formula; positive for counter-clockwise rings
+function signedRingArea(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 1; i < ring.length; i++) {
+    sum += ring[i - 1][0] * ring[i][1] - ring[i][0] * ring[i - 1][1];
+  }
+  return sum / 2;
+}
+
+/** Planar area of a Polygon or MultiPolygon with holes removed. Coordinates must be metres (SWEREF99TM). */
+export function polygonArea(geometry: GeoJsonGeometry): number {
+  return polygonsOf(geometry).reduce((total, [outer, ...holes]) => {
+    const holeArea = holes.reduce((sum, hole) => sum + Math.abs(signedRingArea(hole)), 0);
+    return total + Math.abs(signedRingArea(outer)) - holeArea;
+  }, 0);
+}
+
+// Every position of a geometry of any type
+function positionsOf(coordinates: GeoJsonGeometry['coordinates']): number[][] {
+  return typeof coordinates[0] === 'number' ? [coordinates as number[]] : (coordinates as number[][][]).flatMap(positionsOf);
+}
+
+export function geometryBounds(geometry: GeoJsonGeometry): BoundingBox {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const [x, y] of positionsOf(geometry.coordinates)) {
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  }
+  return bounds;
+}
+
+/**
+ * Regular grid of sample points inside a polygon: the centres of spacing × spacing cells that fall
+ * inside, so each sample stands for the same share of the area. Coordinates must be metres (SWEREF99TM).
+ */
+export function samplePolygonGrid(geometry: GeoJsonGeometry, spacingMeters: number): Point[] {
+  if (!(spacingMeters > 0)) {
+    throw new ValidationError('Sample spacing must be greater than 0 meters', 'sampleSpacingMeters');
+  }
+  const { minX, minY, maxX, maxY } = geometryBounds(geometry);
+  const samples: Point[] = [];
+  for (let y = minY + spacingMeters / 2; y < maxY; y += spacingMeters) {
+    for (let x = minX + spacingMeters / 2; x < maxX; x += spacingMeters) {
+      if (relatePointToGeometry(geometry, [x, y]).contains) samples.push({ x, y });
+    }
+  }
+  return samples;
+}
+
+export function lineLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+// Compass bearing in degrees (0 = north, 90 = east) from one planar point to another, SWEREF99TM grid north
+export function bearingDegrees(from: Point, to: Point): number {
+  const degrees = (Math.atan2(to.x - from.x, to.y - from.y) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+/**
+ * Sample points at a fixed spacing along a polyline, always including both ends.
+ * Coordinates must be planar meters (SWEREF99TM).
+ */
+export function sampleLine(points: Point[], spacingMeters: number): Point[] {
+  if (!(spacingMeters > 0)) {
+    throw new ValidationError('Sample spacing must be greater than 0 meters', 'sampleSpacingMeters');
+  }
+  const line = dedupeConsecutive(points);
+  if (line.length < 2) return line.slice(0, 1);
+
+  const samples: Point[] = [{ ...line[0] }];
+  // Distance along the current segment where the next sample falls
+  let next = spacingMeters;
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const segLength = Math.hypot(b.x - a.x, b.y - a.y);
+    while (next < segLength) {
+      const t = next / segLength;
+      samples.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+      next += spacingMeters;
+    }
+    next -= segLength;
+  }
+
+  const last = line[line.length - 1];
+  const prev = samples[samples.length - 1];
+  // Avoid a near-duplicate final sample when the length is (almost) a multiple of the spacing
+  if (Math.hypot(last.x - prev.x, last.y - prev.y) > 1e-6) {
+    samples.push({ ...last });
+  }
+  return samples;
+}
+
+/**
+ * Union of axis-aligned boxes as disjoint rectangles (a MultiPolygon), so overlapping query
+ * squares around nearby points are not counted twice.
+ */
+export function unionOfBoxes(boxes: BoundingBox[]): GeoJsonGeometry {
+  const xs = [...new Set(boxes.flatMap((b) => [b.minX, b.maxX]))].sort((a, b) => a - b);
+  const ys = [...new Set(boxes.flatMap((b) => [b.minY, b.maxY]))].sort((a, b) => a - b);
+  const covered = (x: number, y: number) => boxes.some((b) => x > b.minX && x < b.maxX && y > b.minY && y < b.maxY);
+
+  const rectangles: number[][][][] = [];
+  for (let j = 1; j < ys.length; j++) {
+    const [y0, y1] = [ys[j - 1], ys[j]];
+    // Merge runs of covered cells along the strip
+    let runStart: number | undefined;
+    for (let i = 1; i <= xs.length; i++) {
+      const inside = i < xs.length && covered((xs[i - 1] + xs[i]) / 2, (y0 + y1) / 2);
+      if (inside && runStart === undefined) runStart = xs[i - 1];
+      if (!inside && runStart !== undefined) {
+        const x1 = xs[i - 1];
+        rectangles.push([
+          [
+            [runStart, y0],
+            [x1, y0],
+            [x1, y1],
+            [runStart, y1],
+            [runStart, y0],
+          ],
+        ]);
+        runStart = undefined;
+      }
+    }
+  }
+  return { type: 'MultiPolygon', coordinates: rectangles };
+}
+
+export function boxesIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+export function envelopeOf(boxes: BoundingBox[]): BoundingBox {
+  return {
+    minX: Math.min(...boxes.map((b) => b.minX)),
+    minY: Math.min(...boxes.map((b) => b.minY)),
+    maxX: Math.max(...boxes.map((b) => b.maxX)),
+    maxY: Math.max(...boxes.map((b) => b.maxY)),
+  };
+}
+
+function boxArea(box: BoundingBox): number {
+  return (box.maxX - box.minX) * (box.maxY - box.minY);
+}
+
+// Area covered by the union of boxes: merged x-intervals per horizontal strip between box edges
+function unionArea(boxes: BoundingBox[]): number {
+  const ys = [...new Set(boxes.flatMap((b) => [b.minY, b.maxY]))].sort((a, b) => a - b);
+  let area = 0;
+  for (let j = 1; j < ys.length; j++) {
+    const mid = (ys[j - 1] + ys[j]) / 2;
+    const intervals = boxes
+      .filter((b) => b.minY < mid && mid < b.maxY)
+      .map((b) => [b.minX, b.maxX])
+      .sort((a, b) => a[0] - b[0]);
+    let covered = 0;
+    let end = -Infinity;
+    for (const [x0, x1] of intervals) {
+      if (x1 <= end) continue;
+      covered += x1 - Math.max(x0, end);
+      end = x1;
+    }
+    area += covered * (ys[j] - ys[j - 1]);
+  }
+  return area;
+}
+
+export interface BoxCluster {
+  envelope: BoundingBox;
+  /** Indices of the input boxes inside the envelope */
+  members: number[];
+}
+
+// An envelope may be this much larger than the area its boxes cover
+const MAX_ENVELOPE_RATIO = 1.5;
+// Keeps one query's feature cap (limit × members) and the union-area check small
+const MAX_CLUSTER_MEMBERS = 25;
+
+/**
+ * Merge overlapping boxes into cluster envelopes so closely spaced query points share one query. Clusters
+ * merge only while the envelope stays close to the area the boxes cover (MAX_ENVELOPE_RATIO), so a
+ * diagonal line of boxes becomes a chain of envelopes rather than one large square. Boxes must share one CRS.
+ */
+export function clusterBoxes(boxes: BoundingBox[]): BoxCluster[] {
+  const clusters: BoxCluster[] = [];
+  const tryMerge = (cluster: BoxCluster, members: number[]): boolean => {
+    const merged = [...cluster.members, ...members];
+    if (merged.length > MAX_CLUSTER_MEMBERS) return false;
+    const memberBoxes = merged.map((i) => boxes[i]);
+    const envelope = envelopeOf(memberBoxes);
+    if (boxArea(envelope) > MAX_ENVELOPE_RATIO * unionArea(memberBoxes)) return false;
+    Object.assign(cluster, { envelope, members: merged });
+    return true;
+  };
+
+  // Boxes in input order join the first overlapping cluster that stays compact
+  boxes.forEach((box, i) => {
+    const host = clusters.find((c) => boxesIntersect(c.envelope, box) && tryMerge(c, [i]));
+    if (!host) clusters.push({ envelope: { ...box }, members: [i] });
+  });
+
+  // Growing envelopes can come to overlap: merge clusters until no pair qualifies
+  for (let merged = true; merged; ) {
+    merged = false;
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; ) {
+        if (boxesIntersect(clusters[a].envelope, clusters[b].envelope) && tryMerge(clusters[a], clusters[b].members)) {
+          clusters.splice(b, 1);
+          merged = true;
+        } else {
+          b++;
+        }
+      }
+    }
+  }
+  return clusters.map(({ envelope, members }) => ({ envelope, members: members.sort((x, y) => x - y) }));
+}
+
+// Polygon clipping and intersection area (planar, SWEREF99TM metres)
+
+// > 0 when c lies to the left of a→b
+function cross(a: number[], b: number[], c: number[]): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+// Open (first !== last), counter-clockwise copy of a closed ring
+function openCounterClockwise(ring: number[][]): number[][] {
+  const open = ring.slice(0, -1);
+  return signedRingArea(ring) < 0 ? open.reverse() : open;
+}
+
+function isConvex(open: number[][]): boolean {
+  return open.every((p, i) => cross(open[(i + open.length - 1) % open.length], p, open[(i + 1) % open.length]) >= 0);
+}
+
+// Ear clipping of a simple counter-clockwise open ring into triangles
+function triangulate(open: number[][]): number[][][] {
+  const remaining = [...open];
+  const triangles: number[][][] = [];
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    let clipped = false;
+    for (let i = 0; i < n; i++) {
+      const a = remaining[(i + n - 1) % n];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % n];
+      const turn = cross(a, b, c);
+      if (turn < 0) continue; // reflex vertex
+      // Another vertex inside or on the candidate triangle (e.g. a reflex vertex on the diagonal) blocks the ear
+      const blocks = (p: number[]) =>
+        ![a, b, c].some((q) => q[0] === p[0] && q[1] === p[1]) &&
+        cross(a, b, p) >= 0 &&
+        cross(b, c, p) >= 0 &&
+        cross(c, a, p) >= 0;
+      const isEar = turn === 0 || !remaining.some(blocks);
+      if (!isEar) continue;
+      // Collinear vertices are dropped without a (zero-area) triangle
+      if (turn > 0) triangles.push([a, b, c]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Self-intersecting rings have no ear left; keep what was triangulated
+    if (!clipped) break;
+  }
+  if (remaining.length === 3) triangles.push(remaining);
+  return triangles;
+}
+
+// Sutherland–Hodgman: clip any ring against a convex counter-clockwise open ring. Concave subjects may
+// give zero-width bridges in the result, which do not change its area. Returns a closed ring.
+function clipRingToConvex(ring: number[][], convex: number[][]): number[][] {
+  let output = ring.slice(0, -1);
+  for (let e = 0; e < convex.length && output.length > 0; e++) {
+    const a = convex[e];
+    const b = convex[(e + 1) % convex.length];
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      const currentIn = cross(a, b, current) >= 0;
+      const previousIn = cross(a, b, previous) >= 0;
+      if (currentIn !== previousIn) {
+        const t = cross(a, b, previous) / (cross(a, b, previous) - cross(a, b, current));
+        output.push([previous[0] + t * (current[0] - previous[0]), previous[1] + t * (current[1] - previous[1])]);
+      }
+      if (currentIn) output.push(current);
+    }
+  }
+  return output.length > 0 ? [...output, output[0]] : [];
+}
+
+interface ClipPiece {
+  ring: number[][]; // convex, counter-clockwise, open
+  bounds: BoundingBox;
+  /** +1 for pieces of outer rings, -1 for pieces of holes */
+  sign: number;
+}
+
+export interface ClipArea {
+  pieces: ClipPiece[];
+  /** Area of the clip region in m² */
+  area: number;
+}
+
+function ringBounds(ring: number[][]): BoundingBox {
+  return geometryBounds({ type: 'Polygon', coordinates: [ring] });
+}
+
+/**
+ * Split a Polygon or MultiPolygon query area into convex pieces once, for intersectionArea.
+ * Holes become negative pieces. Coordinates must be metres (SWEREF99TM).
+ */
+export function prepareClipArea(geometry: GeoJsonGeometry): ClipArea {
+  return { pieces: convexPieces(geometry), area: polygonArea(geometry) };
+}
+
+function convexPieces(geometry: GeoJsonGeometry): ClipPiece[] {
+  const pieces: ClipPiece[] = [];
+  for (const rings of polygonsOf(geometry)) {
+    rings.forEach((ring, i) => {
+      const open = openCounterClockwise(ring);
+      for (const convex of isConvex(open) ? [open] : triangulate(open)) {
+        pieces.push({ ring: convex, bounds: ringBounds(convex), sign: i === 0 ? 1 : -1 });
+      }
+    });
+  }
+  return pieces;
+}
+
+/**
+ * The part of a clip area outside the given polygons, e.g. what a detailed map leaves for a coarser one.
+ * Each overlap of a clip piece and a polygon piece is added with the opposite sign, so the polygons must
+ * not overlap each other (the units of one map don't).
+ */
+export function subtractFromClipArea(clip: ClipArea, geometries: GeoJsonGeometry[]): ClipArea {
+  const pieces = [...clip.pieces];
+  let area = clip.area;
+  for (const cut of geometries.flatMap(convexPieces)) {
+    for (const piece of clip.pieces) {
+      if (!boundsOverlap(piece.bounds, cut.bounds)) continue;
+      // Convex ∩ convex is convex
+      const overlap = clipRingToConvex([...piece.ring, piece.ring[0]], cut.ring);
+      const overlapArea = overlap.length > 3 ? Math.abs(signedRingArea(overlap)) : 0;
+      if (overlapArea === 0) continue;
+      const sign = -piece.sign * cut.sign;
+      pieces.push({ ring: openCounterClockwise(overlap), bounds: ringBounds(overlap), sign });
+      area += sign * overlapArea;
+    }
+  }
+  return { pieces, area: Math.max(0, area) };
+}
+
+function boundsOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+}
+
+/** Area of a Polygon or MultiPolygon inside a prepared clip area, in m². Other geometry types have none. */
+export function intersectionArea(geometry: GeoJsonGeometry, clip: ClipArea): number {
+  const polygons = polygonsOf(geometry);
+  if (polygons.length === 0) return 0;
+  const bounds = geometryBounds(geometry);
+
+  let total = 0;
+  for (const piece of clip.pieces) {
+    if (!boundsOverlap(bounds, piece.bounds)) continue;
+    for (const [outer, ...holes] of polygons) {
+      let area = Math.abs(signedRingArea(clipRingToConvex(outer, piece.ring)));
+      for (const hole of holes) area -= Math.abs(signedRingArea(clipRingToConvex(hole, piece.ring)));
+      total += piece.sign * area;
+    }
+  }
+  return Math.max(0, total);
+}
+
+// Point-to-geometry relation (point-in-polygon + distance)
+
+export interface PointRelation {
+  contains: boolean;
+  /** Distance in meters to the geometry (0 when contained) */
+  distance: number;
+}
+
+// Meters per degree [lon, lat] at a latitude — equirectangular approximation, fine at query-radius scale
+export function wgs84MetersPerDegree(latitude: number): [number, number] {
+  return [111320 * Math.cos((latitude * Math.PI) / 180), 110574];
+}
+
+// Ray casting against a ring in local coordinates, testing the origin
+function ringContainsOrigin(ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > 0 !== yj > 0 && 0 < ((xj - xi) * -yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function segmentDistanceToOrigin(a: number[], b: number[]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(a[0] * dx + a[1] * dy) / lenSq));
+  return Math.hypot(a[0] + t * dx, a[1] + t * dy);
+}
+
+function lineDistanceToOrigin(coords: number[][]): number {
+  if (coords.length === 1) return Math.hypot(coords[0][0], coords[0][1]);
+  let min = Infinity;
+  for (let i = 1; i < coords.length; i++) {
+    min = Math.min(min, segmentDistanceToOrigin(coords[i - 1], coords[i]));
+  }
+  return min;
+}
+
+function relatePolygon(rings: number[][][]): PointRelation {
+  const [outer, ...holes] = rings;
+  const contains = ringContainsOrigin(outer) && !holes.some(ringContainsOrigin);
+  return { contains, distance: contains ? 0 : Math.min(...rings.map(lineDistanceToOrigin)) };
+}
+
+/**
+ * Point-in-polygon test and distance from a point to a geometry, on the full (unsimplified) coordinates.
+ * unitScale converts coordinate units to meters: [1, 1] for SWEREF99TM, wgs84MetersPerDegree(lat) for WGS84.
+ */
+export function relatePointToGeometry(
+  geometry: GeoJsonGeometry,
+  point: number[],
+  unitScale: [number, number] = [1, 1],
+): PointRelation {
+  const [px, py] = point;
+  const [sx, sy] = unitScale;
+  const local = (c: number[]) => [(c[0] - px) * sx, (c[1] - py) * sy];
+
+  switch (geometry.type) {
+    case 'Point':
+      return { contains: false, distance: lineDistanceToOrigin([local(geometry.coordinates as number[])]) };
+    case 'MultiPoint':
+      return {
+        contains: false,
+        distance: Math.min(...(geometry.coordinates as number[][]).map((c) => lineDistanceToOrigin([local(c)]))),
+      };
+    case 'LineString':
+      return { contains: false, distance: lineDistanceToOrigin((geometry.coordinates as number[][]).map(local)) };
+    case 'MultiLineString':
+      return {
+        contains: false,
+        distance: Math.min(...(geometry.coordinates as number[][][]).map((line) => lineDistanceToOrigin(line.map(local)))),
+      };
+    case 'Polygon':
+      return relatePolygon((geometry.coordinates as number[][][]).map((ring) => ring.map(local)));
+    case 'MultiPolygon': {
+      const relations = (geometry.coordinates as number[][][][]).map((rings) =>
+        relatePolygon(rings.map((ring) => ring.map(local))),
+      );
+      const contains = relations.some((r) => r.contains);
+      return { contains, distance: contains ? 0 : Math.min(...relations.map((r) => r.distance)) };
+    }
+  }
+}
+
 // Douglas-Peucker simplification helpers
 
-// ~100m at Swedish latitudes in WGS84 degrees (1 degree lat ≈ 111km, 0.001° ≈ 111m)
-const WGS84_SIMPLIFICATION_TOLERANCE = 0.001;
+// Default Douglas-Peucker tolerance, in metres whatever the coordinate system
+const SIMPLIFICATION_TOLERANCE_M = 100;
+
+export interface SimplifyOptions {
+  /** Douglas-Peucker tolerance in metres (default: 100) */
+  toleranceM?: number;
+  /** Coordinate units: 'degrees' (CRS84 lon/lat, default) or 'metres' (SWEREF99 TM or a local zone) */
+  units?: 'degrees' | 'metres';
+}
 
 function perpendicularDist(point: number[], lineStart: number[], lineEnd: number[]): number {
   const [x, y] = point;
@@ -95,71 +831,76 @@ function perpendicularDist(point: number[], lineStart: number[], lineEnd: number
   return Math.abs((y2 - y1) * x - (x2 - x1) * y + x2 * y1 - y2 * x1) / Math.sqrt(lenSq);
 }
 
-function simplifyRing(coords: number[][], tolerance: number): number[][] {
+// unitScale converts coordinate units to metres, so the tolerance is metric in any CRS
+function simplifyRing(coords: number[][], tolerance: number, unitScale: [number, number]): number[][] {
   if (coords.length <= 2) return coords;
   let maxDist = 0;
   let maxIndex = 0;
+  const [sx, sy] = unitScale;
+  const scaled = (c: number[]) => [c[0] * sx, c[1] * sy];
   const first = coords[0];
   const last = coords[coords.length - 1];
   for (let i = 1; i < coords.length - 1; i++) {
-    const dist = perpendicularDist(coords[i], first, last);
+    const dist = perpendicularDist(scaled(coords[i]), scaled(first), scaled(last));
     if (dist > maxDist) {
       maxDist = dist;
       maxIndex = i;
     }
   }
   if (maxDist > tolerance) {
-    const left = simplifyRing(coords.slice(0, maxIndex + 1), tolerance);
-    const right = simplifyRing(coords.slice(maxIndex), tolerance);
+    const left = simplifyRing(coords.slice(0, maxIndex + 1), tolerance, unitScale);
+    const right = simplifyRing(coords.slice(maxIndex), tolerance, unitScale);
     return [...left.slice(0, -1), ...right];
   }
   return [first, last];
 }
 
-function truncateCoord(n: number): number {
-  return Math.round(n * 1e6) / 1e6;
+// Output precision: 6 decimals in degrees (~0.1 m), 2 in metres
+function truncateCoord(n: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.round(n * f) / f;
+}
+
+function truncateCoords(coords: number[][], decimals: number): number[][] {
+  return coords.map((c) => c.map((n) => truncateCoord(n, decimals)));
 }
 
-function truncateCoords(coords: number[][]): number[][] {
-  return coords.map((c) => c.map(truncateCoord));
+// Latitude of the first position, for the degrees → metres scale
+function firstLatitude(coordinates: GeoJsonGeometry['coordinates']): number {
+  let c: unknown = coordinates;
+  while (Array.isArray(c) && Array.isArray(c[0])) c = c[0];
+  return (c as number[])[1];
 }
 
 export function simplifyGeometry(
   geometry: GeoJsonGeometry,
   detail: GeometryDetail,
-  tolerance: number = WGS84_SIMPLIFICATION_TOLERANCE,
+  options: SimplifyOptions = {},
 ): GeoJsonGeometry | undefined {
   if (detail === 'none') return undefined;
 
+  const { toleranceM = SIMPLIFICATION_TOLERANCE_M, units = 'degrees' } = options;
+  const decimals = units === 'degrees' ? 6 : 2;
+  const unitScale: [number, number] = units === 'degrees' ? wgs84MetersPerDegree(firstLatitude(geometry.coordinates)) : [1, 1];
+  const processRing = (ring: number[][]) =>
+    truncateCoords(detail === 'simplified' ? simplifyRing(ring, toleranceM, unitScale) : ring, decimals);
+
   if (geometry.type === 'Point') {
     const coords = geometry.coordinates as number[];
-    return { type: 'Point', coordinates: coords.map(truncateCoord) };
+    return { type: 'Point', coordinates: coords.map((n) => truncateCoord(n, decimals)) };
   }
 
   if (geometry.type === 'LineString') {
-    const coords = geometry.coordinates as number[][];
-    const simplified = detail === 'simplified' ? simplifyRing(coords, tolerance) : coords;
-    return { type: 'LineString', coordinates: truncateCoords(simplified) };
+    return { type: 'LineString', coordinates: processRing(geometry.coordinates as number[][]) };
   }
 
   if (geometry.type === 'Polygon') {
-    const rings = geometry.coordinates as number[][][];
-    const processed = rings.map((ring) => {
-      const simplified = detail === 'simplified' ? simplifyRing(ring, tolerance) : ring;
-      return truncateCoords(simplified);
-    });
-    return { type: 'Polygon', coordinates: processed };
+    return { type: 'Polygon', coordinates: (geometry.coordinates as number[][][]).map(processRing) };
   }
 
   if (geometry.type === 'MultiPolygon') {
     const polygons = geometry.coordinates as number[][][][];
-    const processed = polygons.map((rings) =>
-      rings.map((ring) => {
-        const simplified = detail === 'simplified' ? simplifyRing(ring, tolerance) : ring;
-        return truncateCoords(simplified);
-      }),
-    );
-    return { type: 'MultiPolygon', coordinates: processed };
+    return { type: 'MultiPolygon', coordinates: polygons.map((rings) => rings.map(processRing)) };
   }
 
   // Fallback: return geometry unchanged for unhandled types
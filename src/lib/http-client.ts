@@ -1,5 +1,19 @@
 import https from 'node:https';
 import { UpstreamApiError } from './errors';
+import { getCacheStore, normalizeCacheKey } from './cache';
+import { collectDiagnostics, recordDiagnostic, recordDiagnostics, type Diagnostics } from './diagnostics';
+import { remainingTimeMs, runUntil, type Deadline } from './deadline';
+import { checkCircuit, recordFailure, recordSuccess } from './circuit-breaker';
+import { acquireSlot } from './concurrency';
+
+export interface RetryOptions {
+  /** Total attempts including the first (default: 3) */
+  maxAttempts?: number;
+  /** Backoff before the first retry; doubles per attempt (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff (default: 8000) */
+  maxDelayMs?: number;
+}
 
 interface HttpClientConfig {
   baseUrl: string;
@@ -7,6 +21,144 @@ interface HttpClientConfig {
   headers?: Record<string, string>;
   // WORKAROUND: api.sgu.se has intermittent SSL cert issues. Only enable for that host.
   skipSslVerification?: boolean;
+  /** Cache successful GET responses for this long (see CACHE_TTL). Omit to disable caching. */
+  cacheTtlMs?: number;
+  /** Retry transient failures of GET requests. Pass false to disable. */
+  retry?: RetryOptions | false;
+}
+
+// Gateway errors from GeoServer / the API proxy — 500 usually means a bad query and is not retried
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+// Don't start an attempt with less time than this left before the deadline
+const MIN_ATTEMPT_MS = 1000;
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST';
+  params?: Record<string, string | number | undefined>;
+  body?: unknown;
+  /** Set false to bypass the response cache (e.g. health probes) */
+  cache?: boolean;
+  /** Cache only bodies this accepts, e.g. not an error document served with HTTP 200 */
+  cacheable?: (body: unknown) => boolean;
+  /** Set false to make a single attempt */
+  retry?: boolean;
+  /** Per-request timeout in ms, overriding the client's */
+  timeout?: number;
+  /** 'binary' returns a BinaryBody (e.g. map images); default parses JSON or text by content type */
+  responseType?: 'auto' | 'binary';
+  /** Binary only: refuse a larger body with RESPONSE_TOO_LARGE, by Content-Length or while downloading */
+  maxBytes?: number;
+}
+
+/** Binary response body, base64-encoded so it can be cached and embedded in MCP image content */
+export interface BinaryBody {
+  data: string;
+  mimeType: string;
+  bytes: number;
+}
+
+/** Per-request overrides for callers that need fresh, fast answers (health probes) */
+export type RequestPolicy = Pick<RequestOptions, 'cache' | 'retry' | 'timeout'>;
+
+interface FailedAttempt {
+  message: string;
+  statusCode: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+  code?: string;
+}
+
+interface InFlightRequest {
+  result: Promise<{ outcome: PromiseSettledResult<unknown>; diagnostics: Diagnostics }>;
+  /** The latest deadline of the tool calls waiting for it */
+  deadline: Deadline;
+}
+
+// Identical GETs currently on the network, shared by every client in the instance
+const inFlight = new Map<string, InFlightRequest>();
+
+function deadlineError(upstream: string, attempts: number): UpstreamApiError {
+  return new UpstreamApiError(
+    'The tool call ran out of time while waiting for the data service. Try again or use a smaller search area.',
+    0,
+    upstream,
+    { attempts },
+    'DEADLINE_EXCEEDED',
+  );
+}
+
+// Reject once the current tool call's deadline passes, even if the promise is still pending
+async function beforeDeadline<T>(promise: Promise<T>, upstream: string): Promise<T> {
+  const remaining = remainingTimeMs();
+  if (!Number.isFinite(remaining)) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(deadlineError(upstream, 0)), Math.max(0, remaining));
+  });
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Cache failures (e.g. an unreachable Redis) must never fail the request itself
+async function readCache(key: string): Promise<unknown | undefined> {
+  try {
+    return await getCacheStore()?.get(key);
+  } catch (error) {
+    console.error('Cache read failed:', error);
+    return undefined;
+  }
+}
+
+async function writeCache(key: string, value: unknown, ttlMs: number): Promise<void> {
+  try {
+    await getCacheStore()?.set(key, value, ttlMs);
+  } catch (error) {
+    console.error('Cache write failed:', error);
+  }
+}
+
+// The body, or null as soon as it is known to exceed maxBytes — the rest is never downloaded
+async function readBodyUpTo(response: Response, maxBytes: number | undefined): Promise<Buffer | null> {
+  if (maxBytes === undefined || !response.body) return Buffer.from(await response.arrayBuffer());
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel();
+    return null;
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    bytes += value.length;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
 }
 
 // node:https GET with optional SSL bypass — used when skipSslVerification is true
@@ -22,7 +174,7 @@ function httpsGet(url: string, requestHeaders: Record<string, string>, timeoutMs
         const chunks: Buffer[] = [];
         res.on('data', (chunk) => chunks.push(chunk));
         res.on('end', () => {
-          const body = Buffer.concat(chunks).toString('utf-8');
+          const body = Buffer.concat(chunks);
           resolve(new Response(body, {
             status: res.statusCode ?? 0,
             statusText: res.statusMessage,
@@ -41,17 +193,106 @@ function httpsGet(url: string, requestHeaders: Record<string, string>, timeoutMs
 }
 
 export function createHttpClient(config: HttpClientConfig) {
-  const { baseUrl, timeout = 30000, headers = {}, skipSslVerification = false } = config;
-
-  async function request<T>(
-    path: string,
-    options: {
-      method?: 'GET' | 'POST';
-      params?: Record<string, string | number | undefined>;
-      body?: unknown;
-    } = {},
-  ): Promise<T> {
-    const { method = 'GET', params, body } = options;
+  const { baseUrl, timeout = 30000, headers = {}, skipSslVerification = false, cacheTtlMs, retry = {} } = config;
+
+  // One network attempt: the parsed body on success, a classified failure otherwise
+  async function attemptRequest(
+    url: URL,
+    method: 'GET' | 'POST',
+    requestHeaders: Record<string, string>,
+    body: unknown,
+    timeoutMs: number,
+    responseType: 'auto' | 'binary',
+    maxBytes: number | undefined,
+  ): Promise<{ ok: true; result: unknown } | { ok: false; failure: FailedAttempt }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    recordDiagnostic('upstream_requests');
+
+    try {
+      const response = skipSslVerification
+        ? await httpsGet(url.toString(), requestHeaders, timeoutMs)
+        : await fetch(url.toString(), {
+            method,
+            headers: requestHeaders,
+            body: body ? JSON.stringify(body) : undefined,
+            signal: controller.signal,
+          });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const message =
+          response.status >= 500
+            ? `The data service returned an error (HTTP ${response.status}). This is usually temporary — try again.`
+            : `The data service rejected the request (HTTP ${response.status}). The query parameters may be invalid.`;
+        return {
+          ok: false,
+          failure: {
+            message,
+            statusCode: response.status,
+            retryable: RETRYABLE_STATUS.has(response.status),
+            retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+          },
+        };
+      }
+
+      const contentType = response.headers.get('content-type');
+      if (responseType === 'binary') {
+        const buffer = await readBodyUpTo(response, maxBytes);
+        if (!buffer) {
+          // The same URL renders the same size: not worth a retry, and not the host's fault
+          return {
+            ok: false,
+            failure: {
+              message: `The response is larger than the ${Math.round(maxBytes! / 1024)} KB limit.`,
+              statusCode: response.status,
+              retryable: false,
+              code: 'RESPONSE_TOO_LARGE',
+            },
+          };
+        }
+        const binary: BinaryBody = {
+          data: buffer.toString('base64'),
+          mimeType: contentType?.split(';')[0].trim() || 'application/octet-stream',
+          bytes: buffer.length,
+        };
+        return { ok: true, result: binary };
+      }
+
+      // Handle text responses (like WKT or XML)
+      const isText =
+        contentType?.includes('text/plain') || contentType?.includes('text/xml') || contentType?.includes('application/xml');
+      return { ok: true, result: isText ? await response.text() : await response.json() };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && (error.name === 'AbortError' || error.message === 'AbortError')) {
+        return {
+          ok: false,
+          failure: {
+            message: 'The request timed out. The data service may be slow — try again or use a smaller search area.',
+            statusCode: 0,
+            retryable: true,
+          },
+        };
+      }
+
+      // Connection refused/reset, DNS failure, truncated body
+      return {
+        ok: false,
+        failure: {
+          message: 'Could not connect to the data service. This is usually temporary — try again.',
+          statusCode: 0,
+          retryable: true,
+        },
+      };
+    }
+  }
+
+  async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const { method = 'GET', params, body, cache: useCache = true, retry: useRetry = true, responseType = 'auto' } = options;
+    const requestTimeout = options.timeout ?? timeout;
 
     // Handle empty path case (common for WMS endpoints where all params are in query string)
     let urlString: string;
@@ -73,56 +314,103 @@ export function createHttpClient(config: HttpClientConfig) {
       });
     }
 
+    const cacheKey = method === 'GET' && useCache && cacheTtlMs && getCacheStore() ? normalizeCacheKey(url) : undefined;
+    if (cacheKey) {
+      const cached = await readCache(cacheKey);
+      if (cached !== undefined) {
+        recordDiagnostic('cache_hits');
+        return cached as T;
+      }
+      recordDiagnostic('cache_misses');
+    }
+
     const requestHeaders = { Accept: 'application/json, text/plain, */*', ...headers };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    // Only idempotent requests are safe to repeat
+    const { maxAttempts = 3, baseDelayMs = 500, maxDelayMs = 8000 } = retry || {};
+    const attemptLimit = method === 'GET' && useRetry && retry !== false ? maxAttempts : 1;
 
-    try {
-      const response = skipSslVerification
-        ? await httpsGet(url.toString(), requestHeaders, timeout)
-        : await fetch(url.toString(), {
-            method,
-            headers: requestHeaders,
-            body: body ? JSON.stringify(body) : undefined,
-            signal: controller.signal,
-          });
+    const send = async (): Promise<T> => {
+      for (let attempt = 1; ; attempt++) {
+        // Waits (at most until the deadline) while the host has its limit of requests in flight; retries queue again
+        const slot = await acquireSlot(url.host, remainingTimeMs() - MIN_ATTEMPT_MS);
+        if (slot?.queued) {
+          recordDiagnostic('queued_requests');
+          recordDiagnostic('queue_wait_ms', slot.waitedMs);
+        }
+        // Out of time before the request went out: not the host's fault, so the circuit is left alone
+        if (!slot || remainingTimeMs() < MIN_ATTEMPT_MS) {
+          slot?.release();
+          throw deadlineError(baseUrl, attempt - 1);
+        }
 
-      clearTimeout(timeoutId);
+        let outcome: Awaited<ReturnType<typeof attemptRequest>>;
+        try {
+          // Fails fast with UPSTREAM_UNAVAILABLE while the host's circuit is open
+          checkCircuit(url.host, baseUrl);
 
-      if (!response.ok) {
-        const msg =
-          response.status >= 500
-            ? `The data service returned an error (HTTP ${response.status}). This is usually temporary — try again.`
-            : `The data service rejected the request (HTTP ${response.status}). The query parameters may be invalid.`;
-        throw new UpstreamApiError(msg, response.status, baseUrl);
-      }
+          // Per-attempt timeout shrinks as the tool call's deadline approaches
+          outcome = await attemptRequest(
+            url,
+            method,
+            requestHeaders,
+            body,
+            Math.min(requestTimeout, remainingTimeMs()),
+            responseType,
+            options.maxBytes,
+          );
+        } finally {
+          slot.release();
+        }
 
-      // Handle text responses (like WKT or XML)
-      const contentType = response.headers.get('content-type');
-      if (
-        contentType?.includes('text/plain') ||
-        contentType?.includes('text/xml') ||
-        contentType?.includes('application/xml')
-      ) {
-        return (await response.text()) as T;
-      }
+        if (outcome.ok || !outcome.failure.retryable) {
+          recordSuccess(url.host);
+        } else {
+          recordFailure(url.host, outcome.failure.message);
+        }
 
-      return (await response.json()) as T;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof UpstreamApiError) throw error;
+        if (outcome.ok) {
+          if (cacheKey && (options.cacheable?.(outcome.result) ?? true)) {
+            await writeCache(cacheKey, outcome.result, cacheTtlMs!);
+          }
+          return outcome.result as T;
+        }
 
-      if (error instanceof Error && (error.name === 'AbortError' || error.message === 'AbortError')) {
-        throw new UpstreamApiError(
-          'The request timed out. The data service may be slow — try again or use a smaller search area.',
-          0,
-          baseUrl,
-        );
+        const { failure } = outcome;
+        const delay = failure.retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+        const outOfTime = delay + MIN_ATTEMPT_MS > remainingTimeMs();
+        if (!failure.retryable || attempt >= attemptLimit || outOfTime) {
+          throw new UpstreamApiError(failure.message, failure.statusCode, baseUrl, { attempts: attempt }, failure.code);
+        }
+
+        recordDiagnostic('retries');
+        await sleep(delay);
       }
+    };
 
-      throw new UpstreamApiError('Could not connect to the data service. This is usually temporary — try again.', 0, baseUrl);
+    // A GET already in flight for the same URL is shared instead of sent again (cache opt-outs always go out)
+    if (method !== 'GET' || !useCache) return send();
+    const flightKey = `${responseType} ${options.maxBytes ?? ''} ${normalizeCacheKey(url)}`;
+    const callerDeadline = Date.now() + remainingTimeMs();
+    let flight = inFlight.get(flightKey);
+    const coalesced = flight !== undefined;
+    if (flight) {
+      recordDiagnostic('coalesced_requests');
+      flight.deadline.at = Math.max(flight.deadline.at, callerDeadline);
+    } else {
+      // Detached from the caller: runs until the last waiter's deadline, with counters of its own
+      const deadline = { at: callerDeadline };
+      const result = runUntil(deadline, () => collectDiagnostics(send)).finally(() => inFlight.delete(flightKey));
+      flight = { result, deadline };
+      inFlight.set(flightKey, flight);
     }
+
+    // Each waiter gives up at its own deadline; the traffic counts once, for the call that started the request
+    const { outcome, diagnostics } = await beforeDeadline(flight.result, baseUrl);
+    if (!coalesced) recordDiagnostics(diagnostics);
+    if (outcome.status === 'rejected') throw outcome.reason;
+    // Waiters that joined get their own copy, so one caller's in-place transforms cannot reach another
+    return (coalesced ? structuredClone(outcome.value) : outcome.value) as T;
   }
 
   return { request };
@@ -0,0 +1,97 @@
+// Landslide screening: scars, fine-grained soil slope prerequisites and shore erosion around a site combined into one level
+
+import { byDistance, type NearbyLocation } from './nearby-search';
+
+export const screeningLayers = ['landslide_scars', 'slope_prerequisites', 'shore_erosion'] as const;
+export type ScreeningLayer = (typeof screeningLayers)[number];
+
+export type ScreeningLevel = 'high' | 'moderate' | 'low';
+
+export interface ScreeningFeature extends NearbyLocation {
+  /** Compass direction from the site to the feature's center, e.g. "NE" */
+  direction?: string;
+  bearing_deg?: number;
+  description?: string;
+}
+
+export interface LandslideScreening {
+  level: ScreeningLevel;
+  /** Findings behind the level: the nearest feature of each layer, scars first */
+  evidence: string[];
+  /** True when a layer could not be queried, so the level may be too low */
+  incomplete?: true;
+}
+
+// Features this close count as at the site
+const NEAR_M = 100;
+
+const LAYER_NAMES: Record<ScreeningLayer, string> = {
+  landslide_scars: 'Landslide scar',
+  slope_prerequisites: 'Area with prerequisites for slides in fine-grained soil',
+  shore_erosion: 'Shore erosion',
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export function compassDirection(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+function describeLocation(feature: ScreeningFeature): string {
+  if (feature.distance_m === 0) return 'at the site';
+  if (feature.distance_m === undefined) return `within ${feature.within_m} m`;
+  return `${feature.distance_m} m ${feature.direction ?? ''}`.trimEnd();
+}
+
+function nearest(features: ScreeningFeature[]): ScreeningFeature | undefined {
+  return [...features].sort(byDistance)[0];
+}
+
+function isNear(feature: ScreeningFeature | undefined): boolean {
+  return feature?.distance_m !== undefined && feature.distance_m <= NEAR_M;
+}
+
+/**
+ * Qualitative screening level from the features found within the radius. A layer missing from `found`
+ * could not be queried. high = a scar at the site, or slope prerequisites at the site and a scar in the radius;
+ * moderate = a scar further away, or prerequisites or shore erosion at the site; low = none of these.
+ * A screening, not a stability assessment.
+ */
+export function screenLandslideRisk(found: Partial<Record<ScreeningLayer, ScreeningFeature[]>>): LandslideScreening {
+  const scars = found.landslide_scars ?? [];
+  const prerequisites = found.slope_prerequisites ?? [];
+  const erosion = found.shore_erosion ?? [];
+  const nearestScar = nearest(scars);
+  const nearestPrerequisite = nearest(prerequisites);
+  const nearestErosion = nearest(erosion);
+
+  let level: ScreeningLevel = 'low';
+  if (isNear(nearestScar) || (isNear(nearestPrerequisite) && nearestScar)) {
+    level = 'high';
+  } else if (nearestScar || isNear(nearestPrerequisite) || isNear(nearestErosion)) {
+    level = 'moderate';
+  }
+
+  const evidence: string[] = [];
+  const layers: [ScreeningLayer, ScreeningFeature[], ScreeningFeature | undefined][] = [
+    ['landslide_scars', scars, nearestScar],
+    ['slope_prerequisites', prerequisites, nearestPrerequisite],
+    ['shore_erosion', erosion, nearestErosion],
+  ];
+  for (const [layer, features, first] of layers) {
+    if (!first) continue;
+    const others = features.length > 1 ? ` (${features.length} in total)` : '';
+    const description = first.description ? `: ${first.description}` : '';
+    evidence.push(`${LAYER_NAMES[layer]} ${describeLocation(first)}${others}${description}`);
+  }
+
+  const missing = screeningLayers.filter((layer) => !(layer in found));
+  for (const layer of missing) {
+    evidence.push(`${LAYER_NAMES[layer]} layer could not be checked`);
+  }
+  if (evidence.length === 0) {
+    evidence.push('No landslide scars, slope prerequisites or shore erosion found within the radius');
+  }
+
+  return { level, evidence, ...(missing.length > 0 && { incomplete: true as const }) };
+}
@@ -0,0 +1,45 @@
+import sharp from 'sharp';
+import type { BinaryBody } from './http-client';
+
+export interface CompositeLayer {
+  image: BinaryBody;
+  /** 0–1, multiplied into the layer's alpha channel */
+  opacity: number;
+}
+
+// Scale a layer's alpha by opacity: dest-in keeps the layer where the overlay is opaque, weighted by its alpha
+async function applyOpacity(image: Buffer, opacity: number, width: number, height: number): Promise<Buffer> {
+  const layer = sharp(image).resize(width, height, { fit: 'fill' }).ensureAlpha();
+  if (opacity >= 1) return layer.png().toBuffer();
+  return layer
+    .composite([
+      {
+        input: { create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: opacity } } },
+        blend: 'dest-in',
+      },
+    ])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Draw map images on top of each other (first = bottom) into one image of the given size.
+ * JPEG output is flattened onto white since it has no transparency.
+ */
+export async function compositeMapImages(
+  layers: CompositeLayer[],
+  width: number,
+  height: number,
+  format: 'png' | 'jpeg',
+): Promise<BinaryBody> {
+  const inputs = await Promise.all(
+    layers.map(({ image, opacity }) => applyOpacity(Buffer.from(image.data, 'base64'), opacity, width, height)),
+  );
+
+  const canvas = sharp({
+    create: { width, height, channels: 4, background: { r: 255, g: 255, b: 255, alpha: format === 'jpeg' ? 1 : 0 } },
+  }).composite(inputs.map((input) => ({ input, blend: 'over' as const })));
+
+  const output = format === 'jpeg' ? await canvas.flatten().jpeg().toBuffer() : await canvas.png().toBuffer();
+  return { data: output.toString('base64'), mimeType: `image/${format}`, bytes: output.length };
+}
@@ -0,0 +1,76 @@
+// Radius searches over several SGU layers around a site (sgu_nearest_deposits, sgu_landslide_screening)
+
+import { relatePointToGeometry, type Point } from './geometry-utils';
+import type { NearbyFeature } from '@/clients/sgu-client';
+
+export type NearbySearch<TInfo> = (
+  point: Point,
+  radiusMeters: number,
+) => Promise<{ features: NearbyFeature<TInfo>[]; truncated: boolean }>;
+
+export interface NearbyLocation {
+  /** Distance in meters from the site to the feature outline (0 = the site is inside) */
+  distance_m?: number;
+  /** Set instead of distance_m when the service returned no geometry */
+  within_m?: number;
+}
+
+export interface LayerSearchResult<TKey extends string, TInfo> {
+  /** Features per layer that answered */
+  found: Partial<Record<TKey, NearbyFeature<TInfo>[]>>;
+  /** Layers with more features than one query returns */
+  truncated: TKey[];
+  failures: Partial<Record<TKey, unknown>>;
+}
+
+/** Search every layer within radiusMeters of the point; a failing layer goes to `failures`, the others still answer */
+export async function searchLayers<TKey extends string, TInfo>(
+  searches: Record<TKey, NearbySearch<TInfo>>,
+  layers: readonly TKey[],
+  point: Point,
+  radiusMeters: number,
+): Promise<LayerSearchResult<TKey, TInfo>> {
+  const settled = await Promise.allSettled(layers.map((layer) => searches[layer](point, radiusMeters)));
+  const result: LayerSearchResult<TKey, TInfo> = { found: {}, truncated: [], failures: {} };
+  settled.forEach((outcome, i) => {
+    const layer = layers[i];
+    if (outcome.status === 'rejected') {
+      result.failures[layer] = outcome.reason;
+      return;
+    }
+    if (outcome.value.truncated) result.truncated.push(layer);
+    result.found[layer] = outcome.value.features;
+  });
+  return result;
+}
+
+/** Distance from the site to the feature, or the search radius when it has no geometry */
+export function locateFeature<TInfo>(feature: NearbyFeature<TInfo>, point: Point, radiusM: number): NearbyLocation {
+  return feature.geometry
+    ? { distance_m: Math.round(relatePointToGeometry(feature.geometry, [point.x, point.y]).distance) }
+    : { within_m: radiusM };
+}
+
+/** The query covers a square around the site: drop its corners beyond the radius */
+export function withinRadius(location: NearbyLocation, radiusM: number): boolean {
+  return location.distance_m === undefined || location.distance_m <= radiusM;
+}
+
+// Features with a known distance first, nearest first
+export function byDistance(a: NearbyLocation, b: NearbyLocation): number {
+  return (a.distance_m ?? Infinity) - (b.distance_m ?? Infinity);
+}
+
+/** Nothing to report if every layer failed — surface the upstream error itself */
+export function throwIfAllFailed<TKey extends string>(layers: readonly TKey[], failures: Partial<Record<TKey, unknown>>) {
+  if (layers.every((layer) => layer in failures)) {
+    throw failures[layers[0]];
+  }
+}
+
+/** Error message per failed layer, for the response's `errors` field (undefined when none failed) */
+export function failureMessages(failures: Partial<Record<string, unknown>>): Record<string, string> | undefined {
+  const failed = Object.entries(failures);
+  if (failed.length === 0) return undefined;
+  return Object.fromEntries(failed.map(([layer, error]) => [layer, error instanceof Error ? error.message : String(error)]));
+}
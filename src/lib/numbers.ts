@@ -0,0 +1,7 @@
+// Number formatting shared by the tool responses
+
+/** Round to a fixed number of decimals, e.g. roundTo(59.3293235, 6) for coordinates in degrees */
+export function roundTo(n: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.round(n * f) / f;
+}
@@ -1,4 +1,4 @@
-import { createHttpClient } from './http-client';
+import { createHttpClient, type RequestPolicy } from './http-client';
 import { UpstreamApiError } from './errors';
 import { BoundingBox, bboxToString } from './geometry-utils';
 import { CRS_SWEREF99TM } from './coordinates';
@@ -14,6 +14,8 @@ interface OgcFeaturesResponse<T> {
 interface OgcClientConfig {
   baseUrl: string;
   timeout?: number;
+  /** Response cache TTL in ms (see CACHE_TTL). Omit to disable caching. */
+  cacheTtlMs?: number;
 }
 
 interface QueryOptions {
@@ -28,10 +30,40 @@ interface QueryOptions {
   crs?: string;
 }
 
+interface PageOptions extends Omit<QueryOptions, 'limit' | 'offset'> {
+  /** Features requested per page (default: 100) */
+  pageSize?: number;
+  /** Hard cap on features fetched across all pages (default: 100) */
+  maxFeatures?: number;
+  /** Hard cap on page requests, independent of maxFeatures (default: 10) */
+  maxPages?: number;
+}
+
+export interface OgcPage<T> {
+  features: T[];
+  numberMatched?: number;
+  /** Absolute URL of the next page (rel=next link), if the server provided one */
+  nextHref?: string;
+}
+
+export interface PagedItems<T> {
+  features: T[];
+  /** Total matches reported by the server (undefined if the server did not say) */
+  numberMatched?: number;
+  numberReturned: number;
+  /** True when more features matched than were fetched (cap reached) */
+  truncated: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_FEATURES = 100;
+const DEFAULT_MAX_PAGES = 10;
+
 export function createOgcClient(config: OgcClientConfig) {
   const client = createHttpClient({
     baseUrl: config.baseUrl,
     timeout: config.timeout ?? 30000,
+    cacheTtlMs: config.cacheTtlMs,
     headers: {
       Accept: 'application/geo+json, application/json',
     },
@@ -39,11 +71,29 @@ export function createOgcClient(config: OgcClientConfig) {
     skipSslVerification: config.baseUrl.includes('api.sgu.se'),
   });
 
+  function toOgcPage<T>(response: OgcFeaturesResponse<T>): OgcPage<T> {
+    const next = response.links?.find((link) => link.rel === 'next')?.href;
+    return { features: response.features ?? [], numberMatched: response.numberMatched, nextHref: next };
+  }
+
+  async function requestPage<T>(path: string, params?: Record<string, string | number | undefined>): Promise<OgcPage<T>> {
+    try {
+      const response = await client.request<OgcFeaturesResponse<T>>(path, { params });
+      return toOgcPage(response);
+    } catch (error) {
+      if (error instanceof UpstreamApiError) {
+        throw error;
+      }
+      throw new UpstreamApiError(
+        'Failed to fetch features for this area. The data service may be temporarily unavailable — try again.',
+        0,
+        config.baseUrl,
+      );
+    }
+  }
+
   // Supports bbox or polygon WKT filter (polygon takes precedence)
-  async function getItemsWithCount<T>(
-    collection: string,
-    options: QueryOptions = {},
-  ): Promise<{ features: T[]; numberMatched?: number }> {
+  async function getItemsWithCount<T>(collection: string, options: QueryOptions = {}): Promise<OgcPage<T>> {
     const { bbox, polygonWkt, filterCrs, limit = 100, offset, crs } = options;
 
     const params: Record<string, string | number | undefined> = { limit, offset };
@@ -63,33 +113,87 @@ export function createOgcClient(config: OgcClientConfig) {
       params.bbox = bboxToString(bbox);
     }
 
+    return requestPage<T>(`collections/${collection}/items`, params);
+  }
+
+  // Only follow next links on our own host — anything else falls back to offset paging
+  function isOwnUrl(href: string): boolean {
     try {
-      const response = await client.request<OgcFeaturesResponse<T>>(
-        `collections/${collection}/items`,
-        { params },
-      );
-      return { features: response.features, numberMatched: response.numberMatched };
-    } catch (error) {
-      if (error instanceof UpstreamApiError) {
-        throw error;
+      return new URL(href).origin === new URL(config.baseUrl).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Page through a collection: follows rel=next links when present, otherwise advances by offset.
+   * Stops at maxFeatures / maxPages, on an empty or short page, or once numberMatched is reached.
+   */
+  async function* iterateItems<T>(collection: string, options: PageOptions = {}): AsyncGenerator<OgcPage<T>> {
+    const {
+      pageSize = DEFAULT_PAGE_SIZE,
+      maxFeatures = DEFAULT_MAX_FEATURES,
+      maxPages = DEFAULT_MAX_PAGES,
+      ...query
+    } = options;
+
+    let fetched = 0;
+    let nextHref: string | undefined;
+
+    for (let pageIndex = 0; pageIndex < maxPages && fetched < maxFeatures; pageIndex++) {
+      const pageLimit = Math.min(pageSize, maxFeatures - fetched);
+      const page = nextHref
+        ? await requestPage<T>(nextHref)
+        : await getItemsWithCount<T>(collection, { ...query, limit: pageLimit, offset: fetched || undefined });
+
+      yield page;
+
+      fetched += page.features.length;
+      if (page.features.length === 0) return;
+      if (page.numberMatched !== undefined && fetched >= page.numberMatched) return;
+
+      if (page.nextHref && isOwnUrl(page.nextHref)) {
+        nextHref = page.nextHref;
+      } else {
+        // No usable next link: a short page means we have everything
+        if (page.features.length < pageLimit) return;
+        nextHref = undefined;
       }
-      throw new UpstreamApiError(
-        'Failed to fetch features for this area. The data service may be temporarily unavailable — try again.',
-        0,
-        config.baseUrl,
-      );
     }
   }
 
+  async function getAllItems<T>(collection: string, options: PageOptions = {}): Promise<PagedItems<T>> {
+    const maxFeatures = options.maxFeatures ?? DEFAULT_MAX_FEATURES;
+    const features: T[] = [];
+    let numberMatched: number | undefined;
+    let lastPage: OgcPage<T> | undefined;
+
+    for await (const page of iterateItems<T>(collection, { ...options, maxFeatures })) {
+      features.push(...page.features);
+      numberMatched = page.numberMatched ?? numberMatched;
+      lastPage = page;
+    }
+
+    // Next links carry their own page size, so the last page can overshoot the cap
+    const returned = features.slice(0, maxFeatures);
+    // Without numberMatched, hitting the cap or a dangling next link means there may be more
+    const truncated =
+      numberMatched !== undefined
+        ? numberMatched > returned.length
+        : features.length >= maxFeatures || Boolean(lastPage?.nextHref);
+
+    return { features: returned, numberMatched, numberReturned: returned.length, truncated };
+  }
+
   async function getItems<T>(collection: string, options: QueryOptions = {}): Promise<T[]> {
     const result = await getItemsWithCount<T>(collection, options);
     return result.features;
   }
 
-  async function getCollections(): Promise<{ id: string; title: string; description?: string }[]> {
+  async function getCollections(policy: RequestPolicy = {}): Promise<{ id: string; title: string; description?: string }[]> {
     const response = await client.request<{
       collections: Array<{ id: string; title: string; description?: string }>;
-    }>('collections');
+    }>('collections', policy);
     return response.collections;
   }
 
@@ -100,6 +204,8 @@ export function createOgcClient(config: OgcClientConfig) {
   return {
     getItems,
     getItemsWithCount,
+    iterateItems,
+    getAllItems,
     getCollections,
     getFeature,
   };
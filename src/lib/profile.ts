@@ -0,0 +1,101 @@
+// Chainage (km+m along an alignment) formatting and station → segment merging for sgu_profile
+
+export interface ProfileStation {
+  chainage: string; // e.g. "2+300"
+  chainage_m: number;
+  latitude: number;
+  longitude: number;
+  soil_type?: string;
+  bedrock?: string;
+  soil_depth_m?: number;
+  groundwater_vulnerability?: string;
+  landslide?: string;
+}
+
+export interface ProfileSegment {
+  from: string;
+  to: string;
+  from_m: number;
+  to_m: number;
+  station_count: number;
+  soil_type?: string;
+  bedrock?: string;
+  soil_depth_m?: { min: number; max: number };
+  groundwater_vulnerability?: string;
+  landslide?: string;
+  summary: string;
+}
+
+// 2300.4 -> "2+300", 15 -> "0+015"
+export function formatChainage(meters: number): string {
+  const rounded = Math.round(meters);
+  const km = Math.floor(rounded / 1000);
+  const m = rounded - km * 1000;
+  return `${km}+${String(m).padStart(3, '0')}`;
+}
+
+// Soil depth is a range within a segment, so it is not part of the identity
+function conditionsKey(station: ProfileStation): string {
+  return JSON.stringify([station.soil_type, station.bedrock, station.groundwater_vulnerability, station.landslide]);
+}
+
+function describeSegment(segment: Omit<ProfileSegment, 'summary'>): string {
+  const range = segment.from === segment.to ? `km ${segment.from}` : `km ${segment.from}–${segment.to}`;
+
+  const soil = segment.soil_type?.toLowerCase();
+  const rock = segment.bedrock?.toLowerCase();
+  const parts: string[] = [];
+  if (soil && rock) parts.push(`${soil} over ${rock}`);
+  else if (soil) parts.push(soil);
+  else if (rock) parts.push(`bedrock ${rock}`);
+  else parts.push('no mapped soil or bedrock');
+
+  if (segment.soil_depth_m) {
+    const { min, max } = segment.soil_depth_m;
+    parts.push(min === max ? `${min} m to rock` : `${min}–${max} m to rock`);
+  }
+  if (segment.groundwater_vulnerability) {
+    parts.push(`${segment.groundwater_vulnerability} groundwater vulnerability`);
+  }
+  if (segment.landslide) {
+    parts.push(`landslide scar nearby (${segment.landslide})`);
+  }
+
+  return `${range}: ${parts.join(', ')}`;
+}
+
+/**
+ * Merge consecutive stations with identical conditions (soil, bedrock, vulnerability, landslide)
+ * into segments. Stations must be ordered by chainage.
+ */
+export function mergeStations(stations: ProfileStation[]): ProfileSegment[] {
+  const groups: ProfileStation[][] = [];
+  for (const station of stations) {
+    const current = groups[groups.length - 1];
+    if (current && conditionsKey(current[0]) === conditionsKey(station)) {
+      current.push(station);
+    } else {
+      groups.push([station]);
+    }
+  }
+
+  return groups.map((group) => {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const depths = group.map((s) => s.soil_depth_m).filter((d): d is number => d !== undefined);
+
+    const segment: Omit<ProfileSegment, 'summary'> = {
+      from: first.chainage,
+      to: last.chainage,
+      from_m: first.chainage_m,
+      to_m: last.chainage_m,
+      station_count: group.length,
+      soil_type: first.soil_type,
+      bedrock: first.bedrock,
+      soil_depth_m: depths.length > 0 ? { min: Math.min(...depths), max: Math.max(...depths) } : undefined,
+      groundwater_vulnerability: first.groundwater_vulnerability,
+      landslide: first.landslide,
+    };
+    return { ...segment, summary: describeSegment(segment) };
+  });
+}
@@ -1,4 +1,6 @@
 import type { McpToolError } from './errors';
+import { hasDiagnostics, runWithDiagnostics, type Diagnostics } from './diagnostics';
+import { runWithDeadline } from './deadline';
 
 const INTERNAL_DETAIL_KEYS = new Set(['statusCode', 'upstream']);
 
@@ -18,19 +20,35 @@ type TextContent = {
   text: string;
 };
 
+export type ImageContent = {
+  type: 'image';
+  data: string; // base64
+  mimeType: string;
+};
+
 interface ToolResponse {
   [key: string]: unknown;
-  content: TextContent[];
+  // JSON data always comes first; images (if any) follow
+  content: [TextContent, ...ImageContent[]];
   isError?: boolean;
 }
 
-export function successResponse(data: unknown): ToolResponse {
+/** Handler result with image content blocks to send alongside the JSON data */
+export class ResultWithImages {
+  constructor(
+    public readonly data: unknown,
+    public readonly images: ImageContent[],
+  ) {}
+}
+
+export function successResponse(data: unknown, images: ImageContent[] = []): ToolResponse {
   return {
     content: [
       {
         type: 'text',
         text: JSON.stringify(data, null, 2),
       },
+      ...images,
     ],
   };
 }
@@ -55,11 +73,20 @@ export function errorResponse(error: McpToolError | Error): ToolResponse {
   };
 }
 
+// Object results get a diagnostics section (cache hits/misses etc.) when upstream services were involved
+function withDiagnostics(result: unknown, diagnostics: Diagnostics): unknown {
+  const isPlainObject = typeof result === 'object' && result !== null && !Array.isArray(result);
+  return isPlainObject && hasDiagnostics(diagnostics) ? { ...result, diagnostics } : result;
+}
+
 export function withErrorHandling<T, R>(handler: (args: T) => Promise<R>): (args: T) => Promise<ToolResponse> {
   return async (args: T) => {
     try {
-      const result = await handler(args);
-      return successResponse(result);
+      const { result, diagnostics } = await runWithDeadline(() => runWithDiagnostics(() => handler(args)));
+      if (result instanceof ResultWithImages) {
+        return successResponse(withDiagnostics(result.data, diagnostics), result.images);
+      }
+      return successResponse(withDiagnostics(result, diagnostics));
     } catch (error) {
       console.error('Tool execution error:', error);
       return errorResponse(error instanceof Error ? error : new Error(String(error)));
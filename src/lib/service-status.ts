@@ -0,0 +1,46 @@
+import { McpToolError, UpstreamApiError } from './errors';
+import type { RequestPolicy } from './http-client';
+
+/** An upstream endpoint and a cheap request that proves it is answering */
+export interface ServiceDefinition {
+  /** e.g. "ogc:brunnar", "wms:jord" */
+  name: string;
+  url: string;
+  /** sgu_query data types served by this endpoint */
+  dataTypes: string[];
+  /** sgu_get_map layers served by this endpoint */
+  mapLayers: string[];
+  probe: (policy: RequestPolicy) => Promise<unknown>;
+}
+
+export interface ServiceStatus {
+  name: string;
+  url: string;
+  up: boolean;
+  latency_ms: number;
+  /** Status of a failed probe, when the service answered at all */
+  http_status?: number;
+  error?: string;
+  error_code?: string;
+}
+
+// Fresh, single-attempt, short timeout — a probe must not hide an outage behind the cache or retries
+const PROBE_POLICY: RequestPolicy = { cache: false, retry: false, timeout: 10000 };
+
+export async function probeService(service: ServiceDefinition): Promise<ServiceStatus> {
+  const start = Date.now();
+  try {
+    await service.probe(PROBE_POLICY);
+    return { name: service.name, url: service.url, up: true, latency_ms: Date.now() - start };
+  } catch (error) {
+    return {
+      name: service.name,
+      url: service.url,
+      up: false,
+      latency_ms: Date.now() - start,
+      ...(error instanceof UpstreamApiError && error.statusCode > 0 && { http_status: error.statusCode }),
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof McpToolError && { error_code: error.code }),
+    };
+  }
+}
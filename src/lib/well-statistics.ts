@@ -0,0 +1,131 @@
+// Distribution of well depths, capacities and groundwater levels around a site (brunnar, sgu_query wells)
+
+import { roundTo } from './numbers';
+import type { WellFeature } from '@/types/features';
+
+export const wellStatisticFields = ['total_depth_m', 'soil_depth_m', 'water_capacity_ls', 'groundwater_level_m'] as const;
+export type WellStatisticField = (typeof wellStatisticFields)[number];
+
+export interface FieldStatistics {
+  /** Wells with a usable value */
+  count: number;
+  /** Wells without a value, or with an impossible one */
+  missing: number;
+  min: number;
+  /** Only with 10+ values */
+  p10?: number;
+  p25: number;
+  median: number;
+  p75: number;
+  /** Only with 10+ values */
+  p90?: number;
+  max: number;
+  /** Values outside the Tukey fences (1.5 × IQR beyond the quartiles), kept in the percentiles */
+  outliers?: { well_id: number; value: number }[];
+}
+
+export interface WellGroupStatistics {
+  well_count: number;
+  total_depth_m?: FieldStatistics;
+  soil_depth_m?: FieldStatistics;
+  water_capacity_ls?: FieldStatistics;
+  groundwater_level_m?: FieldStatistics;
+}
+
+export interface WellStatistics extends WellGroupStatistics {
+  by_usage: Record<string, WellGroupStatistics>;
+  /** True when the well list was truncated by the limit, so the statistics cover a subset */
+  incomplete?: true;
+}
+
+const UNKNOWN_USAGE = 'unknown';
+const MIN_VALUES_FOR_DECILES = 10;
+
+// The archive stores 0 for unknown depths; a capacity or level of 0 is a real measurement
+const ZERO_MEANS_MISSING: Record<WellStatisticField, boolean> = {
+  total_depth_m: true,
+  soil_depth_m: false,
+  water_capacity_ls: false,
+  groundwater_level_m: false,
+};
+
+// Levels are metres below ground: a negative level is an artesian well or water standing above the reference
+const NEGATIVE_ALLOWED: Record<WellStatisticField, boolean> = {
+  total_depth_m: false,
+  soil_depth_m: false,
+  water_capacity_ls: false,
+  groundwater_level_m: true,
+};
+
+// Linear interpolation between closest ranks; sorted must be ascending and non-empty
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return roundTo(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower), 2);
+}
+
+function usableValue(well: WellFeature, field: WellStatisticField): number | undefined {
+  const value = well[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  if (value < 0 && !NEGATIVE_ALLOWED[field]) return undefined;
+  if (value === 0 && ZERO_MEANS_MISSING[field]) return undefined;
+  return value;
+}
+
+function fieldStatistics(wells: WellFeature[], field: WellStatisticField): FieldStatistics | undefined {
+  const values = wells.flatMap((well) => {
+    const value = usableValue(well, field);
+    return value === undefined ? [] : [{ well_id: well.well_id, value }];
+  });
+  if (values.length === 0) return undefined;
+
+  const sorted = values.map((v) => v.value).sort((a, b) => a - b);
+  const p25 = percentile(sorted, 25);
+  const p75 = percentile(sorted, 75);
+  const fence = 1.5 * (p75 - p25);
+  const outliers = values.filter((v) => v.value < p25 - fence || v.value > p75 + fence);
+  const deciles = sorted.length >= MIN_VALUES_FOR_DECILES;
+
+  return {
+    count: sorted.length,
+    missing: wells.length - sorted.length,
+    min: sorted[0],
+    ...(deciles && { p10: percentile(sorted, 10) }),
+    p25,
+    median: percentile(sorted, 50),
+    p75,
+    ...(deciles && { p90: percentile(sorted, 90) }),
+    max: sorted[sorted.length - 1],
+    ...(outliers.length > 0 && { outliers }),
+  };
+}
+
+function groupStatistics(wells: WellFeature[]): WellGroupStatistics {
+  const statistics: WellGroupStatistics = { well_count: wells.length };
+  for (const field of wellStatisticFields) {
+    const stats = fieldStatistics(wells, field);
+    if (stats) statistics[field] = stats;
+  }
+  return statistics;
+}
+
+/**
+ * Median, quartiles and (with enough wells) deciles of depth, soil depth, capacity and groundwater
+ * level, overall and per usage (largest group first).
+ */
+export function summarizeWells(wells: WellFeature[], truncated: boolean): WellStatistics {
+  const byUsage = new Map<string, WellFeature[]>();
+  for (const well of wells) {
+    const usage = well.usage?.trim() || UNKNOWN_USAGE;
+    byUsage.set(usage, [...(byUsage.get(usage) ?? []), well]);
+  }
+
+  return {
+    ...groupStatistics(wells),
+    by_usage: Object.fromEntries(
+      [...byUsage.entries()].sort((a, b) => b[1].length - a[1].length).map(([usage, group]) => [usage, groupStatistics(group)]),
+    ),
+    ...(truncated && { incomplete: true as const }),
+  };
+}
@@ -1,4 +1,4 @@
-import { createHttpClient } from './http-client';
+import { createHttpClient, type RequestPolicy } from './http-client';
 import { UpstreamApiError } from './errors';
 import { BoundingBox } from './geometry-utils';
 import { CRS_SWEREF99TM } from './coordinates';
@@ -6,6 +6,10 @@ import { CRS_SWEREF99TM } from './coordinates';
 interface WmsClientConfig {
   baseUrl: string;
   timeout?: number;
+  /** Response cache TTL in ms (see CACHE_TTL). Omit to disable caching. */
+  cacheTtlMs?: number;
+  /** WMS version the service speaks (default: 1.3.0). The legacy resource.sgu.se services need 1.1.1. */
+  version?: '1.3.0' | '1.1.1';
 }
 
 interface GetMapOptions {
@@ -27,13 +31,37 @@ interface GetFeatureInfoOptions {
   y: number; // Pixel Y coordinate
   infoFormat?: string;
   crs?: string;
+  /** Max features returned (FEATURE_COUNT, server default 1) */
+  featureCount?: number;
+  /** Search tolerance in pixels around x/y (GeoServer vendor BUFFER parameter) */
+  buffer?: number;
+}
+
+// Text bodies are JSON labelled as text/plain, or a ServiceException that must not be cached as data
+function isFeatureData(body: unknown): boolean {
+  if (typeof body !== 'string') return true;
+  try {
+    JSON.parse(body);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 export function createWmsClient(config: WmsClientConfig) {
   const client = createHttpClient({
     baseUrl: config.baseUrl,
     timeout: config.timeout ?? 30000,
+    cacheTtlMs: config.cacheTtlMs,
   });
+  const version = config.version ?? '1.3.0';
+
+  // WMS 1.3.0 uses CRS and the CRS axis order (Y,X for EPSG:3006); 1.1.1 uses SRS and always X,Y
+  function spatialParams(bbox: BoundingBox, crs: string): Record<string, string> {
+    return version === '1.3.0'
+      ? { CRS: crs, BBOX: `${bbox.minY},${bbox.minX},${bbox.maxY},${bbox.maxX}` }
+      : { SRS: crs, BBOX: `${bbox.minX},${bbox.minY},${bbox.maxX},${bbox.maxY}` };
+  }
 
   function getMapUrl(options: GetMapOptions): string {
     const { layers, bbox, width = 800, height = 600, format = 'image/png', crs = CRS_SWEREF99TM, transparent = true } =
@@ -41,46 +69,72 @@ export function createWmsClient(config: WmsClientConfig) {
 
     const params = new URLSearchParams({
       SERVICE: 'WMS',
-      VERSION: '1.3.0',
+      VERSION: version,
       REQUEST: 'GetMap',
       LAYERS: layers.join(','),
       WIDTH: String(width),
       HEIGHT: String(height),
       FORMAT: format,
       TRANSPARENT: String(transparent),
+      ...spatialParams(bbox, crs),
     });
 
-    params.set('CRS', crs);
-    // WMS 1.3.0 axis order for EPSG:3006 (Y,X order per CRS definition)
-    params.set('BBOX', `${bbox.minY},${bbox.minX},${bbox.maxY},${bbox.maxX}`);
-
     const baseUrl = config.baseUrl.endsWith('?') ? config.baseUrl.slice(0, -1) : config.baseUrl;
     return `${baseUrl}?${params.toString()}`;
   }
 
   async function getFeatureInfo<T>(options: GetFeatureInfoOptions): Promise<T> {
-    const { layers, bbox, width, height, x, y, infoFormat = 'application/json', crs = CRS_SWEREF99TM } = options;
+    const {
+      layers,
+      bbox,
+      width,
+      height,
+      x,
+      y,
+      infoFormat = 'application/json',
+      crs = CRS_SWEREF99TM,
+      featureCount,
+      buffer,
+    } = options;
 
     const params: Record<string, string | number> = {
       SERVICE: 'WMS',
-      VERSION: '1.3.0',
+      VERSION: version,
       REQUEST: 'GetFeatureInfo',
       LAYERS: layers.join(','),
       QUERY_LAYERS: layers.join(','),
       WIDTH: width,
       HEIGHT: height,
       INFO_FORMAT: infoFormat,
+      ...spatialParams(bbox, crs),
     };
 
-    params.CRS = crs;
-    // WMS 1.3.0 axis order for EPSG:3006
-    params.BBOX = `${bbox.minY},${bbox.minX},${bbox.maxY},${bbox.maxX}`;
-    params.I = x;
-    params.J = y;
+    // Pixel position: I/J in 1.3.0, X/Y in 1.1.1
+    if (version === '1.3.0') {
+      params.I = x;
+      params.J = y;
+    } else {
+      params.X = x;
+      params.Y = y;
+    }
+    if (featureCount !== undefined) params.FEATURE_COUNT = featureCount;
+    if (buffer !== undefined) params.BUFFER = buffer;
 
     try {
-      const response = await client.request<T>('', { params });
-      return response;
+      const response = await client.request<T | string>('', { params, cacheable: isFeatureData });
+      if (typeof response !== 'string') {
+        return response;
+      }
+      // Legacy servers label JSON as text/plain, and report errors as HTTP 200 ServiceException XML
+      try {
+        return JSON.parse(response) as T;
+      } catch {
+        throw new UpstreamApiError(
+          'The data service returned an unexpected response instead of feature data. It may not support this query.',
+          200,
+          config.baseUrl,
+        );
+      }
     } catch (error) {
       if (error instanceof UpstreamApiError) {
         throw error;
@@ -93,8 +147,17 @@ export function createWmsClient(config: WmsClientConfig) {
     }
   }
 
+  // Service metadata (XML) — sgu_status uses it as a liveness probe
+  async function getCapabilities(policy: RequestPolicy = {}): Promise<string> {
+    return client.request<string>('', {
+      params: { SERVICE: 'WMS', VERSION: version, REQUEST: 'GetCapabilities' },
+      ...policy,
+    });
+  }
+
   return {
     getMapUrl,
     getFeatureInfo,
+    getCapabilities,
   };
 }
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/clients/sgu-client', () => ({
+  sguClient: {
+    getBedrockMapUrl: vi.fn(() => ({
+      map_url: 'https://maps3.sgu.se/geoserver/berg/ows?REQUEST=GetMap',
+      legend_url: 'https://maps3.sgu.se/geoserver/berg/ows?REQUEST=GetLegendGraphic',
+      bbox: { minX: 1, minY: 2, maxX: 3, maxY: 4 },
+      coordinate_system: 'EPSG:3006',
+      layers: ['SE.GOV.SGU.BERG.GEOLOGISK_ENHET.YTA.50K'],
+    })),
+    fetchMapImage: vi.fn(),
+    planMapRequests: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/map-composite', () => ({
+  compositeMapImages: vi.fn(),
+}));
+
+import { getMapTool, getMapHandler } from '../get-map';
+import { sguClient } from '@/clients/sgu-client';
+import { ValidationError } from '@/lib/errors';
+import { compositeMapImages } from '@/lib/map-composite';
+
+const legends = [
+  { layer: 'soil_types', legend_url: 'https://maps3.sgu.se/legend-soil' },
+  { layer: 'gravel_deposits', legend_url: 'https://resource.sgu.se/legend-gravel' },
+];
+
+const bbox = { minLat: 59.3, minLon: 18.0, maxLat: 59.35, maxLon: 18.1 };
+
+describe('getMapTool', () => {
+  it('has correct name', () => {
+    expect(getMapTool.name).toBe('sgu_get_map');
+  });
+
+  it('has includeImage in input schema', () => {
+    expect(getMapTool.inputSchema).toHaveProperty('includeImage');
+  });
+});
+
+describe('getMapHandler', () => {
+  beforeEach(() => {
+    vi.mocked(sguClient.fetchMapImage).mockReset();
+    vi.mocked(sguClient.planMapRequests).mockReset();
+    vi.mocked(compositeMapImages).mockReset();
+  });
+
+  it('returns only the map URL by default', async () => {
+    const result = await getMapHandler({ layer: 'bedrock', ...bbox });
+
+    expect(result.content).toHaveLength(1);
+    expect(JSON.parse(result.content[0].text).map_url).toContain('GetMap');
+    expect(sguClient.fetchMapImage).not.toHaveBeenCalled();
+  });
+
+  it('returns the rendered image as image content when includeImage is set', async () => {
+    vi.mocked(sguClient.fetchMapImage).mockResolvedValue({ data: 'iVBORw0KGgo=', mimeType: 'image/png', bytes: 8 });
+
+    const result = await getMapHandler({ layer: 'bedrock', ...bbox, includeImage: true });
+
+    expect(sguClient.fetchMapImage).toHaveBeenCalledWith(expect.stringContaining('GetMap'), 1024 * 1024);
+    expect(result.content).toHaveLength(2);
+    expect(result.content[1]).toEqual({ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.image).toEqual({ mime_type: 'image/png', bytes: 8 });
+  });
+
+  it('still returns the map URL when the image download fails', async () => {
+    vi.mocked(sguClient.fetchMapImage).mockRejectedValue(
+      new ValidationError('The rendered map is above the 1024 KB image limit.', 'includeImage'),
+    );
+
+    const result = await getMapHandler({ layer: 'bedrock', ...bbox, includeImage: true });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content).toHaveLength(1);
+    const data = JSON.parse(result.content[0].text);
+    expect(data.map_url).toContain('GetMap');
+    expect(data.image_error).toContain('image limit');
+  });
+
+  describe('inputCrs', () => {
+    it('accepts a SWEREF99 TM bbox as northing/easting', async () => {
+      const result = await getMapHandler({
+        layer: 'bedrock',
+        minLat: 6580000,
+        minLon: 674000,
+        maxLat: 6581000,
+        maxLon: 675000,
+        inputCrs: 'EPSG:3006',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(vi.mocked(sguClient.getBedrockMapUrl).mock.lastCall![0]).toMatchObject({
+        minX: 673800,
+        minY: 6579800,
+        maxX: 675200,
+        maxY: 6581200,
+      });
+    });
+
+    it('accepts RT90 corridor coordinates', async () => {
+      const result = await getMapHandler({
+        layer: 'bedrock',
+        coordinates: [
+          { latitude: 6580000, longitude: 1628000 },
+          { latitude: 6581000, longitude: 1629000 },
+        ],
+        inputCrs: 'EPSG:3021',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(vi.mocked(sguClient.getBedrockMapUrl).mock.lastCall![0].minX).toBeGreaterThan(600000);
+    });
+
+    it('rejects WGS84 degrees given with a projected inputCrs', async () => {
+      const result = await getMapHandler({ layer: 'bedrock', ...bbox, inputCrs: 'EPSG:3006' });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).message).toContain('outside Sweden in SWEREF99 TM');
+    });
+  });
+
+  describe('multiple layers', () => {
+    it('returns one map_url when all layers fit in one request', async () => {
+      vi.mocked(sguClient.planMapRequests).mockReturnValue({
+        requests: [{ layers: ['soil_types', 'landslide'], opacity: 1, map_url: 'https://maps3.sgu.se/jord?GetMap' }],
+        legends,
+      });
+
+      const result = await getMapHandler({ layer: ['soil_types', 'landslide'], ...bbox });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(sguClient.planMapRequests).toHaveBeenCalledWith(
+        [
+          { layer: 'soil_types', opacity: 1 },
+          { layer: 'landslide', opacity: 1 },
+        ],
+        expect.any(Object),
+        { width: 800, height: 600, format: 'png' },
+      );
+      expect(data.map_url).toBe('https://maps3.sgu.se/jord?GetMap');
+      expect(data.composited).toBe(false);
+      expect(data.legends).toEqual(legends);
+      expect(result.content).toHaveLength(1);
+    });
+
+    it('composites layers from different hosts into one image', async () => {
+      vi.mocked(sguClient.planMapRequests).mockReturnValue({
+        requests: [
+          { layers: ['soil_types'], opacity: 1, map_url: 'https://maps3.sgu.se/jord?GetMap' },
+          { layers: ['gravel_deposits'], opacity: 0.5, map_url: 'https://resource.sgu.se/ballast?GetMap' },
+        ],
+        legends,
+      });
+      vi.mocked(sguClient.fetchMapImage).mockResolvedValue({ data: 'layer', mimeType: 'image/png', bytes: 5 });
+      vi.mocked(compositeMapImages).mockResolvedValue({ data: 'composite', mimeType: 'image/png', bytes: 9 });
+
+      const result = await getMapHandler({ layer: ['soil_types', 'gravel_deposits'], opacity: 0.5, ...bbox });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(sguClient.fetchMapImage).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(compositeMapImages).mock.calls[0][0].map((l) => l.opacity)).toEqual([1, 0.5]);
+      expect(data.map_url).toBeUndefined();
+      expect(data.composited).toBe(true);
+      expect(data.map_requests).toHaveLength(2);
+      expect(result.content[1]).toEqual({ type: 'image', data: 'composite', mimeType: 'image/png' });
+    });
+
+    it('drops a composite above the image limit but keeps the map requests', async () => {
+      vi.mocked(sguClient.planMapRequests).mockReturnValue({
+        requests: [
+          { layers: ['soil_types'], opacity: 1, map_url: 'https://maps3.sgu.se/jord?GetMap' },
+          { layers: ['gravel_deposits'], opacity: 0.5, map_url: 'https://resource.sgu.se/ballast?GetMap' },
+        ],
+        legends,
+      });
+      vi.mocked(sguClient.fetchMapImage).mockResolvedValue({ data: 'layer', mimeType: 'image/png', bytes: 5 });
+      vi.mocked(compositeMapImages).mockResolvedValue({ data: 'composite', mimeType: 'image/png', bytes: 2048 * 1024 });
+
+      const result = await getMapHandler({ layer: ['soil_types', 'gravel_deposits'], opacity: 0.5, ...bbox });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(result.content).toHaveLength(1);
+      expect(data.map_requests).toHaveLength(2);
+      expect(data.image_error).toContain('2048 KB, above the 1024 KB image limit');
+    });
+
+    it('rejects an opacity list of the wrong length', async () => {
+      const result = await getMapHandler({ layer: ['soil_types', 'wells'], opacity: [1], ...bbox });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details.field).toBe('opacity');
+    });
+
+    it('rejects an image size outside 100-4096 pixels before planning', async () => {
+      const result = await getMapHandler({ layer: ['soil_types', 'gravel_deposits'], width: 20000, ...bbox });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details.field).toBe('width');
+      expect(sguClient.planMapRequests).not.toHaveBeenCalled();
+      expect(getMapTool.inputSchema.height.safeParse(600.5).success).toBe(false);
+    });
+
+    it('rejects duplicate layers', async () => {
+      const result = await getMapHandler({ layer: ['wells', 'wells'], ...bbox });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+});
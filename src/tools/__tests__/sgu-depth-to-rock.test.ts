@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock data-registry
+vi.mock('@/lib/data-registry', () => ({
+  queryAll: vi.fn(),
+}));
+
+import { sguDepthToRockTool, sguDepthToRockHandler } from '../sgu-depth-to-rock';
+import { queryAll } from '@/lib/data-registry';
+
+const site = { latitude: 59.33, longitude: 18.05 };
+
+describe('sguDepthToRockTool', () => {
+  it('has correct name', () => {
+    expect(sguDepthToRockTool.name).toBe('sgu_depth_to_rock');
+  });
+
+  it('has all required input schema keys', () => {
+    expect(sguDepthToRockTool.inputSchema).toHaveProperty('latitude');
+    expect(sguDepthToRockTool.inputSchema).toHaveProperty('longitude');
+    expect(sguDepthToRockTool.inputSchema).toHaveProperty('radiusKm');
+  });
+});
+
+describe('sguDepthToRockHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(queryAll).mockResolvedValue({
+      results: {
+        soil_depth: [{ depth_m: 6, depth_class: '5-10 m' }],
+        wells: [
+          { id: '1', well_id: 1, soil_depth_m: 5, distance_m: 40 },
+          { id: '2', well_id: 2, distance_m: 60 },
+          { id: '3', well_id: 3, soil_depth_m: 2, distance_m: 1500 },
+        ],
+        soil_layers: [
+          { distance_m: 120, rock_reached: true, depth_to_rock_m: 7, total_depth_m: 7.5, layer_count: 3, column: [] },
+          { distance_m: 300, rock_reached: false, total_depth_m: 4, layer_count: 2, column: [] },
+        ],
+      },
+      errors: {},
+      featureCounts: { wells: { returned: 3, truncated: false }, soil_layers: { returned: 5, truncated: false } },
+      primary: [],
+      pointIndices: {},
+      summaries: {},
+    });
+  });
+
+  it('rejects a radius beyond the maximum', async () => {
+    const result = await sguDepthToRockHandler({ ...site, radiusKm: 10 });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'radiusKm' });
+  });
+
+  it('queries soil depth, wells and soil layers around the site', async () => {
+    await sguDepthToRockHandler(site);
+
+    expect(vi.mocked(queryAll).mock.calls[0][0]).toEqual(['soil_depth', 'wells', 'soil_layers']);
+  });
+
+  it('combines the model value with wells and boreholes inside the radius', async () => {
+    const result = await sguDepthToRockHandler(site);
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.model_depth_m).toBe(6);
+    // The well without soil depth and the one beyond 1 km are left out
+    expect(data.observation_count).toBe(2);
+    expect(data.observations.map((o: { source: string }) => o.source)).toEqual(['well', 'borehole', 'borehole']);
+    expect(data.observations[2].lower_bound).toBe(true);
+    expect(data.confidence).toBe('high');
+    expect(data.drilling_recommended).toBe(false);
+  });
+
+  it('warns when the observation lists were truncated', async () => {
+    vi.mocked(queryAll).mockResolvedValueOnce({
+      results: { soil_depth: [], wells: [], soil_layers: [] },
+      errors: {},
+      featureCounts: { wells: { returned: 200, truncated: true } },
+      primary: [],
+      pointIndices: {},
+      summaries: {},
+    });
+
+    const result = await sguDepthToRockHandler(site);
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.warning).toContain('wells');
+    expect(data.confidence).toBe('low');
+  });
+});
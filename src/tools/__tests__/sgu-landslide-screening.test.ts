@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/clients/sgu-client', () => ({
+  sguClient: {
+    getLandslidesNear: vi.fn(),
+    getSlopePrerequisitesNear: vi.fn(),
+    getShoreErosionNear: vi.fn(),
+  },
+}));
+
+import { sguLandslideScreeningTool, sguLandslideScreeningHandler } from '../sgu-landslide-screening';
+import { sguClient } from '@/clients/sgu-client';
+import { wgs84ToSweref99 } from '@/lib/coordinates';
+import { UpstreamApiError } from '@/lib/errors';
+
+const site = { latitude: 59.33, longitude: 18.05 };
+const origin = wgs84ToSweref99(site);
+
+// 100 m square whose lower-left corner is (east, north) meters from the site
+function squareAt(east: number, north: number, description: string) {
+  const x0 = origin.x + east;
+  const y0 = origin.y + north;
+  return {
+    geometry: {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [x0, y0],
+          [x0 + 100, y0],
+          [x0 + 100, y0 + 100],
+          [x0, y0 + 100],
+          [x0, y0],
+        ],
+      ],
+    },
+    info: { description },
+  };
+}
+
+async function run(args: Record<string, unknown> = {}) {
+  const result = await sguLandslideScreeningHandler({ ...site, ...args });
+  return { result, body: JSON.parse(result.content[0].text) };
+}
+
+describe('sguLandslideScreeningTool', () => {
+  it('has correct name', () => {
+    expect(sguLandslideScreeningTool.name).toBe('sgu_landslide_screening');
+  });
+
+  it('has all required input schema keys', () => {
+    for (const key of ['latitude', 'longitude', 'radiusKm']) {
+      expect(sguLandslideScreeningTool.inputSchema).toHaveProperty(key);
+    }
+  });
+});
+
+describe('sguLandslideScreeningHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sguClient.getLandslidesNear).mockResolvedValue({
+      features: [squareAt(300, 300, 'Skredärr'), squareAt(-150, -50, 'Skredärr'), squareAt(1500, 0, 'Skredärr')],
+      truncated: false,
+    });
+    vi.mocked(sguClient.getSlopePrerequisitesNear).mockResolvedValue({ features: [], truncated: false });
+    vi.mocked(sguClient.getShoreErosionNear).mockResolvedValue({ features: [], truncated: false });
+  });
+
+  it('rejects a radius beyond the maximum', async () => {
+    const { result, body } = await run({ radiusKm: 5 });
+
+    expect(result.isError).toBe(true);
+    expect(body.details).toEqual({ field: 'radiusKm' });
+  });
+
+  it('lists scars within the radius with distance and direction, nearest first', async () => {
+    const { body } = await run();
+
+    expect(sguClient.getLandslidesNear).toHaveBeenCalledWith(origin, 500);
+    // The scar 1.5 km east is outside the 500 m radius
+    expect(body.landslide_scars).toHaveLength(2);
+    expect(body.landslide_scars[0]).toMatchObject({ distance_m: 50, direction: 'W', description: 'Skredärr' });
+    expect(body.landslide_scars[1]).toMatchObject({ distance_m: 424, direction: 'NE', bearing_deg: 45 });
+    expect(body.screening.level).toBe('high');
+  });
+
+  it('keeps scars without an outline out of the screening, since the scar query covers 2 km', async () => {
+    vi.mocked(sguClient.getLandslidesNear).mockResolvedValue({
+      features: [{ info: { description: 'Skredärr utan geometri' } }],
+      truncated: false,
+    });
+
+    const { body } = await run();
+
+    expect(body.landslide_scars).toEqual([]);
+    expect(body.unlocated).toEqual({ landslide_scars: [{ description: 'Skredärr utan geometri' }] });
+    expect(body.screening.level).toBe('low');
+    expect(body.warning).toContain('without an outline');
+  });
+
+  it('reports failed layers and marks the screening incomplete', async () => {
+    vi.mocked(sguClient.getShoreErosionNear).mockRejectedValue(
+      new UpstreamApiError('Service unavailable', 503, 'https://maps3.sgu.se'),
+    );
+
+    const { body } = await run();
+
+    expect(body.errors).toEqual({ shore_erosion: 'Service unavailable' });
+    expect(body.screening.incomplete).toBe(true);
+    expect(body.shore_erosion).toBeUndefined();
+  });
+
+  it('surfaces the upstream error when every layer fails', async () => {
+    for (const search of [sguClient.getLandslidesNear, sguClient.getSlopePrerequisitesNear, sguClient.getShoreErosionNear]) {
+      vi.mocked(search).mockRejectedValue(new UpstreamApiError('Service unavailable', 503, 'https://maps3.sgu.se'));
+    }
+
+    const { result } = await run();
+
+    expect(result.isError).toBe(true);
+  });
+});
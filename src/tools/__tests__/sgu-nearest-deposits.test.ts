@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/clients/sgu-client', () => ({
+  sguClient: {
+    getGravelDepositsNear: vi.fn(),
+    getRockDepositsNear: vi.fn(),
+  },
+}));
+
+import { sguNearestDepositsTool, sguNearestDepositsHandler } from '../sgu-nearest-deposits';
+import { sguClient } from '@/clients/sgu-client';
+import { wgs84ToSweref99 } from '@/lib/coordinates';
+import { UpstreamApiError } from '@/lib/errors';
+
+const site = { latitude: 59.33, longitude: 18.05 };
+const origin = wgs84ToSweref99(site);
+
+// 100 m square deposit whose west edge is `east` meters east of the site
+function depositAt(east: number, name: string) {
+  const x0 = origin.x + east;
+  const y0 = origin.y - 50;
+  return {
+    id: name,
+    geometry: {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [x0, y0],
+          [x0 + 100, y0],
+          [x0 + 100, y0 + 100],
+          [x0, y0 + 100],
+          [x0, y0],
+        ],
+      ],
+    },
+    info: { name },
+  };
+}
+
+// Mock radius query: returns the deposits whose west edge falls inside the queried square
+function serving(features: ReturnType<typeof depositAt>[]) {
+  return async (point: { x: number }, radiusMeters: number) => ({
+    features: features.filter((f) => f.geometry.coordinates[0][0][0] - point.x <= radiusMeters),
+    truncated: false,
+  });
+}
+
+async function run(args: Record<string, unknown> = {}) {
+  const result = await sguNearestDepositsHandler({ ...site, ...args });
+  return { result, body: JSON.parse(result.content[0].text) };
+}
+
+describe('sguNearestDepositsTool', () => {
+  it('has correct name', () => {
+    expect(sguNearestDepositsTool.name).toBe('sgu_nearest_deposits');
+  });
+
+  it('has all required input schema keys', () => {
+    for (const key of ['latitude', 'longitude', 'depositKinds', 'count', 'maxRadiusKm']) {
+      expect(sguNearestDepositsTool.inputSchema).toHaveProperty(key);
+    }
+  });
+});
+
+describe('sguNearestDepositsHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sguClient.getGravelDepositsNear).mockImplementation(
+      serving([depositAt(400, 'Near esker'), depositAt(3000, 'Far esker')]),
+    );
+    vi.mocked(sguClient.getRockDepositsNear).mockImplementation(serving([depositAt(1800, 'Quarry')]));
+  });
+
+  it('grows the search ring until enough deposits are found', async () => {
+    const { body } = await run({ count: 2 });
+
+    expect(body.rings).toEqual([
+      { radius_m: 1000, found: 1 },
+      { radius_m: 2500, found: 2 },
+    ]);
+    expect(body.searched_radius_m).toBe(2500);
+    expect(vi.mocked(sguClient.getGravelDepositsNear).mock.calls.map((c) => c[1])).toEqual([1000, 2500]);
+  });
+
+  it('returns the nearest deposits across kinds sorted by distance', async () => {
+    const { body } = await run({ count: 3 });
+
+    expect(body.deposits).toEqual([
+      { kind: 'gravel', name: 'Near esker', distance_m: 400 },
+      { kind: 'rock', name: 'Quarry', distance_m: 1800 },
+      { kind: 'gravel', name: 'Far esker', distance_m: 3000 },
+    ]);
+  });
+
+  it('searches only the requested deposit kinds', async () => {
+    const { body } = await run({ depositKinds: ['rock'], count: 1 });
+
+    expect(sguClient.getGravelDepositsNear).not.toHaveBeenCalled();
+    expect(body.deposits).toEqual([{ kind: 'rock', name: 'Quarry', distance_m: 1800 }]);
+  });
+
+  it('stops at maxRadiusKm with fewer deposits than requested', async () => {
+    const { body } = await run({ maxRadiusKm: 2, count: 5 });
+
+    expect(body.rings.map((r: { radius_m: number }) => r.radius_m)).toEqual([1000, 2000]);
+    expect(body.deposits).toHaveLength(2);
+  });
+
+  it('reports deposits without geometry as within the ring radius', async () => {
+    vi.mocked(sguClient.getRockDepositsNear).mockResolvedValue({
+      features: [{ info: { name: 'Unknown outline' } }],
+      truncated: false,
+    });
+
+    const { body } = await run({ depositKinds: ['rock'], count: 1 });
+
+    expect(body.deposits).toEqual([{ kind: 'rock', name: 'Unknown outline', within_m: 1000 }]);
+  });
+
+  it('warns when a ring hits the feature count limit', async () => {
+    vi.mocked(sguClient.getRockDepositsNear).mockResolvedValue({ features: [depositAt(10, 'A')], truncated: true });
+
+    const { body } = await run({ depositKinds: ['rock'], count: 1 });
+
+    expect(body.warning).toContain('1 km');
+  });
+
+  it('keeps results for the other kind when one service fails', async () => {
+    vi.mocked(sguClient.getRockDepositsNear).mockRejectedValue(
+      new UpstreamApiError('HTTP 503 from service', 503, 'https://resource.sgu.se'),
+    );
+
+    const { result, body } = await run({ count: 2 });
+
+    expect(result.isError).toBeUndefined();
+    expect(body.errors).toEqual({ rock: 'HTTP 503 from service' });
+    expect(body.deposits.map((d: { name: string }) => d.name)).toEqual(['Near esker', 'Far esker']);
+    expect(sguClient.getRockDepositsNear).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the upstream error when every kind fails', async () => {
+    const error = new UpstreamApiError('HTTP 503 from service', 503, 'https://resource.sgu.se');
+    vi.mocked(sguClient.getGravelDepositsNear).mockRejectedValue(error);
+    vi.mocked(sguClient.getRockDepositsNear).mockRejectedValue(error);
+
+    const { result, body } = await run();
+
+    expect(result.isError).toBe(true);
+    expect(body.code).toBe('UPSTREAM_API_ERROR');
+  });
+
+  it('validates count and maxRadiusKm', async () => {
+    expect((await run({ count: 0 })).body.details).toEqual({ field: 'count' });
+    expect((await run({ count: 21 })).body.details).toEqual({ field: 'count' });
+    expect((await run({ maxRadiusKm: 80 })).body.details).toEqual({ field: 'maxRadiusKm' });
+  });
+
+  it('rejects points outside Sweden', async () => {
+    const { result } = await run({ latitude: 48.85, longitude: 2.35 });
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock data-registry
+vi.mock('@/lib/data-registry', () => ({
+  queryAll: vi.fn(),
+}));
+
+import { sguProfileTool, sguProfileHandler } from '../sgu-profile';
+import { queryAll } from '@/lib/data-registry';
+
+// ~2.2 km east-west line through Stockholm
+const alignment = [
+  { latitude: 59.33, longitude: 18.03 },
+  { latitude: 59.33, longitude: 18.07 },
+];
+
+describe('sguProfileTool', () => {
+  it('has correct name', () => {
+    expect(sguProfileTool.name).toBe('sgu_profile');
+  });
+
+  it('has all required input schema keys', () => {
+    expect(sguProfileTool.inputSchema).toHaveProperty('alignment');
+    expect(sguProfileTool.inputSchema).toHaveProperty('stationIntervalMeters');
+    expect(sguProfileTool.inputSchema).toHaveProperty('startChainageMeters');
+  });
+});
+
+describe('sguProfileHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(queryAll).mockResolvedValue({
+      results: {
+        bedrock: [{ rock_type: 'Granit' }],
+        soil_type: [{ soil_type: 'Lera' }],
+        soil_depth: [{ depth_m: 8, depth_class: '8 m' }],
+        groundwater_vulnerability: [{ vulnerability_class: 'low' }],
+        landslide: [],
+      },
+      errors: {},
+      featureCounts: {},
+      primary: [{ latitude: 59.33, longitude: 18.05, bedrock: 'Granit', soil_type: 'Lera' }],
+      pointIndices: {},
+      summaries: {},
+    });
+  });
+
+  it('requires at least 2 alignment vertices', async () => {
+    const result = await sguProfileHandler({ alignment: [alignment[0]] });
+
+    expect(result.isError).toBe(true);
+    const error = JSON.parse(result.content[0].text);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.message).toBe('A profile alignment needs at least 2 vertices');
+    expect(error.details).toEqual({ field: 'alignment' });
+  });
+
+  it('rejects alignments that leave Sweden before querying', async () => {
+    // Inside the 55-69°N, 11-24°E box, but Lithuania
+    const result = await sguProfileHandler({ alignment: [alignment[0], { latitude: 55.5, longitude: 23.5 }] });
+
+    expect(result.isError).toBe(true);
+    const error = JSON.parse(result.content[0].text);
+    expect(error.message).toContain('vertex 2');
+    expect(error.details).toEqual({ field: 'alignment' });
+    expect(queryAll).not.toHaveBeenCalled();
+  });
+
+  it('rejects alignments that need too many stations', async () => {
+    const result = await sguProfileHandler({ alignment, stationIntervalMeters: 10 });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'stationIntervalMeters' });
+  });
+
+  it('queries each station through queryAll with the profile data types', async () => {
+    await sguProfileHandler({ alignment, stationIntervalMeters: 500 });
+
+    // ~2270 m: 0, 500, ..., 2000 and the end vertex
+    expect(queryAll).toHaveBeenCalledTimes(6);
+    expect(vi.mocked(queryAll).mock.calls[0][0]).toEqual([
+      'bedrock',
+      'soil_type',
+      'soil_depth',
+      'groundwater_vulnerability',
+      'landslide',
+    ]);
+  });
+
+  it('keys stations by chainage from startChainageMeters', async () => {
+    const result = await sguProfileHandler({ alignment, stationIntervalMeters: 500, startChainageMeters: 12300 });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.stations.map((s: { chainage: string }) => s.chainage).slice(0, 3)).toEqual(['12+300', '12+800', '13+300']);
+    expect(data.stations[0]).toMatchObject({ soil_type: 'Lera', bedrock: 'Granit', soil_depth_m: 8 });
+    expect(data.alignment.start).toBe('12+300');
+  });
+
+  it('takes soil and bedrock from the units containing the station, not the first feature', async () => {
+    vi.mocked(queryAll).mockResolvedValue({
+      results: { bedrock: [{ rock_type: 'Gnejs' }, { rock_type: 'Granit' }], soil_type: [] },
+      errors: {},
+      featureCounts: {},
+      primary: [{ latitude: 59.33, longitude: 18.05, bedrock: 'Granit', soil_type: undefined }],
+      pointIndices: {},
+      summaries: {},
+    });
+
+    const result = await sguProfileHandler({ alignment, stationIntervalMeters: 500 });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.stations[0].bedrock).toBe('Granit');
+    expect(data.stations[0].soil_type).toBeUndefined();
+  });
+
+  it('merges identical stations into a single segment', async () => {
+    const result = await sguProfileHandler({ alignment, stationIntervalMeters: 500 });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.segments).toHaveLength(1);
+    expect(data.segments[0].summary).toMatch(/^km 0\+000–2\+2\d\d: lera over granit, 8 m to rock, low groundwater/);
+  });
+
+  it('collapses repeated per-station errors', async () => {
+    vi.mocked(queryAll).mockResolvedValue({
+      results: { bedrock: [{ rock_type: 'Granit' }] },
+      errors: { landslide: 'The request timed out.' },
+      featureCounts: {},
+      primary: [],
+      pointIndices: {},
+      summaries: {},
+    });
+
+    const result = await sguProfileHandler({ alignment, stationIntervalMeters: 500 });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.errors).toEqual(['landslide: The request timed out.']);
+  });
+});
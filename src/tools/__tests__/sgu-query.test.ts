@@ -20,6 +20,10 @@ describe('sguQueryTool', () => {
   it('has all required input schema keys', () => {
     expect(sguQueryTool.inputSchema).toHaveProperty('dataTypes');
     expect(sguQueryTool.inputSchema).toHaveProperty('points');
+    expect(sguQueryTool.inputSchema).toHaveProperty('route');
+    expect(sguQueryTool.inputSchema).toHaveProperty('area');
+    expect(sguQueryTool.inputSchema).toHaveProperty('bufferMeters');
+    expect(sguQueryTool.inputSchema).toHaveProperty('sampleSpacingMeters');
     expect(sguQueryTool.inputSchema).toHaveProperty('radiusKm');
     expect(sguQueryTool.inputSchema).toHaveProperty('geometryDetail');
     expect(sguQueryTool.inputSchema).toHaveProperty('limit');
@@ -32,6 +36,10 @@ describe('sguQueryHandler', () => {
     vi.mocked(queryAll).mockResolvedValue({
       results: { bedrock: [{ rock_type: 'Granit' }] },
       errors: {},
+      featureCounts: { bedrock: { matched: 1, returned: 1, truncated: false } },
+      primary: [{ latitude: 59.33, longitude: 18.07, bedrock: 'Granit' }],
+      pointIndices: {},
+      summaries: {},
     });
   });
 
@@ -68,7 +76,7 @@ describe('sguQueryHandler', () => {
     expect(data.bedrock).toHaveLength(1);
   });
 
-  it('expands "all" to all 9 types', async () => {
+  it('expands "all" to all 12 types', async () => {
     await sguQueryHandler({
       dataTypes: 'all',
       points: [{ latitude: 59.33, longitude: 18.07 }],
@@ -85,14 +93,18 @@ describe('sguQueryHandler', () => {
         'soil_depth',
         'groundwater_vulnerability',
         'landslide',
+        'boulder_coverage',
+        'gravel_deposits',
+        'rock_deposits',
       ]),
       expect.any(Object),
       expect.any(Array),
       50,
       'simplified',
+      { summaryArea: expect.objectContaining({ type: 'MultiPolygon' }) },
     );
     const calledTypes = vi.mocked(queryAll).mock.calls[0][0];
-    expect(calledTypes).toHaveLength(9);
+    expect(calledTypes).toHaveLength(12);
   });
 
   it('uses default radiusKm=0.2', async () => {
@@ -111,13 +123,9 @@ describe('sguQueryHandler', () => {
       points: [{ latitude: 59.33, longitude: 18.07 }],
     });
 
-    expect(queryAll).toHaveBeenCalledWith(
-      expect.any(Array),
-      expect.any(Object),
-      expect.any(Array),
-      50,
-      'simplified',
-    );
+    expect(queryAll).toHaveBeenCalledWith(expect.any(Array), expect.any(Object), expect.any(Array), 50, 'simplified', {
+      summaryArea: expect.objectContaining({ type: 'MultiPolygon' }),
+    });
   });
 
   it('uses default limit=50', async () => {
@@ -126,13 +134,9 @@ describe('sguQueryHandler', () => {
       points: [{ latitude: 59.33, longitude: 18.07 }],
     });
 
-    expect(queryAll).toHaveBeenCalledWith(
-      expect.any(Array),
-      expect.any(Object),
-      expect.any(Array),
-      50,
-      expect.any(String),
-    );
+    expect(queryAll).toHaveBeenCalledWith(expect.any(Array), expect.any(Object), expect.any(Array), 50, expect.any(String), {
+      summaryArea: expect.objectContaining({ type: 'MultiPolygon' }),
+    });
   });
 
   it('passes custom parameters through', async () => {
@@ -144,13 +148,9 @@ describe('sguQueryHandler', () => {
       limit: 10,
     });
 
-    expect(queryAll).toHaveBeenCalledWith(
-      ['bedrock', 'radon_risk'],
-      expect.any(Object),
-      expect.any(Array),
-      10,
-      'none',
-    );
+    expect(queryAll).toHaveBeenCalledWith(['bedrock', 'radon_risk'], expect.any(Object), expect.any(Array), 10, 'none', {
+      summaryArea: expect.objectContaining({ type: 'MultiPolygon' }),
+    });
   });
 
   it('response includes query metadata (points, radiusKm, bbox)', async () => {
@@ -171,6 +171,10 @@ describe('sguQueryHandler', () => {
     vi.mocked(queryAll).mockResolvedValue({
       results: { bedrock: [{ rock_type: 'Granit' }] },
       errors: { radon_risk: 'WMS service unavailable' },
+      featureCounts: {},
+      primary: [],
+      pointIndices: {},
+      summaries: {},
     });
 
     const result = await sguQueryHandler({
@@ -183,6 +187,109 @@ describe('sguQueryHandler', () => {
     expect(data.bedrock).toHaveLength(1);
   });
 
+  it('includes feature_counts for OGC types', async () => {
+    const result = await sguQueryHandler({
+      dataTypes: ['bedrock'],
+      points: [{ latitude: 59.33, longitude: 18.07 }],
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.feature_counts).toEqual({ bedrock: { matched: 1, returned: 1, truncated: false } });
+  });
+
+  it('includes the primary summary per point', async () => {
+    const result = await sguQueryHandler({
+      dataTypes: ['bedrock'],
+      points: [{ latitude: 59.33, longitude: 18.07 }],
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.primary).toEqual([{ latitude: 59.33, longitude: 18.07, bedrock: 'Granit' }]);
+  });
+
+  it('omits primary when no primary types were queried', async () => {
+    vi.mocked(queryAll).mockResolvedValue({
+      results: { radon_risk: [] },
+      errors: {},
+      featureCounts: {},
+      primary: [],
+      pointIndices: {},
+      summaries: {},
+    });
+
+    const result = await sguQueryHandler({
+      dataTypes: ['radon_risk'],
+      points: [{ latitude: 59.33, longitude: 18.07 }],
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.primary).toBeUndefined();
+  });
+
+  it('includes the composition summary per area type', async () => {
+    const summary = { field: 'rock_type', area_m2: 160000, composition: [], text: '100% Granit' };
+    vi.mocked(queryAll).mockResolvedValue({
+      results: { bedrock: [] },
+      errors: {},
+      featureCounts: {},
+      primary: [],
+      pointIndices: {},
+      summaries: { bedrock: summary },
+    });
+
+    const result = await sguQueryHandler({
+      dataTypes: ['bedrock'],
+      points: [{ latitude: 59.33, longitude: 18.07 }],
+    });
+
+    expect(JSON.parse(result.content[0].text).summary).toEqual({ bedrock: summary });
+  });
+
+  it('summarises overlapping point squares over their union', async () => {
+    await sguQueryHandler({
+      dataTypes: ['bedrock'],
+      points: [
+        { latitude: 59.33, longitude: 18.07 },
+        { latitude: 59.3301, longitude: 18.0701 },
+      ],
+    });
+
+    const { summaryArea } = vi.mocked(queryAll).mock.calls[0][5]!;
+    const rectangles = summaryArea!.coordinates as number[][][][];
+    const area = rectangles.reduce((sum, [ring]) => sum + (ring[1][0] - ring[0][0]) * (ring[2][1] - ring[1][1]), 0);
+    // Two 400 m squares a few metres apart: just over one square, not two
+    expect(area).toBeGreaterThan(160000);
+    expect(area).toBeLessThan(170000);
+  });
+
+  it('summarises the wells within the query radius', async () => {
+    vi.mocked(queryAll).mockResolvedValue({
+      results: {
+        wells: [
+          { id: '1', well_id: 1, total_depth_m: 60, distance_m: 50, contains_point: false },
+          { id: '2', well_id: 2, total_depth_m: 90, distance_m: 150, contains_point: false },
+          // In the corner of the query square, outside the 200 m radius
+          { id: '3', well_id: 3, total_depth_m: 300, distance_m: 260, contains_point: false },
+        ],
+      },
+      errors: {},
+      featureCounts: { wells: { matched: 3, returned: 3, truncated: false } },
+      primary: [],
+      pointIndices: {},
+      summaries: {},
+    });
+
+    const result = await sguQueryHandler({
+      dataTypes: ['wells'],
+      points: [{ latitude: 59.33, longitude: 18.07 }],
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.well_statistics.well_count).toBe(2);
+    expect(data.well_statistics.total_depth_m.median).toBe(75);
+    expect(data.wells).toHaveLength(3);
+  });
+
   it('omits errors key when no failures', async () => {
     const result = await sguQueryHandler({
       dataTypes: ['bedrock'],
@@ -192,4 +299,336 @@ describe('sguQueryHandler', () => {
     const data = JSON.parse(result.content[0].text);
     expect(data.errors).toBeUndefined();
   });
+
+  describe('geojson output', () => {
+    const point = { latitude: 59.33, longitude: 18.07 };
+
+    beforeEach(() => {
+      vi.mocked(queryAll).mockResolvedValue({
+        results: {
+          bedrock: [{ id: 'b1', rock_type: 'Granit', geometry: { type: 'Point', coordinates: [18.07, 59.33] } }],
+          radon_risk: [{ risk_level: 'low' }],
+        },
+        errors: { soil_depth: 'WMS service unavailable' },
+        featureCounts: { bedrock: { matched: 1, returned: 1, truncated: false } },
+        primary: [],
+        pointIndices: { radon_risk: [0] },
+        summaries: {},
+      });
+    });
+
+    it('returns a single FeatureCollection with metadata as foreign members', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock', 'radon_risk', 'soil_depth'],
+        points: [point],
+        outputFormat: 'geojson',
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.type).toBe('FeatureCollection');
+      expect(data.features.map((f: { properties: { data_type: string } }) => f.properties.data_type)).toEqual([
+        'bedrock',
+        'radon_risk',
+      ]);
+      expect(data.features[1].geometry).toEqual({ type: 'Point', coordinates: [18.07, 59.33] });
+      expect(data.query.points).toEqual([point]);
+      expect(data.errors).toEqual({ soil_depth: 'WMS service unavailable' });
+      expect(data.bedrock).toBeUndefined();
+    });
+
+    it('returns one FeatureCollection per data type with the per_type layout', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock', 'radon_risk'],
+        points: [point],
+        outputFormat: 'geojson',
+        geojsonLayout: 'per_type',
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.bedrock.type).toBe('FeatureCollection');
+      expect(data.radon_risk.features).toHaveLength(1);
+      expect(data.feature_counts.bedrock.returned).toBe(1);
+    });
+
+    it('names the projected output CRS in a crs member', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['radon_risk'],
+        points: [point],
+        outputFormat: 'geojson',
+        outputCrs: 'EPSG:3006',
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.crs.properties.name).toBe('urn:ogc:def:crs:EPSG::3006');
+      expect(data.features[0].geometry.coordinates[0]).toBeGreaterThan(600000);
+    });
+  });
+
+  describe('inputCrs', () => {
+    it('converts SWEREF99 TM points and reports the input CRS', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        points: [{ latitude: 6580992, longitude: 674553 }],
+        inputCrs: 'EPSG:3006',
+      });
+
+      const [, , sweref99Points] = vi.mocked(queryAll).mock.calls[0];
+      expect(sweref99Points[0].x).toBeCloseTo(674553, 3);
+      expect(sweref99Points[0].y).toBeCloseTo(6580992, 3);
+      const data = JSON.parse(result.content[0].text);
+      expect(data.query.input_crs).toBe('EPSG:3006');
+      expect(data.query.points[0].latitude).toBeCloseTo(59.33, 2);
+    });
+
+    it('validates route vertices in the input system', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route: [
+          { latitude: 59.33, longitude: 18.03 },
+          { latitude: 59.33, longitude: 18.07 },
+        ],
+        inputCrs: 'EPSG:3021',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'route' });
+    });
+  });
+
+  describe('outputCrs', () => {
+    it('defaults to WGS84 and reports the CRS in the query metadata', async () => {
+      const result = await sguQueryHandler({ dataTypes: ['bedrock'], points: [{ latitude: 59.33, longitude: 18.07 }] });
+
+      expect(JSON.parse(result.content[0].text).query.output_crs).toBe('EPSG:4326');
+    });
+
+    it('passes a SWEREF99 local zone through to queryAll', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        points: [{ latitude: 59.33, longitude: 18.07 }],
+        outputCrs: 'EPSG:3011',
+      });
+
+      expect(vi.mocked(queryAll).mock.calls[0][5]).toMatchObject({ outputCrs: 'EPSG:3011' });
+      expect(JSON.parse(result.content[0].text).query.output_crs).toBe('EPSG:3011');
+    });
+  });
+
+  describe('soilMapScale', () => {
+    it('passes the requested soil map scale to queryAll and echoes it in the query metadata', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['soil_type'],
+        points: [{ latitude: 59.33, longitude: 18.07 }],
+        soilMapScale: '250k',
+      });
+
+      expect(vi.mocked(queryAll).mock.calls[0][5]).toMatchObject({ mapScale: '250k' });
+      expect(JSON.parse(result.content[0].text).query.soil_map_scale).toBe('250k');
+    });
+  });
+
+  describe('area input', () => {
+    // 200 m × 200 m square in Stockholm, SWEREF99 TM
+    const squareWkt = 'POLYGON((674000 6580000,674200 6580000,674200 6580200,674000 6580200,674000 6580000))';
+
+    it('filters OGC types with the area polygon and samples point types on a grid', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock', 'soil_depth'],
+        area: squareWkt,
+        inputCrs: 'EPSG:3006',
+        sampleSpacingMeters: 50,
+      });
+
+      const [, bboxes, samples, , , options] = vi.mocked(queryAll).mock.calls[0];
+      expect(bboxes).toHaveLength(1);
+      expect(options?.polygonWkt).toBe(squareWkt);
+      expect(samples).toHaveLength(16);
+      expect(samples[0]).toEqual({ x: 674025, y: 6580025 });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.query).toMatchObject({ area_m2: 40000, sampleSpacingMeters: 50, sample_count: 16 });
+    });
+
+    it('accepts a GeoJSON polygon in WGS84 and picks a default grid spacing', async () => {
+      await sguQueryHandler({
+        dataTypes: ['soil_depth'],
+        area: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [18.06, 59.32],
+              [18.08, 59.32],
+              [18.08, 59.33],
+              [18.06, 59.32],
+            ],
+          ],
+        },
+      });
+
+      const samples = vi.mocked(queryAll).mock.calls[0][2];
+      expect(samples.length).toBeGreaterThan(30);
+      expect(samples.length).toBeLessThanOrEqual(100);
+    });
+
+    it('reports point types as area statistics', async () => {
+      vi.mocked(queryAll).mockResolvedValue({
+        results: {
+          soil_depth: [
+            { depth_m: 1, depth_class: '0-1 m' },
+            { depth_m: 4, depth_class: '3-5 m' },
+          ],
+        },
+        errors: {},
+        featureCounts: {},
+        primary: [],
+        pointIndices: { soil_depth: [0, 3] },
+        summaries: {},
+      });
+
+      const result = await sguQueryHandler({
+        dataTypes: ['soil_depth'],
+        area: squareWkt,
+        inputCrs: 'EPSG:3006',
+        sampleSpacingMeters: 100,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.soil_depth).toEqual({
+        sample_count: 4,
+        samples_with_data: 2,
+        depth_m: { min: 1, max: 4, mean: 2.5 },
+        depth_class_share_pct: { 'no_data': 50, '0-1 m': 25, '3-5 m': 25 },
+      });
+    });
+
+    it('rejects an area together with points', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        points: [{ latitude: 59.33, longitude: 18.07 }],
+        area: squareWkt,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'area' });
+    });
+
+    it('rejects grids with too many samples', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['soil_depth'],
+        area: squareWkt,
+        inputCrs: 'EPSG:3006',
+        sampleSpacingMeters: 10,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'sampleSpacingMeters' });
+    });
+
+    it('rejects malformed WKT', async () => {
+      const result = await sguQueryHandler({ dataTypes: ['bedrock'], area: 'POLYGON((1 2' });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'area' });
+    });
+  });
+
+  describe('route input', () => {
+    // ~2.2 km east-west line through Stockholm
+    const route = [
+      { latitude: 59.33, longitude: 18.03 },
+      { latitude: 59.33, longitude: 18.07 },
+    ];
+
+    it('rejects points and route together', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        points: [{ latitude: 59.33, longitude: 18.07 }],
+        route,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).message).toContain('not both');
+    });
+
+    it('requires at least 2 route vertices', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route: [route[0]],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'route' });
+    });
+
+    it('validates route vertices are within Sweden', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route: [route[0], { latitude: 40.0, longitude: 18.0 }],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).message).toContain('outside Sweden');
+    });
+
+    it('passes a single envelope bbox and buffered polygon WKT to queryAll', async () => {
+      await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route,
+        bufferMeters: 100,
+      });
+
+      const [, bboxes, , , , options] = vi.mocked(queryAll).mock.calls[0];
+      expect(bboxes).toHaveLength(1);
+      expect(options?.polygonWkt).toMatch(/^POLYGON\(\(\d/);
+      // The corridor itself is the area the composition is measured over
+      expect(options?.summaryArea?.type).toBe('Polygon');
+    });
+
+    it('samples point types along the route at sampleSpacingMeters', async () => {
+      await sguQueryHandler({
+        dataTypes: ['radon_risk'],
+        route,
+        sampleSpacingMeters: 500,
+      });
+
+      const samples = vi.mocked(queryAll).mock.calls[0][2];
+      // ~2270 m line: 0, 500, ..., 2000 and the end vertex
+      expect(samples).toHaveLength(6);
+    });
+
+    it('rejects routes that need too many samples', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['radon_risk'],
+        route,
+        sampleSpacingMeters: 10,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'sampleSpacingMeters' });
+    });
+
+    it('rejects a buffer above the maximum', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route,
+        bufferMeters: 10000,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details).toEqual({ field: 'bufferMeters' });
+    });
+
+    it('response includes route metadata', async () => {
+      const result = await sguQueryHandler({
+        dataTypes: ['bedrock'],
+        route,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.query.route).toEqual(route);
+      expect(data.query.bufferMeters).toBe(200);
+      expect(data.query.sampleSpacingMeters).toBe(500);
+      expect(data.query.route_length_m).toBeGreaterThan(2000);
+      expect(data.query.bbox).toHaveProperty('minLat');
+    });
+  });
 });
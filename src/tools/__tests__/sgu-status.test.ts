@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/data-registry', () => ({
+  getOgcServices: vi.fn(),
+}));
+
+vi.mock('@/clients/sgu-client', () => ({
+  sguClient: { wmsServices: [] },
+}));
+
+import { sguStatusTool, sguStatusHandler } from '../sgu-status';
+import { getOgcServices } from '@/lib/data-registry';
+import { sguClient } from '@/clients/sgu-client';
+import { recordFailure, resetCircuits } from '@/lib/circuit-breaker';
+import { acquireSlot, resetConcurrency, setConcurrencyLimits } from '@/lib/concurrency';
+import { UpstreamApiError } from '@/lib/errors';
+import type { ServiceDefinition } from '@/lib/service-status';
+
+function service(name: string, dataTypes: string[], mapLayers: string[], probe: ServiceDefinition['probe']): ServiceDefinition {
+  return { name, url: `https://example.sgu.se/${name}`, dataTypes, mapLayers, probe };
+}
+
+const up = vi.fn().mockResolvedValue('ok');
+const down = vi.fn().mockRejectedValue(new UpstreamApiError('HTTP 503 from service', 503, 'https://maps3.sgu.se'));
+
+async function run() {
+  const result = await sguStatusHandler({});
+  return JSON.parse(result.content[0].text);
+}
+
+describe('sguStatusTool', () => {
+  it('has correct name', () => {
+    expect(sguStatusTool.name).toBe('sgu_status');
+  });
+});
+
+describe('sguStatusHandler', () => {
+  beforeEach(() => {
+    resetCircuits();
+    resetConcurrency();
+    vi.mocked(getOgcServices).mockReturnValue([
+      service('ogc:berggrund50k-250k', ['bedrock'], [], up),
+      service('ogc:jordarter25k-100k', ['soil_type'], [], up),
+      service('ogc:jordarter250k', ['soil_type'], [], up),
+    ]);
+    sguClient.wmsServices.length = 0;
+    sguClient.wmsServices.push(service('wms:fysik', ['radon_risk'], ['radon_risk'], up));
+  });
+
+  it('probes every service without cache or retries', async () => {
+    const probe = vi.fn().mockResolvedValue('ok');
+    sguClient.wmsServices.push(service('wms:berg', [], ['bedrock'], probe));
+
+    const data = await run();
+
+    expect(probe).toHaveBeenCalledWith(expect.objectContaining({ cache: false, retry: false }));
+    expect(data.services).toHaveLength(5);
+    expect(data.services[0]).toMatchObject({ name: 'ogc:berggrund50k-250k', up: true });
+    expect(data.services[0].http_status).toBeUndefined();
+    expect(typeof data.services[0].latency_ms).toBe('number');
+  });
+
+  it('reports all data types up when healthy', async () => {
+    const data = await run();
+
+    expect(data.status).toBe('ok');
+    expect(data.unavailable_data_types).toBeUndefined();
+    expect(data.data_types).toEqual({
+      bedrock: { status: 'up', services: ['ogc:berggrund50k-250k'] },
+      soil_type: { status: 'up', services: ['ogc:jordarter25k-100k', 'ogc:jordarter250k'] },
+      radon_risk: { status: 'up', services: ['wms:fysik'] },
+    });
+    expect(data.map_layers.radon_risk.status).toBe('up');
+  });
+
+  it('reports data types whose service is down, with HTTP status and error', async () => {
+    sguClient.wmsServices[0] = service('wms:fysik', ['radon_risk'], ['radon_risk'], down);
+
+    const data = await run();
+
+    expect(data.status).toBe('degraded');
+    expect(data.unavailable_data_types).toEqual(['radon_risk']);
+    expect(data.data_types.radon_risk).toEqual({
+      status: 'down',
+      services: ['wms:fysik'],
+      errors: ['wms:fysik: HTTP 503 from service'],
+    });
+    expect(data.services[3]).toMatchObject({ up: false, http_status: 503, error_code: 'UPSTREAM_API_ERROR' });
+  });
+
+  it('reports a data type as degraded when only some of its services are down', async () => {
+    vi.mocked(getOgcServices).mockReturnValue([
+      service('ogc:jordarter25k-100k', ['soil_type'], [], up),
+      service('ogc:jordarter250k', ['soil_type'], [], down),
+    ]);
+
+    const data = await run();
+
+    expect(data.data_types.soil_type.status).toBe('degraded');
+    expect(data.unavailable_data_types).toBeUndefined();
+  });
+
+  it('includes circuit breaker state for all SGU hosts', async () => {
+    for (let i = 0; i < 5; i++) {
+      recordFailure('maps3.sgu.se', 'The request timed out.');
+    }
+
+    const data = await run();
+
+    expect(data.status).toBe('degraded');
+    expect(data.circuits.map((c: { host: string }) => c.host)).toEqual(['api.sgu.se', 'maps3.sgu.se', 'resource.sgu.se']);
+    expect(data.circuits[1]).toMatchObject({
+      host: 'maps3.sgu.se',
+      state: 'open',
+      consecutive_failures: 5,
+      last_error: 'The request timed out.',
+    });
+  });
+
+  it('reports the request queue per host', async () => {
+    setConcurrencyLimits({ defaultLimit: 1 });
+    const slot = await acquireSlot('api.sgu.se');
+    const waiting = acquireSlot('api.sgu.se');
+
+    const data = await run();
+
+    expect(data.queues).toEqual([{ host: 'api.sgu.se', limit: 1, active: 1, queued: 1 }]);
+    slot.release();
+    (await waiting).release();
+  });
+});
@@ -1,9 +1,11 @@
 import { z } from 'zod';
-import { sguClient } from '@/clients/sgu-client';
-import { withErrorHandling } from '@/lib/response';
+import { sguClient, type MapLayerRequest } from '@/clients/sgu-client';
+import type { BinaryBody } from '@/lib/http-client';
+import { compositeMapImages } from '@/lib/map-composite';
+import { ResultWithImages, withErrorHandling } from '@/lib/response';
 import { ValidationError } from '@/lib/errors';
 import { BoundingBox, corridorToBoundingBox, validateBbox } from '@/lib/geometry-utils';
-import { wgs84BboxToSweref99, wgs84CoordinatesToSweref99 } from '@/lib/coordinates';
+import { inputBboxToSweref99, inputToWgs84, wgs84CoordinatesToSweref99 } from '@/lib/coordinates';
 import {
   minLatSchema,
   minLonSchema,
@@ -14,9 +16,13 @@ import {
   widthSchema,
   heightSchema,
   formatSchema,
+  opacitySchema,
+  includeImageSchema,
+  inputCrsSchema,
   MapResponse,
   MapOptions,
 } from '@/types/common-schemas';
+import type { InputCrs } from '@/types/common-schemas';
 
 const MAP_LAYERS = [
   'bedrock',
@@ -36,9 +42,9 @@ type MapLayer = (typeof MAP_LAYERS)[number];
 
 export const getMapInputSchema = {
   layer: z
-    .enum(MAP_LAYERS)
+    .union([z.enum(MAP_LAYERS), z.array(z.enum(MAP_LAYERS))])
     .describe(
-      'Map layer: ' +
+      'Map layer, or an ordered list drawn bottom to top (e.g. ["soil_types", "landslide", "wells"]): ' +
         'bedrock (geology), ' +
         'soil_types (surface materials), ' +
         'boulder_coverage (blockiness), ' +
@@ -57,9 +63,12 @@ export const getMapInputSchema = {
   maxLon: maxLonSchema,
   coordinates: coordinatesSchema,
   bufferMeters: bufferMetersSchema,
+  inputCrs: inputCrsSchema,
   width: widthSchema,
   height: heightSchema,
   format: formatSchema,
+  opacity: opacitySchema,
+  includeImage: includeImageSchema,
 };
 
 export const getMapTool = {
@@ -69,27 +78,40 @@ export const getMapTool = {
     'Provide bbox (minLat, minLon, maxLat, maxLon) OR corridor (coordinates + bufferMeters). ' +
     'Point queries supported: set minLat=maxLat, minLon=maxLon. ' +
     'A 200m buffer is always added around bbox edges (adjustable via bufferMeters; corridor default: 500m). ' +
-    'Coordinates in WGS84 (latitude/longitude). ' +
+    'Coordinates in WGS84 (latitude/longitude), or SWEREF99 TM, RT90 or a SWEREF99 local zone via inputCrs. ' +
     'Example bbox: minLat=57.7, minLon=12.0, maxLat=57.8, maxLon=12.1. ' +
     'Layers: bedrock, soil_types, boulder_coverage, soil_depth, groundwater, ' +
     'groundwater_vulnerability, landslide, radon_risk, wells, gravel_deposits, rock_deposits. ' +
-    'Returns map image URL and legend URL.',
+    'Returns map image URL and legend URL; set includeImage to also get the rendered image itself. ' +
+    'Several layers: pass a list — layers from the same server share one map_url, layers from different servers ' +
+    '(e.g. soil_types + gravel_deposits) are composited into one image returned as image content, ' +
+    'with a legend per layer.',
   inputSchema: getMapInputSchema,
 };
 
 type GetMapInput = {
-  layer: MapLayer;
+  layer: MapLayer | MapLayer[];
   minLat?: number;
   minLon?: number;
   maxLat?: number;
   maxLon?: number;
   coordinates?: { latitude: number; longitude: number }[];
   bufferMeters?: number;
+  inputCrs?: InputCrs;
   width?: number;
   height?: number;
   format?: 'png' | 'jpeg';
+  opacity?: number | number[];
+  includeImage?: boolean;
 };
 
+// Keeps the base64 payload well inside what MCP clients accept per content block
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const MAX_LAYERS = 6;
+// Compositing decodes every layer at full size, so the size is bounded before anything is planned
+const MIN_IMAGE_SIZE = 100;
+const MAX_IMAGE_SIZE = 4096;
+
 const MAP_METHODS: Record<MapLayer, (bbox: BoundingBox, options: MapOptions) => MapResponse> = {
   bedrock: sguClient.getBedrockMapUrl,
   soil_types: sguClient.getSoilTypesMapUrl,
@@ -115,23 +137,116 @@ function processMapInput(args: GetMapInput): BoundingBox {
     );
   }
 
+  const inputCrs = args.inputCrs ?? 'EPSG:4326';
   if (hasCorridor) {
-    const sweref99Coords = wgs84CoordinatesToSweref99(args.coordinates!);
+    const sweref99Coords = wgs84CoordinatesToSweref99(args.coordinates!.map((c) => inputToWgs84(c, inputCrs, 'coordinates')));
     const bbox = corridorToBoundingBox({ coordinates: sweref99Coords, bufferMeters: args.bufferMeters ?? 500 });
     validateBbox(bbox);
     return bbox;
   }
 
-  const bbox = wgs84BboxToSweref99(
+  const bbox = inputBboxToSweref99(
     { minLat: args.minLat!, minLon: args.minLon!, maxLat: args.maxLat!, maxLon: args.maxLon! },
+    inputCrs,
     args.bufferMeters,
   );
   validateBbox(bbox);
   return bbox;
 }
 
+function validateImageSize(args: GetMapInput) {
+  for (const field of ['width', 'height'] as const) {
+    const size = args[field];
+    if (size !== undefined && !(Number.isInteger(size) && size >= MIN_IMAGE_SIZE && size <= MAX_IMAGE_SIZE)) {
+      throw new ValidationError(`${field} must be a whole number of pixels from ${MIN_IMAGE_SIZE} to ${MAX_IMAGE_SIZE}`, field);
+    }
+  }
+}
+
+function resolveLayers(args: GetMapInput): MapLayerRequest[] {
+  const layers = typeof args.layer === 'string' ? [args.layer] : args.layer;
+  if (layers.length === 0 || layers.length > MAX_LAYERS) {
+    throw new ValidationError(`layer must list 1 to ${MAX_LAYERS} layers`, 'layer');
+  }
+  if (new Set(layers).size !== layers.length) {
+    throw new ValidationError('layer lists the same layer more than once', 'layer');
+  }
+
+  const { opacity } = args;
+  if (Array.isArray(opacity) && opacity.length !== layers.length) {
+    throw new ValidationError(`opacity has ${opacity.length} values for ${layers.length} layers`, 'opacity');
+  }
+  const opacities = layers.map((_, i) => (Array.isArray(opacity) ? opacity[i] : i > 0 ? (opacity ?? 1) : 1));
+  if (opacities.some((o) => !(o >= 0 && o <= 1))) {
+    throw new ValidationError('opacity values must be between 0 and 1', 'opacity');
+  }
+
+  return layers.map((layer, i) => ({ layer, opacity: opacities[i] }));
+}
+
+// The URL is still useful when the download fails, so report the problem instead of failing the call
+async function attachImage(result: Record<string, unknown>, download: () => Promise<BinaryBody>) {
+  try {
+    const image = await download();
+    return new ResultWithImages({ ...result, image: { mime_type: image.mimeType, bytes: image.bytes } }, [
+      { type: 'image', data: image.data, mimeType: image.mimeType },
+    ]);
+  } catch (error) {
+    return { ...result, image_error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function getMultiLayerMap(args: GetMapInput, bbox: BoundingBox, layers: MapLayerRequest[]) {
+  const { width = 800, height = 600, format = 'png' } = args;
+  const plan = sguClient.planMapRequests(layers, bbox, { width, height, format });
+  const needsComposite = plan.requests.length > 1 || plan.requests[0].opacity < 1;
+
+  const result = {
+    layer: layers.map((l) => l.layer),
+    ...(!needsComposite && { map_url: plan.requests[0].map_url }),
+    map_requests: plan.requests,
+    legends: plan.legends,
+    bbox: { minX: bbox.minX, minY: bbox.minY, maxX: bbox.maxX, maxY: bbox.maxY },
+    coordinate_system: 'EPSG:3006',
+    composited: needsComposite,
+  };
+
+  if (!needsComposite) {
+    return args.includeImage
+      ? attachImage(result, () => sguClient.fetchMapImage(plan.requests[0].map_url, MAX_IMAGE_BYTES))
+      : result;
+  }
+
+  // No single URL shows layers from different servers — download each (PNG keeps transparency) and composite here
+  const sources = sguClient.planMapRequests(layers, bbox, { width, height, format: 'png' }).requests;
+  return attachImage(result, async () => {
+    const images = await Promise.all(sources.map((r) => sguClient.fetchMapImage(r.map_url, MAX_IMAGE_BYTES)));
+    const composite = await compositeMapImages(
+      images.map((image, i) => ({ image, opacity: sources[i].opacity })),
+      width,
+      height,
+      format,
+    );
+    // Every download fit, but the composite is encoded anew
+    if (composite.bytes > MAX_IMAGE_BYTES) {
+      throw new ValidationError(
+        `The composited map is ${Math.round(composite.bytes / 1024)} KB, above the ${MAX_IMAGE_BYTES / 1024} KB ` +
+          'image limit. Use format "jpeg", a smaller width/height or fewer layers.',
+        'includeImage',
+      );
+    }
+    return composite;
+  });
+}
+
 export const getMapHandler = withErrorHandling(async (args: GetMapInput) => {
+  validateImageSize(args);
   const bbox = processMapInput(args);
+  const layers = resolveLayers(args);
+  if (Array.isArray(args.layer) || layers[0].opacity < 1) {
+    return getMultiLayerMap(args, bbox, layers);
+  }
+
   const getMapUrl = MAP_METHODS[args.layer];
   const mapResponse = getMapUrl(bbox, {
     width: args.width,
@@ -139,8 +254,9 @@ export const getMapHandler = withErrorHandling(async (args: GetMapInput) => {
     format: args.format,
   });
 
-  return {
+  const result = {
     layer: args.layer,
     ...mapResponse,
   };
+  return args.includeImage ? attachImage(result, () => sguClient.fetchMapImage(mapResponse.map_url, MAX_IMAGE_BYTES)) : result;
 });
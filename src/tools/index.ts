@@ -2,10 +2,20 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import { sguQueryTool, sguQueryHandler } from './sgu-query';
 import { getMapTool, getMapHandler } from './get-map';
+import { sguProfileTool, sguProfileHandler } from './sgu-profile';
+import { sguStatusTool, sguStatusHandler } from './sgu-status';
+import { sguNearestDepositsTool, sguNearestDepositsHandler } from './sgu-nearest-deposits';
+import { sguDepthToRockTool, sguDepthToRockHandler } from './sgu-depth-to-rock';
+import { sguLandslideScreeningTool, sguLandslideScreeningHandler } from './sgu-landslide-screening';
 
 const tools = [
   { definition: sguQueryTool, handler: sguQueryHandler },
   { definition: getMapTool, handler: getMapHandler },
+  { definition: sguProfileTool, handler: sguProfileHandler },
+  { definition: sguStatusTool, handler: sguStatusHandler },
+  { definition: sguNearestDepositsTool, handler: sguNearestDepositsHandler },
+  { definition: sguDepthToRockTool, handler: sguDepthToRockHandler },
+  { definition: sguLandslideScreeningTool, handler: sguLandslideScreeningHandler },
 ];
 
 export function registerAllTools(server: McpServer): void {
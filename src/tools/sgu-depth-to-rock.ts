@@ -0,0 +1,116 @@
+import { withErrorHandling } from '@/lib/response';
+import { sweref99BboxToWgs84, wgs84ToSweref99 } from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import { queryAll } from '@/lib/data-registry';
+import { estimateDepthToRock, type RockObservation } from '@/lib/depth-to-rock';
+import type { Borehole } from '@/lib/boreholes';
+import type { BoundingBox } from '@/lib/geometry-utils';
+import { latitudeSchema, longitudeSchema, observationRadiusKmSchema } from '@/types/common-schemas';
+import type { DataType } from '@/types/common-schemas';
+import type { WellFeature } from '@/types/features';
+import type { SoilDepthInfo } from '@/types/point-queries';
+
+export const sguDepthToRockInputSchema = {
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  radiusKm: observationRadiusKmSchema,
+};
+
+export const sguDepthToRockTool = {
+  name: 'sgu_depth_to_rock',
+  description:
+    'Depth to rock at a site in Sweden: the SGU soil depth model value checked against observed depths in ' +
+    'nearby wells (soil depth to rock) and geotechnical boreholes (soil layers down to rock). ' +
+    'Returns a distance-weighted observed depth, the nearest observations, how far model and observations ' +
+    'disagree, and a confidence rating (high/medium/low) with reasons. drilling_recommended = true means ' +
+    'the data cannot be relied on for design and geotechnical drilling is advisable. ' +
+    'Coordinates in WGS84 (latitude/longitude).',
+  inputSchema: sguDepthToRockInputSchema,
+};
+
+type SguDepthToRockInput = {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+};
+
+const DEPTH_TYPES: DataType[] = ['soil_depth', 'wells', 'soil_layers'];
+
+const DEFAULT_RADIUS_KM = 1;
+const MAX_RADIUS_KM = 5;
+const OBSERVATION_LIMIT = 200;
+const LISTED_OBSERVATIONS = 10;
+
+type LocatedWell = WellFeature & { distance_m?: number };
+
+function wellObservations(wells: LocatedWell[], radiusM: number): RockObservation[] {
+  return wells.flatMap((well) => {
+    const depth = well.soil_depth_m;
+    if (typeof depth !== 'number' || !Number.isFinite(depth) || depth < 0) return [];
+    if (well.distance_m === undefined || well.distance_m > radiusM) return [];
+    return [{ source: 'well' as const, well_id: well.well_id, distance_m: well.distance_m, depth_m: depth }];
+  });
+}
+
+// Boreholes that reached rock give its depth; the others show the soil goes at least as deep as they do
+function boreholeObservations(boreholes: Borehole[], radiusM: number): RockObservation[] {
+  return boreholes.flatMap((borehole) => {
+    if (borehole.distance_m === undefined || borehole.distance_m > radiusM) return [];
+    if (borehole.rock_reached && borehole.depth_to_rock_m !== undefined) {
+      return [{ source: 'borehole' as const, distance_m: borehole.distance_m, depth_m: borehole.depth_to_rock_m }];
+    }
+    if (borehole.total_depth_m === undefined) return [];
+    return [
+      {
+        source: 'borehole' as const,
+        distance_m: borehole.distance_m,
+        depth_m: borehole.total_depth_m,
+        lower_bound: true as const,
+      },
+    ];
+  });
+}
+
+export const sguDepthToRockHandler = withErrorHandling(async (args: SguDepthToRockInput) => {
+  const radiusKm = args.radiusKm ?? DEFAULT_RADIUS_KM;
+  if (!(radiusKm > 0) || radiusKm > MAX_RADIUS_KM) {
+    throw new ValidationError(`radiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}`, 'radiusKm');
+  }
+  const radiusM = radiusKm * 1000;
+
+  const point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+  const wgs84 = sweref99BboxToWgs84({
+    minX: point.x - radiusM,
+    minY: point.y - radiusM,
+    maxX: point.x + radiusM,
+    maxY: point.y + radiusM,
+  });
+  const bbox: BoundingBox = { minX: wgs84.minLon, minY: wgs84.minLat, maxX: wgs84.maxLon, maxY: wgs84.maxLat };
+
+  const { results, errors, featureCounts } = await queryAll(DEPTH_TYPES, [bbox], [point], OBSERVATION_LIMIT, 'none');
+
+  const model = (results.soil_depth as SoilDepthInfo[] | undefined)?.[0];
+  const observations = [
+    ...wellObservations((results.wells as LocatedWell[] | undefined) ?? [], radiusM),
+    ...boreholeObservations((results.soil_layers as Borehole[] | undefined) ?? [], radiusM),
+  ].sort((a, b) => a.distance_m - b.distance_m);
+  const estimate = estimateDepthToRock(model?.depth_m, observations);
+
+  const response: Record<string, unknown> = {
+    point: { latitude: args.latitude, longitude: args.longitude },
+    radius_m: radiusM,
+    ...estimate,
+    model_depth_class: model?.depth_class,
+    observations: observations.slice(0, LISTED_OBSERVATIONS),
+  };
+  const truncated = (['wells', 'soil_layers'] as const).filter((type) => featureCounts[type]?.truncated);
+  if (truncated.length > 0) {
+    response.warning =
+      `More ${truncated.join(' and ')} within ${radiusKm} km than the service returns in one query; ` +
+      'some nearer observations may be missing. Use a smaller radiusKm.';
+  }
+  if (Object.keys(errors).length > 0) {
+    response.errors = errors;
+  }
+  return response;
+});
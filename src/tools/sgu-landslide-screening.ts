@@ -0,0 +1,124 @@
+import { withErrorHandling } from '@/lib/response';
+import { wgs84ToSweref99 } from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import { bearingDegrees, geometryBounds, type Point } from '@/lib/geometry-utils';
+import {
+  byDistance,
+  failureMessages,
+  locateFeature,
+  searchLayers,
+  throwIfAllFailed,
+  withinRadius,
+  type NearbySearch,
+} from '@/lib/nearby-search';
+import {
+  compassDirection,
+  screenLandslideRisk,
+  screeningLayers,
+  type ScreeningFeature,
+  type ScreeningLayer,
+} from '@/lib/landslide-screening';
+import { sguClient, type NearbyFeature } from '@/clients/sgu-client';
+import { latitudeSchema, longitudeSchema, screeningRadiusKmSchema } from '@/types/common-schemas';
+import type { LandslideHazardInfo, LandslideInfo } from '@/types/point-queries';
+
+export const sguLandslideScreeningInputSchema = {
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  radiusKm: screeningRadiusKmSchema,
+};
+
+export const sguLandslideScreeningTool = {
+  name: 'sgu_landslide_screening',
+  description:
+    'Landslide and slope-stability screening for a site in Sweden. Lists every historical landslide scar ' +
+    'within the radius with distance and compass direction from the site, areas with prerequisites for ' +
+    'slides in fine-grained soil (clay, silt) and eroding shores, and combines them into a qualitative ' +
+    'screening level (high/moderate/low) with the evidence behind it. A screening, not a stability ' +
+    'assessment: a high or moderate level calls for a geotechnical investigation. ' +
+    'Coordinates in WGS84 (latitude/longitude).',
+  inputSchema: sguLandslideScreeningInputSchema,
+};
+
+type SguLandslideScreeningInput = {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+};
+
+type HazardInfo = LandslideInfo | LandslideHazardInfo;
+
+const DEFAULT_RADIUS_KM = 0.5;
+const MAX_RADIUS_KM = 2;
+
+const SEARCHES: Record<ScreeningLayer, NearbySearch<HazardInfo>> = {
+  landslide_scars: sguClient.getLandslidesNear,
+  slope_prerequisites: sguClient.getSlopePrerequisitesNear,
+  shore_erosion: sguClient.getShoreErosionNear,
+};
+
+function toScreeningFeature(feature: NearbyFeature<HazardInfo>, point: Point, radiusM: number) {
+  const located: ScreeningFeature & HazardInfo = { ...feature.info, ...locateFeature(feature, point, radiusM) };
+  if (feature.geometry && located.distance_m !== 0) {
+    const bounds = geometryBounds(feature.geometry);
+    const bearing = bearingDegrees(point, { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 });
+    located.bearing_deg = Math.round(bearing);
+    located.direction = compassDirection(bearing);
+  }
+  return located;
+}
+
+export const sguLandslideScreeningHandler = withErrorHandling(async (args: SguLandslideScreeningInput) => {
+  const radiusKm = args.radiusKm ?? DEFAULT_RADIUS_KM;
+  if (!(radiusKm > 0) || radiusKm > MAX_RADIUS_KM) {
+    throw new ValidationError(`radiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}`, 'radiusKm');
+  }
+  const radiusM = radiusKm * 1000;
+
+  const point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+
+  const { found: features, truncated, failures } = await searchLayers(SEARCHES, screeningLayers, point, radiusM);
+  throwIfAllFailed(screeningLayers, failures);
+
+  const found: Partial<Record<ScreeningLayer, (ScreeningFeature & HazardInfo)[]>> = {};
+  // Features without an outline: the square searched may be larger than the radius, so their distance is unknown
+  const unlocated: Partial<Record<ScreeningLayer, HazardInfo[]>> = {};
+  for (const layer of screeningLayers) {
+    // A failed layer stays out of `found`: the screening reports it as unknown, not as clear
+    if (!features[layer]) continue;
+    const withoutGeometry = features[layer].filter((feature) => !feature.geometry);
+    if (withoutGeometry.length > 0) unlocated[layer] = withoutGeometry.map((feature) => feature.info);
+    found[layer] = features[layer]
+      .filter((feature) => feature.geometry)
+      .map((feature) => toScreeningFeature(feature, point, radiusM))
+      // The query covers a square, possibly enlarged for the layer's scale limit
+      .filter((feature) => withinRadius(feature, radiusM))
+      .sort(byDistance);
+  }
+
+  const response: Record<string, unknown> = {
+    point: { latitude: args.latitude, longitude: args.longitude },
+    radius_m: radiusM,
+    screening: screenLandslideRisk(found),
+    ...found,
+  };
+  const warnings: string[] = [];
+  if (truncated.length > 0) {
+    warnings.push(
+      `More ${truncated.join(' and ')} features than the service returns in one query; ` +
+        'some features within the radius may be missing.',
+    );
+  }
+  const unlocatedLayers = Object.keys(unlocated);
+  if (unlocatedLayers.length > 0) {
+    response.unlocated = unlocated;
+    warnings.push(
+      `Some ${unlocatedLayers.join(' and ')} features came without an outline; ` +
+        'they may lie outside the radius and are listed under unlocated, not in the screening.',
+    );
+  }
+  if (warnings.length > 0) response.warning = warnings.join(' ');
+  const errors = failureMessages(failures);
+  if (errors) response.errors = errors;
+  return response;
+});
@@ -0,0 +1,139 @@
+import { withErrorHandling } from '@/lib/response';
+import { wgs84ToSweref99 } from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import {
+  byDistance,
+  failureMessages,
+  locateFeature,
+  searchLayers,
+  throwIfAllFailed,
+  withinRadius,
+  type NearbyLocation,
+  type NearbySearch,
+} from '@/lib/nearby-search';
+import { sguClient } from '@/clients/sgu-client';
+import {
+  depositKinds,
+  depositKindsSchema,
+  depositCountSchema,
+  latitudeSchema,
+  longitudeSchema,
+  maxRadiusKmSchema,
+} from '@/types/common-schemas';
+import type { DepositKind } from '@/types/common-schemas';
+import type { GravelDepositInfo, RockDepositInfo } from '@/types/point-queries';
+
+export const sguNearestDepositsInputSchema = {
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  depositKinds: depositKindsSchema,
+  count: depositCountSchema,
+  maxRadiusKm: maxRadiusKmSchema,
+};
+
+export const sguNearestDepositsTool = {
+  name: 'sgu_nearest_deposits',
+  description:
+    'Find the nearest construction aggregate sources to a site in Sweden: sand and gravel deposits and ' +
+    'bedrock deposits assessed for crushed rock (SGU ballast database). Searches outward in growing rings ' +
+    '(1, 2.5, 5, 10, 25, 50 km) until enough deposits are found and returns the nearest ones with distance, ' +
+    'deposit type, material or rock type and quality assessment. ' +
+    'Coordinates in WGS84 (latitude/longitude).',
+  inputSchema: sguNearestDepositsInputSchema,
+};
+
+type SguNearestDepositsInput = {
+  latitude: number;
+  longitude: number;
+  depositKinds?: DepositKind[];
+  count?: number;
+  maxRadiusKm?: number;
+};
+
+type DepositInfo = GravelDepositInfo | RockDepositInfo;
+
+interface NearestDeposit extends NearbyLocation {
+  kind: DepositKind;
+}
+
+const DEFAULT_COUNT = 5;
+const MAX_COUNT = 20;
+const DEFAULT_MAX_RADIUS_KM = 25;
+const MAX_RADIUS_KM = 50;
+const RING_RADII_M = [1000, 2500, 5000, 10000, 25000, 50000];
+
+const SEARCHES: Record<DepositKind, NearbySearch<DepositInfo>> = {
+  gravel: sguClient.getGravelDepositsNear,
+  rock: sguClient.getRockDepositsNear,
+};
+
+// Ring radii up to and including the max radius
+function searchRings(maxRadiusM: number): number[] {
+  const rings = RING_RADII_M.filter((r) => r < maxRadiusM);
+  return [...rings, maxRadiusM];
+}
+
+export const sguNearestDepositsHandler = withErrorHandling(async (args: SguNearestDepositsInput) => {
+  const count = args.count ?? DEFAULT_COUNT;
+  const maxRadiusKm = args.maxRadiusKm ?? DEFAULT_MAX_RADIUS_KM;
+  const kinds = args.depositKinds?.length ? [...new Set(args.depositKinds)] : [...depositKinds];
+  if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+    throw new ValidationError(`count must be an integer between 1 and ${MAX_COUNT}`, 'count');
+  }
+  if (!(maxRadiusKm > 0) || maxRadiusKm > MAX_RADIUS_KM) {
+    throw new ValidationError(`maxRadiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}`, 'maxRadiusKm');
+  }
+
+  const point = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+
+  const rings: { radius_m: number; found: number }[] = [];
+  const failures: Partial<Record<DepositKind, unknown>> = {};
+  const truncatedRings: number[] = [];
+  let deposits: (NearestDeposit & DepositInfo)[] = [];
+
+  for (const radiusM of searchRings(maxRadiusKm * 1000)) {
+    const activeKinds = kinds.filter((kind) => !(kind in failures));
+    if (activeKinds.length === 0) break;
+
+    // Each ring re-queries the whole square around the point, so inner deposits are found again
+    const search = await searchLayers(SEARCHES, activeKinds, point, radiusM);
+    const found: (NearestDeposit & DepositInfo)[] = [];
+    for (const kind of activeKinds) {
+      const features = search.found[kind];
+      if (!features) {
+        // Keep what the previous ring found for this kind
+        failures[kind] = search.failures[kind];
+        found.push(...deposits.filter((d) => d.kind === kind));
+        continue;
+      }
+      for (const feature of features) {
+        const deposit = { kind, ...feature.info, ...locateFeature(feature, point, radiusM) };
+        // The query covers a square; its corners belong to the next ring
+        if (withinRadius(deposit, radiusM)) found.push(deposit);
+      }
+    }
+    if (search.truncated.length > 0) truncatedRings.push(radiusM);
+
+    deposits = found;
+    rings.push({ radius_m: radiusM, found: found.length });
+    if (found.length >= count) break;
+  }
+
+  throwIfAllFailed(kinds, failures);
+
+  const response: Record<string, unknown> = {
+    point: { latitude: args.latitude, longitude: args.longitude },
+    deposit_kinds: kinds,
+    searched_radius_m: rings[rings.length - 1]?.radius_m,
+    deposits: deposits.sort(byDistance).slice(0, count),
+    rings,
+  };
+  if (truncatedRings.length > 0) {
+    response.warning =
+      `More deposits than the service returns in one query within ${Math.min(...truncatedRings) / 1000} km; ` +
+      'some nearer deposits may be missing.';
+  }
+  const errors = failureMessages(failures);
+  if (errors) response.errors = errors;
+  return response;
+});
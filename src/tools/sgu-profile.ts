@@ -0,0 +1,144 @@
+import { withErrorHandling } from '@/lib/response';
+import {
+  isValidWgs84Coordinate,
+  sweref99BboxToWgs84,
+  sweref99ToWgs84,
+  wgs84CoordinatesToSweref99,
+  wgs84ToSweref99,
+} from '@/lib/coordinates';
+import { ValidationError } from '@/lib/errors';
+import { queryAll } from '@/lib/data-registry';
+import { isValidSwedishCoordinate, lineLength, sampleLine, type BoundingBox, type Point } from '@/lib/geometry-utils';
+import { formatChainage, mergeStations, type ProfileStation } from '@/lib/profile';
+import { roundTo } from '@/lib/numbers';
+import { alignmentSchema, stationIntervalMetersSchema, startChainageMetersSchema } from '@/types/common-schemas';
+import type { DataType } from '@/types/common-schemas';
+import type { GroundwaterVulnerabilityInfo, LandslideInfo, SoilDepthInfo } from '@/types/point-queries';
+
+export const sguProfileInputSchema = {
+  alignment: alignmentSchema,
+  stationIntervalMeters: stationIntervalMetersSchema,
+  startChainageMeters: startChainageMetersSchema,
+};
+
+export const sguProfileTool = {
+  name: 'sgu_profile',
+  description:
+    'Geological profile along a linear alignment (railway, road, pipeline) in Sweden, keyed by chainage (km+m). ' +
+    'At each station: soil type, bedrock, soil depth (depth to rock), groundwater vulnerability and nearby landslide scars. ' +
+    'Consecutive stations with the same conditions are merged into segments, e.g. ' +
+    '"km 2+300–3+150: lera over granit, 8–12 m to rock". ' +
+    'Coordinates in WGS84 (latitude/longitude).',
+  inputSchema: sguProfileInputSchema,
+};
+
+type SguProfileInput = {
+  alignment: { latitude: number; longitude: number }[];
+  stationIntervalMeters?: number;
+  startChainageMeters?: number;
+};
+
+const PROFILE_TYPES: DataType[] = ['bedrock', 'soil_type', 'soil_depth', 'groundwater_vulnerability', 'landslide'];
+
+const DEFAULT_STATION_INTERVAL_M = 100;
+const MAX_STATIONS = 100;
+// Area features are looked up in a small box around each station
+const STATION_RADIUS_M = 10;
+
+async function queryStation(point: Point, chainageM: number): Promise<{ station: ProfileStation; errors: string[] }> {
+  const wgs84 = sweref99BboxToWgs84({
+    minX: point.x - STATION_RADIUS_M,
+    minY: point.y - STATION_RADIUS_M,
+    maxX: point.x + STATION_RADIUS_M,
+    maxY: point.y + STATION_RADIUS_M,
+  });
+  const bbox: BoundingBox = { minX: wgs84.minLon, minY: wgs84.minLat, maxX: wgs84.maxLon, maxY: wgs84.maxLat };
+
+  const { results, errors, primary } = await queryAll(PROFILE_TYPES, [bbox], [point], 5, 'none');
+
+  // primary = the soil and bedrock units whose polygons actually contain the station
+  const under = primary[0];
+  const depth = (results.soil_depth as SoilDepthInfo[] | undefined)?.[0];
+  const vulnerability = (results.groundwater_vulnerability as GroundwaterVulnerabilityInfo[] | undefined)?.[0];
+  const landslide = (results.landslide as LandslideInfo[] | undefined)?.[0];
+  const { latitude, longitude } = sweref99ToWgs84(point);
+
+  return {
+    station: {
+      chainage: formatChainage(chainageM),
+      chainage_m: Math.round(chainageM),
+      latitude: roundTo(latitude, 6),
+      longitude: roundTo(longitude, 6),
+      soil_type: under?.soil_type as string | undefined,
+      bedrock: under?.bedrock as string | undefined,
+      soil_depth_m: depth?.depth_m,
+      groundwater_vulnerability: vulnerability?.vulnerability_class,
+      landslide: landslide?.description,
+    },
+    errors: Object.entries(errors).map(([type, message]) => `${type}: ${message}`),
+  };
+}
+
+export const sguProfileHandler = withErrorHandling(async (args: SguProfileInput) => {
+  const interval = args.stationIntervalMeters ?? DEFAULT_STATION_INTERVAL_M;
+  const startChainage = args.startChainageMeters ?? 0;
+  if (!(interval > 0)) {
+    throw new ValidationError('stationIntervalMeters must be greater than 0', 'stationIntervalMeters');
+  }
+  if (!(startChainage >= 0)) {
+    throw new ValidationError('startChainageMeters must be 0 or greater', 'startChainageMeters');
+  }
+
+  const alignment = args.alignment ?? [];
+  if (alignment.length < 2) {
+    throw new ValidationError('A profile alignment needs at least 2 vertices', 'alignment');
+  }
+  // The WGS84 box alone lets corners of the neighbouring countries through, so check SWEREF99 TM as well
+  const outside = alignment.findIndex(({ latitude, longitude }) => {
+    if (!isValidWgs84Coordinate(latitude, longitude)) return true;
+    const { x, y } = wgs84ToSweref99({ latitude, longitude });
+    return !isValidSwedishCoordinate(x, y);
+  });
+  if (outside >= 0) {
+    const { latitude, longitude } = alignment[outside];
+    throw new ValidationError(`Alignment vertex ${outside + 1} (${latitude}, ${longitude}) is outside Sweden`, 'alignment');
+  }
+
+  const sweref99Coords = wgs84CoordinatesToSweref99(alignment);
+  const length = lineLength(sweref99Coords);
+  const stationPoints = sampleLine(sweref99Coords, interval);
+  if (stationPoints.length > MAX_STATIONS) {
+    throw new ValidationError(
+      `The ${Math.round(length)} m alignment needs ${stationPoints.length} stations at ${interval} m (max ${MAX_STATIONS}). ` +
+        'Increase stationIntervalMeters or split the alignment.',
+      'stationIntervalMeters',
+    );
+  }
+
+  // sampleLine places stations at exact multiples of the interval, plus the end vertex
+  const stationChainages = stationPoints.map((_, i) =>
+    i === stationPoints.length - 1 ? startChainage + length : startChainage + i * interval,
+  );
+
+  const stationResults = await Promise.all(stationPoints.map((p, i) => queryStation(p, stationChainages[i])));
+  const stations = stationResults.map((r) => r.station);
+
+  // Collapse per-station errors so one failing service doesn't produce 100 identical messages
+  const errors = [...new Set(stationResults.flatMap((r) => r.errors))];
+
+  const response: Record<string, unknown> = {
+    alignment: {
+      start: formatChainage(startChainage),
+      end: formatChainage(startChainage + length),
+      length_m: Math.round(length),
+      station_interval_m: interval,
+      station_count: stations.length,
+    },
+    segments: mergeStations(stations),
+    stations,
+  };
+  if (errors.length > 0) {
+    response.errors = errors;
+  }
+  return response;
+});
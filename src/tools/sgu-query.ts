@@ -1,65 +1,169 @@
 import { withErrorHandling } from '@/lib/response';
-import { wgs84ToSweref99, sweref99BboxToWgs84, validateWgs84Bbox, isValidWgs84Coordinate } from '@/lib/coordinates';
+import {
+  wgs84ToSweref99,
+  sweref99BboxToWgs84,
+  validateWgs84Bbox,
+  isValidWgs84Coordinate,
+  inputToWgs84,
+  inputGeometryToSweref99,
+} from '@/lib/coordinates';
 import { ValidationError } from '@/lib/errors';
 import { queryAll } from '@/lib/data-registry';
 import {
   dataTypes,
   dataTypesSchema,
   pointsSchema,
+  routeSchema,
+  areaSchema,
+  routeBufferMetersSchema,
+  sampleSpacingMetersSchema,
   radiusKmSchema,
   geometryDetailSchema,
   limitSchema,
+  outputFormatSchema,
+  geojsonLayoutSchema,
+  outputCrsSchema,
+  inputCrsSchema,
+  soilMapScaleSchema,
+} from '@/types/common-schemas';
+import type {
+  AreaInput,
+  DataType,
+  GeometryDetail,
+  GeojsonLayout,
+  InputCrs,
+  OutputCrs,
+  OutputFormat,
+  SoilMapScale,
 } from '@/types/common-schemas';
-import type { DataType, GeometryDetail } from '@/types/common-schemas';
-import type { BoundingBox, Point } from '@/lib/geometry-utils';
+import { toFeatureCollection, toFeatureCollections } from '@/lib/geojson-output';
+import { summarizeAreaSamples, type AreaStatistics } from '@/lib/area-statistics';
+import { summarizeWells } from '@/lib/well-statistics';
+import type { WellFeature } from '@/types/features';
+import {
+  bufferCorridor,
+  corridorToBoundingBox,
+  geometryBounds,
+  lineLength,
+  normalizePolygon,
+  parsePolygonWkt,
+  polygonArea,
+  polygonToWkt,
+  ringToWkt,
+  sampleLine,
+  samplePolygonGrid,
+  unionOfBoxes,
+  type BoundingBox,
+  type Corridor,
+  type Point,
+} from '@/lib/geometry-utils';
+import type { GeoJsonGeometry } from '@/types/geojson';
 
 export const sguQueryInputSchema = {
   dataTypes: dataTypesSchema,
   points: pointsSchema,
+  route: routeSchema,
+  area: areaSchema,
+  inputCrs: inputCrsSchema,
+  bufferMeters: routeBufferMetersSchema,
+  sampleSpacingMeters: sampleSpacingMetersSchema,
   radiusKm: radiusKmSchema,
   geometryDetail: geometryDetailSchema,
   limit: limitSchema,
+  outputFormat: outputFormatSchema,
+  geojsonLayout: geojsonLayoutSchema,
+  outputCrs: outputCrsSchema,
+  soilMapScale: soilMapScaleSchema,
 };
 
 export const sguQueryTool = {
   name: 'sgu_query',
   description:
     'Query geological data at one or more points in Sweden. ' +
-    'Returns area features (bedrock, soil, wells, aquifers, soil layers) and point measurements ' +
-    '(radon, soil depth, groundwater vulnerability, landslide). ' +
-    'One point = site assessment. Multiple points = corridor sampling (e.g. along a railway track). ' +
-    'Use "all" for dataTypes to get everything, or specify which types you need.',
+    'Returns area features (bedrock, soil, wells, aquifers, soil layers grouped into boreholes) and point measurements ' +
+    '(radon, soil depth, groundwater vulnerability, landslide, boulder coverage, gravel and rock deposits). ' +
+    'One point = site assessment. Multiple points = spot sampling. ' +
+    'For linear infrastructure (railway, road, pipeline) pass route + bufferMeters instead: ' +
+    'area types cover the full buffered corridor and point types are sampled every sampleSpacingMeters. ' +
+    'For a property or work area pass area (GeoJSON or WKT polygon): point types are sampled on a grid and ' +
+    'summarised as area statistics (min/max/mean soil depth, share of the area per vulnerability class). ' +
+    'Use "all" for dataTypes to get everything, or specify which types you need. ' +
+    'Bedrock, soil type and aquifers come with a summary: the share of the query area per rock, soil or aquifer type. ' +
+    'Soil types come from the most detailed soil map with data at the location (map_scale on each feature). ' +
+    'Wells come with well_statistics: median and percentiles of depth, soil depth, capacity and groundwater level, ' +
+    'overall and per usage. ' +
+    'Coordinates in WGS84, or SWEREF99 TM, RT90 or a SWEREF99 local zone via inputCrs. ' +
+    'Set outputFormat "geojson" for a FeatureCollection that GIS tools can load directly.',
   inputSchema: sguQueryInputSchema,
 };
 
+type LatLon = { latitude: number; longitude: number };
+
 type SguQueryInput = {
   dataTypes: DataType[] | 'all';
-  points: { latitude: number; longitude: number }[];
+  points?: LatLon[];
+  route?: LatLon[];
+  area?: AreaInput;
+  inputCrs?: InputCrs;
+  bufferMeters?: number;
+  sampleSpacingMeters?: number;
   radiusKm?: number;
   geometryDetail?: GeometryDetail;
   limit?: number;
+  outputFormat?: OutputFormat;
+  geojsonLayout?: GeojsonLayout;
+  outputCrs?: OutputCrs;
+  soilMapScale?: SoilMapScale;
 };
 
-export const sguQueryHandler = withErrorHandling(async (args: SguQueryInput) => {
-  if (!args.points || args.points.length === 0) {
-    throw new ValidationError('At least one point is required', 'points');
-  }
-  for (const p of args.points) {
+const DEFAULT_ROUTE_BUFFER_M = 200;
+const MAX_ROUTE_BUFFER_M = 5000;
+const DEFAULT_SAMPLE_SPACING_M = 500;
+// Each sample costs one WMS request per point type
+const MAX_ROUTE_SAMPLES = 100;
+// Default area grid: about this many cells over the polygon, cell size rounded up to 10 m
+const DEFAULT_AREA_SAMPLES = 50;
+const MIN_AREA_SPACING_M = 10;
+
+// Everything queryAll needs, resolved from either points or route input
+interface ResolvedQueryArea {
+  perPointBboxes: BoundingBox[];
+  sweref99Points: Point[];
+  envelope: BoundingBox; // SWEREF99TM
+  polygonWkt?: string;
+  /** SWEREF99TM polygon covered by the query, for the composition summaries */
+  summaryArea: GeoJsonGeometry;
+  /** Point types were sampled on a grid inside an area and are reported as statistics */
+  gridSampled?: boolean;
+  /** Points only: wells further than this from every point (square corners) stay out of the well statistics */
+  radiusM?: number;
+  query: Record<string, unknown>;
+}
+
+function validateInSweden(coords: LatLon[], field: string): void {
+  for (const p of coords) {
     if (!isValidWgs84Coordinate(p.latitude, p.longitude)) {
-      throw new ValidationError(
-        `Point (${p.latitude}, ${p.longitude}) is outside Sweden (55-69°N, 11-24°E)`,
-        'points',
-      );
+      throw new ValidationError(`Point (${p.latitude}, ${p.longitude}) is outside Sweden (55-69°N, 11-24°E)`, field);
     }
   }
+}
 
-  const requestedTypes: DataType[] = args.dataTypes === 'all' ? [...dataTypes] : args.dataTypes;
-  const radiusKm = args.radiusKm ?? 0.2;
-  const geometryDetail = args.geometryDetail ?? 'simplified';
-  const limit = args.limit ?? 50;
+// SWEREF99TM bbox -> WGS84 bbox in BoundingBox form (minX=minLon, minY=minLat), as the OGC API expects
+function toWgs84QueryBbox(sweref99Bbox: BoundingBox, outOfBoundsMessage: string, field: string): BoundingBox {
+  const wgs84 = sweref99BboxToWgs84(sweref99Bbox);
+  try {
+    validateWgs84Bbox(wgs84);
+  } catch {
+    throw new ValidationError(outOfBoundsMessage, field);
+  }
+  return { minX: wgs84.minLon, minY: wgs84.minLat, maxX: wgs84.maxLon, maxY: wgs84.maxLat };
+}
+
+function resolvePoints(points: LatLon[], radiusKm: number): ResolvedQueryArea {
+  validateInSweden(points, 'points');
 
   // Convert points to SWEREF99TM (for WMS queries and bbox computation)
-  const sweref99Points: Point[] = args.points.map((p) => {
+  const sweref99Points: Point[] = points.map((p) => {
     const s = wgs84ToSweref99(p);
     return { x: s.x, y: s.y };
   });
@@ -67,43 +171,238 @@ export const sguQueryHandler = withErrorHandling(async (args: SguQueryInput) =>
   // Compute per-point bboxes: each point gets its own radius-sized bbox
   // This prevents bbox explosion when points are far apart (e.g. corridor sampling)
   const radiusM = radiusKm * 1000;
-  const perPointBboxes: BoundingBox[] = sweref99Points.map((p) => {
-    const sweref99Bbox = {
-      minX: p.x - radiusM,
-      minY: p.y - radiusM,
-      maxX: p.x + radiusM,
-      maxY: p.y + radiusM,
-    };
-    const wgs84 = sweref99BboxToWgs84(sweref99Bbox);
-    try {
-      validateWgs84Bbox(wgs84);
-    } catch {
-      throw new ValidationError(
-        `The ${radiusKm}km radius extends outside Sweden's bounds. Reduce radiusKm or pick a point further from the border.`,
-        'radiusKm',
-      );
-    }
-    return { minX: wgs84.minLon, minY: wgs84.minLat, maxX: wgs84.maxLon, maxY: wgs84.maxLat };
-  });
-
-  const { results, errors } = await queryAll(requestedTypes, perPointBboxes, sweref99Points, limit, geometryDetail);
+  const squares: BoundingBox[] = sweref99Points.map((p) => ({
+    minX: p.x - radiusM,
+    minY: p.y - radiusM,
+    maxX: p.x + radiusM,
+    maxY: p.y + radiusM,
+  }));
+  const perPointBboxes: BoundingBox[] = squares.map((square) =>
+    toWgs84QueryBbox(
+      square,
+      `The ${radiusKm}km radius extends outside Sweden's bounds. Reduce radiusKm or pick a point further from the border.`,
+      'radiusKm',
+    ),
+  );
 
-  // Compute envelope bbox for response metadata
-  const envelopeBbox = sweref99BboxToWgs84({
+  const envelope = {
     minX: Math.min(...sweref99Points.map((p) => p.x)) - radiusM,
     minY: Math.min(...sweref99Points.map((p) => p.y)) - radiusM,
     maxX: Math.max(...sweref99Points.map((p) => p.x)) + radiusM,
     maxY: Math.max(...sweref99Points.map((p) => p.y)) + radiusM,
-  });
+  };
+
+  return {
+    perPointBboxes,
+    sweref99Points,
+    envelope,
+    summaryArea: unionOfBoxes(squares),
+    radiusM,
+    query: { points, radiusKm },
+  };
+}
+
+function resolveRoute(route: LatLon[], bufferMeters: number, sampleSpacingMeters: number): ResolvedQueryArea {
+  if (route.length < 2) {
+    throw new ValidationError('Route must have at least 2 vertices', 'route');
+  }
+  if (!(bufferMeters > 0) || bufferMeters > MAX_ROUTE_BUFFER_M) {
+    throw new ValidationError(`bufferMeters must be between 0 and ${MAX_ROUTE_BUFFER_M}`, 'bufferMeters');
+  }
+  validateInSweden(route, 'route');
+
+  const corridor: Corridor = {
+    coordinates: route.map((p) => wgs84ToSweref99(p)),
+    bufferMeters,
+  };
+
+  const sweref99Points = sampleLine(corridor.coordinates, sampleSpacingMeters);
+  if (sweref99Points.length > MAX_ROUTE_SAMPLES) {
+    throw new ValidationError(
+      `Route would need ${sweref99Points.length} samples at ${sampleSpacingMeters}m spacing (max ${MAX_ROUTE_SAMPLES}). ` +
+        'Increase sampleSpacingMeters or split the route.',
+      'sampleSpacingMeters',
+    );
+  }
+
+  // One OGC query over the whole buffered corridor; the envelope bbox only selects the client
+  const ring = bufferCorridor(corridor);
+  const envelope = corridorToBoundingBox(corridor);
+  const queryBbox = toWgs84QueryBbox(
+    envelope,
+    "The buffered route extends outside Sweden's bounds. Reduce bufferMeters or move the route away from the border.",
+    'bufferMeters',
+  );
+
+  return {
+    perPointBboxes: [queryBbox],
+    sweref99Points,
+    envelope,
+    polygonWkt: ringToWkt(ring),
+    summaryArea: { type: 'Polygon', coordinates: [ring] },
+    query: {
+      route,
+      bufferMeters,
+      sampleSpacingMeters,
+      route_length_m: Math.round(lineLength(corridor.coordinates)),
+      sample_count: sweref99Points.length,
+    },
+  };
+}
+
+function resolveArea(area: AreaInput, inputCrs: InputCrs, sampleSpacingMeters?: number): ResolvedQueryArea {
+  const parsed = typeof area === 'string' ? parsePolygonWkt(area) : normalizePolygon(area);
+  const geometry = inputGeometryToSweref99(parsed, inputCrs, 'area');
+  const areaM2 = polygonArea(geometry);
+  if (!(areaM2 > 0)) {
+    throw new ValidationError('Area polygon has no area', 'area');
+  }
+
+  const spacing =
+    sampleSpacingMeters ?? Math.max(MIN_AREA_SPACING_M, Math.ceil(Math.sqrt(areaM2 / DEFAULT_AREA_SAMPLES) / 10) * 10);
+  // About one sample per spacing² of area — don't walk the grid at all when that is far over the cap
+  const estimate = Math.round(areaM2 / spacing ** 2);
+  const sweref99Points = estimate > 4 * MAX_ROUTE_SAMPLES ? undefined : samplePolygonGrid(geometry, spacing);
+  if (!sweref99Points || sweref99Points.length > MAX_ROUTE_SAMPLES) {
+    throw new ValidationError(
+      `Area would need ${sweref99Points?.length ?? `about ${estimate}`} samples at ${spacing}m spacing ` +
+        `(max ${MAX_ROUTE_SAMPLES}). Increase sampleSpacingMeters.`,
+      'sampleSpacingMeters',
+    );
+  }
+  if (sweref99Points.length === 0) {
+    throw new ValidationError(
+      `No grid sample falls inside the area at ${spacing}m spacing. Decrease sampleSpacingMeters.`,
+      'sampleSpacingMeters',
+    );
+  }
 
-  const response: Record<string, unknown> = {
+  const envelope = geometryBounds(geometry);
+  const queryBbox = toWgs84QueryBbox(envelope, "The area extends outside Sweden's bounds.", 'area');
+
+  return {
+    perPointBboxes: [queryBbox],
+    sweref99Points,
+    envelope,
+    polygonWkt: polygonToWkt(geometry),
+    summaryArea: geometry,
+    gridSampled: true,
     query: {
-      points: args.points,
-      radiusKm,
-      bbox: envelopeBbox,
+      area,
+      area_m2: Math.round(areaM2),
+      sampleSpacingMeters: spacing,
+      sample_count: sweref99Points.length,
     },
-    ...results,
   };
+}
+
+// Point type results of a grid-sampled area -> one statistics object per type
+function areaStatistics(
+  results: Record<string, unknown>,
+  pointIndices: Record<string, number[]>,
+  sampleCount: number,
+): Record<string, AreaStatistics> {
+  return Object.fromEntries(
+    Object.keys(pointIndices).map((type) => [
+      type,
+      summarizeAreaSamples(type as DataType, results[type] as Record<string, unknown>[], sampleCount),
+    ]),
+  );
+}
+
+// Well distribution over the wells inside the query radius or polygon
+function wellStatistics(wells: (WellFeature & { distance_m?: number })[], radiusM: number | undefined, truncated: boolean) {
+  const inside = radiusM === undefined ? wells : wells.filter((well) => (well.distance_m ?? 0) <= radiusM);
+  return summarizeWells(inside, truncated);
+}
+
+export const sguQueryHandler = withErrorHandling(async (args: SguQueryInput) => {
+  const hasPoints = args.points !== undefined && args.points.length > 0;
+  const hasRoute = args.route !== undefined && args.route.length > 0;
+  const hasArea = args.area !== undefined;
+  const given = [hasPoints && 'points', hasRoute && 'route', hasArea && 'area'].filter((g): g is string => !!g);
+  if (given.length > 1) {
+    throw new ValidationError(`Provide one of points, route or area, not both ${given[0]} and ${given[1]}`, given[1]);
+  }
+  if (given.length === 0) {
+    throw new ValidationError('At least one point is required (or a route with 2+ vertices, or an area)', 'points');
+  }
+
+  const requestedTypes: DataType[] = args.dataTypes === 'all' ? [...dataTypes] : args.dataTypes;
+  const radiusKm = args.radiusKm ?? 0.2;
+  const geometryDetail = args.geometryDetail ?? 'simplified';
+  const limit = args.limit ?? 50;
+
+  // Projected input is converted up front; query metadata echoes the WGS84 equivalent
+  const inputCrs = args.inputCrs ?? 'EPSG:4326';
+  const toWgs84 = (coords: LatLon[], field: string) => coords.map((p) => inputToWgs84(p, inputCrs, field));
+
+  const area = hasArea
+    ? resolveArea(args.area!, inputCrs, args.sampleSpacingMeters)
+    : hasRoute
+      ? resolveRoute(
+          toWgs84(args.route!, 'route'),
+          args.bufferMeters ?? DEFAULT_ROUTE_BUFFER_M,
+          args.sampleSpacingMeters ?? DEFAULT_SAMPLE_SPACING_M,
+        )
+      : resolvePoints(toWgs84(args.points!, 'points'), radiusKm);
+
+  const outputCrs = args.outputCrs ?? 'EPSG:4326';
+  const queryOptions = {
+    polygonWkt: area.polygonWkt,
+    outputCrs: args.outputCrs,
+    summaryArea: area.summaryArea,
+    mapScale: args.soilMapScale,
+  };
+  const { results, errors, featureCounts, primary, pointIndices, summaries } = await queryAll(
+    requestedTypes,
+    area.perPointBboxes,
+    area.sweref99Points,
+    limit,
+    geometryDetail,
+    queryOptions,
+  );
+
+  const query = {
+    ...area.query,
+    // Envelope bbox for response metadata
+    bbox: sweref99BboxToWgs84(area.envelope),
+    ...(inputCrs !== 'EPSG:4326' && { input_crs: inputCrs }),
+    ...(args.soilMapScale && { soil_map_scale: args.soilMapScale }),
+    output_crs: outputCrs,
+  };
+
+  // Grid samples of an area are summarised; GeoJSON output keeps the samples as features as well
+  const statistics = area.gridSampled ? areaStatistics(results, pointIndices, area.sweref99Points.length) : undefined;
+  const wells = Array.isArray(results.wells)
+    ? wellStatistics(results.wells as WellFeature[], area.radiusM, featureCounts.wells?.truncated ?? false)
+    : undefined;
+
+  let response: Record<string, unknown>;
+  if (args.outputFormat === 'geojson') {
+    const geojsonInput = { results, pointIndices, sweref99Points: area.sweref99Points, crs: outputCrs };
+    const returnedTypes = requestedTypes.filter((type) => type in results);
+    // Query metadata rides along as RFC 7946 foreign members
+    response =
+      args.geojsonLayout === 'per_type'
+        ? { query, ...(primary.length > 0 && { primary }), ...toFeatureCollections(returnedTypes, geojsonInput) }
+        : { ...toFeatureCollection(returnedTypes, geojsonInput), query, ...(primary.length > 0 && { primary }) };
+    if (Object.keys(summaries).length > 0) response.summary = summaries;
+    if (wells) response.well_statistics = wells;
+    if (statistics) response.area_statistics = statistics;
+  } else {
+    response = {
+      query,
+      ...(primary.length > 0 && { primary }),
+      ...(Object.keys(summaries).length > 0 && { summary: summaries }),
+      ...(wells && { well_statistics: wells }),
+      ...results,
+      ...statistics,
+    };
+  }
+  if (Object.keys(featureCounts).length > 0) {
+    response.feature_counts = featureCounts;
+  }
   if (Object.keys(errors).length > 0) {
     response.errors = errors;
   }
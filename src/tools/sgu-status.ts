@@ -0,0 +1,80 @@
+import { withErrorHandling } from '@/lib/response';
+import { getCircuitStatus, getCircuitStatuses } from '@/lib/circuit-breaker';
+import { getQueueStatuses } from '@/lib/concurrency';
+import { getOgcServices } from '@/lib/data-registry';
+import { sguClient } from '@/clients/sgu-client';
+import { probeService, type ServiceStatus } from '@/lib/service-status';
+
+export const sguStatusInputSchema = {};
+
+export const sguStatusTool = {
+  name: 'sgu_status',
+  description:
+    'Live availability of the SGU data services. Probes every OGC API workspace (getCollections) and WMS endpoint ' +
+    '(GetCapabilities) and reports latency, HTTP status and the last error per service, per sgu_query data type ' +
+    'and per sgu_get_map layer. Also shows the circuit breaker state per host (api.sgu.se, maps3.sgu.se, ' +
+    'resource.sgu.se): "open" means requests are rejected immediately with UPSTREAM_UNAVAILABLE until retry_at. ' +
+    'The queues list the request limit, active and queued requests per host as they were before the probes. ' +
+    'Run before a site assessment to tell the user up front which data is unavailable.',
+  inputSchema: sguStatusInputSchema,
+};
+
+const SGU_HOSTS = ['api.sgu.se', 'maps3.sgu.se', 'resource.sgu.se'];
+
+type Availability = 'up' | 'degraded' | 'down';
+
+interface TargetStatus {
+  status: Availability;
+  services: string[];
+  errors?: string[];
+}
+
+// A data type or map layer served by several endpoints (soil_type: 25k and 250k) is degraded if only some are down
+function summarize(statuses: ServiceStatus[]): TargetStatus {
+  const down = statuses.filter((s) => !s.up);
+  const status: Availability = down.length === 0 ? 'up' : down.length === statuses.length ? 'down' : 'degraded';
+  return {
+    status,
+    services: statuses.map((s) => s.name),
+    ...(down.length > 0 && { errors: down.map((s) => `${s.name}: ${s.error}`) }),
+  };
+}
+
+function groupBy(services: { statuses: ServiceStatus; keys: string[] }[]): Record<string, TargetStatus> {
+  const grouped = new Map<string, ServiceStatus[]>();
+  for (const { statuses, keys } of services) {
+    for (const key of keys) {
+      grouped.set(key, [...(grouped.get(key) ?? []), statuses]);
+    }
+  }
+  return Object.fromEntries([...grouped.entries()].map(([key, statuses]) => [key, summarize(statuses)]));
+}
+
+export const sguStatusHandler = withErrorHandling(async () => {
+  // Taken before probing, so it shows the load from other requests rather than the probes'
+  const queues = getQueueStatuses();
+  const definitions = [...getOgcServices(), ...sguClient.wmsServices];
+  const services = await Promise.all(definitions.map(probeService));
+  const probed = definitions.map((d, i) => ({ definition: d, statuses: services[i] }));
+
+  const dataTypes = groupBy(probed.map((p) => ({ statuses: p.statuses, keys: p.definition.dataTypes })));
+  const mapLayers = groupBy(probed.map((p) => ({ statuses: p.statuses, keys: p.definition.mapLayers })));
+
+  const otherHosts = getCircuitStatuses().filter((status) => !SGU_HOSTS.includes(status.host));
+  const circuits = [...SGU_HOSTS.map(getCircuitStatus), ...otherHosts];
+
+  const unavailable = Object.entries(dataTypes)
+    .filter(([, t]) => t.status === 'down')
+    .map(([type]) => type);
+  const allUp = services.every((s) => s.up) && circuits.every((c) => c.state === 'closed');
+
+  return {
+    status: allUp ? 'ok' : 'degraded',
+    ...(unavailable.length > 0 && { unavailable_data_types: unavailable }),
+    data_types: dataTypes,
+    map_layers: mapLayers,
+    services,
+    circuits,
+    queues,
+  };
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { transformBoulderCoverageInfo, transformGravelDepositInfo, transformRockDepositInfo } from '@/types/point-queries';
+
+// ─── transformBoulderCoverageInfo ────────────────────────────────────────────
+
+describe('transformBoulderCoverageInfo', () => {
+  it('maps class and description', () => {
+    const result = transformBoulderCoverageInfo({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { blockighet: 3, blockighet_tx: 'Stor blockfrekvens' } }],
+    });
+
+    expect(result).toEqual({ boulder_class: '3', description: 'Stor blockfrekvens' });
+  });
+
+  it('returns null when no feature is hit', () => {
+    expect(transformBoulderCoverageInfo({ type: 'FeatureCollection', features: [] })).toBeNull();
+  });
+});
+
+// ─── transformGravelDepositInfo ──────────────────────────────────────────────
+
+describe('transformGravelDepositInfo', () => {
+  it('maps name, landform, material and quality', () => {
+    const result = transformGravelDepositInfo({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { namn: 'Uppsalaåsen', objekttyp: 'Rullstensås', material: 'Sand, grus', kvalitet: 'God' },
+        },
+      ],
+    });
+
+    expect(result).toEqual({ name: 'Uppsalaåsen', deposit_type: 'Rullstensås', material: 'Sand, grus', quality: 'God' });
+  });
+
+  it('falls back to bedomning for quality', () => {
+    const result = transformGravelDepositInfo({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { bedomning: 'Mindre lämplig' } }],
+    });
+
+    expect(result?.quality).toBe('Mindre lämplig');
+  });
+
+  it('returns null without features', () => {
+    expect(transformGravelDepositInfo({ type: 'FeatureCollection' })).toBeNull();
+  });
+});
+
+// ─── transformRockDepositInfo ────────────────────────────────────────────────
+
+describe('transformRockDepositInfo', () => {
+  it('maps rock type, quality and use', () => {
+    const result = transformRockDepositInfo({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { namn: 'Skärlunda', bergart: 'Granit', kvalitet: 'Klass 1', anvandning: 'Vägballast' },
+        },
+      ],
+    });
+
+    expect(result).toEqual({ name: 'Skärlunda', rock_type: 'Granit', quality: 'Klass 1', use: 'Vägballast' });
+  });
+
+  it('returns null without features', () => {
+    expect(transformRockDepositInfo({ type: 'FeatureCollection', features: [] })).toBeNull();
+  });
+});
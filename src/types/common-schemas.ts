@@ -35,6 +35,36 @@ export const maxLonSchema = z
   .optional()
   .describe('Maximum longitude (WGS84). Can equal minLon for point queries.');
 
+// Input coordinate system (shared by sgu_query and sgu_get_map)
+const sweref99LocalZoneCrs = [
+  'EPSG:3007',
+  'EPSG:3008',
+  'EPSG:3009',
+  'EPSG:3010',
+  'EPSG:3011',
+  'EPSG:3012',
+  'EPSG:3013',
+  'EPSG:3014',
+  'EPSG:3015',
+  'EPSG:3016',
+  'EPSG:3017',
+  'EPSG:3018',
+] as const;
+
+export const inputCrsValues = ['EPSG:4326', 'EPSG:3006', 'EPSG:3021', ...sweref99LocalZoneCrs] as const;
+
+export type InputCrs = (typeof inputCrsValues)[number];
+
+export const inputCrsSchema = z
+  .enum(inputCrsValues)
+  .optional()
+  .describe(
+    "Coordinate system of the input coordinates. 'EPSG:4326' (default, WGS84), 'EPSG:3006' (SWEREF99 TM), " +
+      "'EPSG:3021' (RT90 2.5 gon V) or a SWEREF99 local zone 'EPSG:3007'-'EPSG:3018' (e.g. EPSG:3011 = 18 00). " +
+      'For projected systems latitude/minLat/maxLat take the northing (N) and longitude/minLon/maxLon the easting (E), ' +
+      'in metres.',
+  );
+
 // Corridor parameters (flat, WGS84)
 export const coordinatesSchema = z
   .array(
@@ -49,22 +79,57 @@ export const coordinatesSchema = z
 export const bufferMetersSchema = z.number().optional().describe('Buffer in meters around bbox edges or corridor centerline (bbox default: 200, corridor default: 500)');
 
 // Image parameters
-export const widthSchema = z.number().optional().describe('Image width in pixels (100-4096, default: 800)');
+export const widthSchema = z
+  .number()
+  .int()
+  .min(100)
+  .max(4096)
+  .optional()
+  .describe('Image width in pixels (100-4096, default: 800)');
 
-export const heightSchema = z.number().optional().describe('Image height in pixels (100-4096, default: 600)');
+export const heightSchema = z
+  .number()
+  .int()
+  .min(100)
+  .max(4096)
+  .optional()
+  .describe('Image height in pixels (100-4096, default: 600)');
 
 export const formatSchema = z.enum(['png', 'jpeg']).optional().describe('Image format (default: png)');
 
+export const opacitySchema = z
+  .union([z.number(), z.array(z.number())])
+  .optional()
+  .describe(
+    'Opacity 0–1 for multi-layer maps. A number applies to every layer drawn on top of the bottom one; ' +
+      'an array gives one value per layer in the same order as layer. Default: 1 (opaque).',
+  );
+
+export const includeImageSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    'Also download the rendered map and return it as image content (max 1 MB), for clients that cannot load map_url. ' +
+      'Default: false. Use format "jpeg" or a smaller width/height for large areas.',
+  );
+
 export const geometryDetailSchema = z
   .enum(['none', 'simplified', 'full'])
   .optional()
   .describe(
-    "Geometry detail: 'none' (properties only), 'simplified' (default, reduced coordinates), 'full' (all coordinates)",
+    "Geometry detail: 'none' (properties only), 'simplified' (default, reduced coordinates within 100 m), " +
+      "'full' (all coordinates)",
   );
 
 export type GeometryDetail = 'none' | 'simplified' | 'full';
 
-export const limitSchema = z.number().optional().describe('Max features to return (1-1000, default: 50)');
+export const limitSchema = z
+  .number()
+  .optional()
+  .describe(
+    'Max features per area data type and query area (1-1000, default: 50). Results are paged up to this cap; ' +
+      'feature_counts in the response shows matched vs returned and whether the result was truncated.',
+  );
 
 // ============================================================================
 // Unified query schemas (sgu_query)
@@ -80,6 +145,9 @@ export const dataTypes = [
   'soil_depth',
   'groundwater_vulnerability',
   'landslide',
+  'boulder_coverage',
+  'gravel_deposits',
+  'rock_deposits',
 ] as const;
 
 export type DataType = (typeof dataTypes)[number];
@@ -88,18 +156,181 @@ export const dataTypesSchema = z
   .union([z.array(z.enum(dataTypes)), z.literal('all')])
   .describe(
     'Data types to query. Array of: bedrock, soil_type, groundwater_aquifers, wells, soil_layers, ' +
-      'radon_risk, soil_depth, groundwater_vulnerability, landslide. Or "all" for everything.',
+      'radon_risk, soil_depth, groundwater_vulnerability, landslide, boulder_coverage (blockiness), ' +
+      'gravel_deposits, rock_deposits (aggregate resources). Or "all" for everything.',
   );
 
 export const pointsSchema = z
   .array(z.object({ latitude: z.number(), longitude: z.number() }))
-  .describe('Query points [{latitude, longitude}, ...]. One point = site assessment. Multiple = corridor sampling.');
+  .optional()
+  .describe(
+    'Query points [{latitude, longitude}, ...]. One point = site assessment. Multiple = corridor sampling. ' +
+      'Provide exactly one of points, route or area; they are mutually exclusive.',
+  );
+
+export const routeSchema = z
+  .array(z.object({ latitude: z.number(), longitude: z.number() }))
+  .optional()
+  .describe(
+    'Route centerline [{latitude, longitude}, ...] (2+ vertices), e.g. a railway alignment. ' +
+      'Area types are queried over the whole buffered corridor (no gaps); point types are sampled along the line. ' +
+      'Provide exactly one of points, route or area; they are mutually exclusive.',
+  );
+
+// GeoJSON polygon coordinates: [x, y] positions, rings of positions, polygons of rings (outer ring first)
+const positionSchema = z.array(z.number()).min(2);
+const polygonRingsSchema = z.array(z.array(positionSchema));
+
+export const areaSchema = z
+  .union([
+    z.string(),
+    z.object({ type: z.literal('Polygon'), coordinates: polygonRingsSchema }),
+    z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonRingsSchema) }),
+  ])
+  .optional()
+  .describe(
+    'Area of interest, e.g. a property boundary: a GeoJSON Polygon/MultiPolygon object or a WKT POLYGON/MULTIPOLYGON ' +
+      'string, with [x, y] positions ([lon, lat] in WGS84, [E, N] in a projected inputCrs). Area types are filtered ' +
+      'to features intersecting the polygon; point types are sampled on a grid inside it and reported as area ' +
+      'statistics. Provide exactly one of points, route or area; they are mutually exclusive.',
+  );
+
+export type AreaInput =
+  | string
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export const routeBufferMetersSchema = z
+  .number()
+  .optional()
+  .describe('Route only: corridor half-width in meters on each side of the centerline (default: 200, max: 5000)');
+
+export const sampleSpacingMetersSchema = z
+  .number()
+  .optional()
+  .describe(
+    'Route and area only: spacing in meters between samples for point types (radon, soil depth, vulnerability, ' +
+      'landslide) — along the line for a route (default: 500), grid cell size for an area (default: about 50 samples ' +
+      'over the area). At most 100 samples.',
+  );
 
 export const radiusKmSchema = z
   .number()
   .optional()
   .describe('Search radius in km around the points (default: 0.2). Controls bbox size for area queries.');
 
+export const outputFormatSchema = z
+  .enum(['json', 'geojson'])
+  .optional()
+  .describe(
+    "Response format: 'json' (default, features keyed by data type) or 'geojson' (RFC 7946 FeatureCollection " +
+      'that loads directly into QGIS or a web map; point measurements become Point features at the query point).',
+  );
+
+export type OutputFormat = 'json' | 'geojson';
+
+export const geojsonLayoutSchema = z
+  .enum(['single', 'per_type'])
+  .optional()
+  .describe(
+    "GeoJSON output only: 'single' (default) = one FeatureCollection with a data_type property on every feature, " +
+      "'per_type' = one FeatureCollection per data type, keyed by data type.",
+  );
+
+export type GeojsonLayout = 'single' | 'per_type';
+
+export const soilMapScales = ['25k-100k', '250k'] as const;
+
+export type SoilMapScale = (typeof soilMapScales)[number];
+
+export const soilMapScaleSchema = z
+  .enum(soilMapScales)
+  .optional()
+  .describe(
+    'soil_type only: map scale to query. By default the detailed 1:25 000–1:100 000 map is tried first and ' +
+      "1:250 000 fills in at points it does not cover; every soil feature reports its map_scale. '25k-100k' or " +
+      "'250k' queries only that map.",
+  );
+
+export const outputCrsValues = ['EPSG:4326', 'EPSG:3006', ...sweref99LocalZoneCrs] as const;
+
+export type OutputCrs = (typeof outputCrsValues)[number];
+
+export const outputCrsSchema = z
+  .enum(outputCrsValues)
+  .optional()
+  .describe(
+    "Coordinate system of returned geometries. 'EPSG:4326' (default, WGS84 lon/lat), 'EPSG:3006' (SWEREF99 TM) or a " +
+      'SWEREF99 local zone: EPSG:3007 12 00, 3008 13 30, 3009 15 00, 3010 16 30, 3011 18 00, 3012 14 15, ' +
+      '3013 15 45, 3014 17 15, 3015 18 45, 3016 20 15, 3017 21 45, 3018 23 15. ' +
+      'Projected GeoJSON output gets a crs member naming the system.',
+  );
+
+// ============================================================================
+// Profile schemas (sgu_profile)
+// ============================================================================
+
+export const alignmentSchema = z
+  .array(z.object({ latitude: z.number(), longitude: z.number() }))
+  .describe('Alignment centerline [{latitude, longitude}, ...] in chainage order (2+ vertices).');
+
+export const stationIntervalMetersSchema = z
+  .number()
+  .optional()
+  .describe('Distance in meters between profile stations (default: 100). At most 100 stations per alignment.');
+
+export const startChainageMetersSchema = z
+  .number()
+  .optional()
+  .describe('Chainage in meters at the first vertex (default: 0). E.g. 12300 for an alignment starting at km 12+300.');
+
+// ============================================================================
+// Nearest deposit schemas (sgu_nearest_deposits)
+// ============================================================================
+
+export const depositKinds = ['gravel', 'rock'] as const;
+export type DepositKind = (typeof depositKinds)[number];
+
+export const latitudeSchema = z.number().describe('Latitude (WGS84) of the site. Stockholm ~59.3.');
+
+export const longitudeSchema = z.number().describe('Longitude (WGS84) of the site. Stockholm ~18.0.');
+
+export const depositKindsSchema = z
+  .array(z.enum(depositKinds))
+  .optional()
+  .describe(
+    'Deposit kinds to search (default: both). "gravel" = sand and gravel deposits (eskers, deltas), ' +
+      '"rock" = bedrock deposits assessed for crushed-rock aggregate.',
+  );
+
+export const depositCountSchema = z
+  .number()
+  .optional()
+  .describe('Number of nearest deposits to return (1-20, default: 5).');
+
+export const maxRadiusKmSchema = z
+  .number()
+  .optional()
+  .describe('Stop searching at this distance in km (max 50, default: 25).');
+
+// ============================================================================
+// Depth to rock schemas (sgu_depth_to_rock)
+// ============================================================================
+
+export const observationRadiusKmSchema = z
+  .number()
+  .optional()
+  .describe('Radius in km for wells and boreholes used as observations (max 5, default: 1).');
+
+// ============================================================================
+// Landslide screening schemas (sgu_landslide_screening)
+// ============================================================================
+
+export const screeningRadiusKmSchema = z
+  .number()
+  .optional()
+  .describe('Radius in km around the site for landslide scars, slope prerequisites and shore erosion (max 2, default: 0.5).');
+
 export interface MapOptions {
   width?: number;
   height?: number;
@@ -118,6 +118,8 @@ export interface SoilFeature {
   soil_code?: string;
   mapping_id?: string;
   area_m2?: number;
+  /** Soil map the feature comes from, '25k-100k' or '250k' (added by the data registry) */
+  map_scale?: string;
   geometry?: GeoJsonGeometry;
 }
 
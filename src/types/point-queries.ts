@@ -1,3 +1,5 @@
+import type { GeoJsonGeometry } from '@/types/geojson';
+
 // ============================================================================
 // WMS GetFeatureInfo Response Types (raw API responses)
 // ============================================================================
@@ -5,7 +7,7 @@
 // Generic wrapper — all WMS GetFeatureInfo responses are GeoJSON FeatureCollections
 interface WmsInfoResponse<P> {
   type: string;
-  features?: Array<{ type: string; id?: string; properties: P }>;
+  features?: Array<{ type: string; id?: string; geometry?: GeoJsonGeometry | null; properties: P }>;
 }
 
 export type SguSoilDepthInfoResponse = WmsInfoResponse<{
@@ -17,6 +19,18 @@ export type SguLandslideInfoResponse = WmsInfoResponse<{
   symbol?: number;
 }>;
 
+// Förutsättningar för skred i finkornig jordart — areas where slope and soil allow slides in clay and silt
+export type SguSlopePrerequisiteInfoResponse = WmsInfoResponse<{
+  Beskrivning?: string;
+  klass?: string | number;
+}>;
+
+// Stranderosion — shore sections classified by how easily they erode
+export type SguShoreErosionInfoResponse = WmsInfoResponse<{
+  Beskrivning?: string;
+  eroderbarhet?: string; // Erodibility class
+}>;
+
 export type SguGroundwaterVulnerabilityInfoResponse = WmsInfoResponse<{
   sarbarhet?: string; // Vulnerability class
   sarbarhet_tx?: string; // Text description
@@ -26,11 +40,34 @@ export type SguRadonRiskInfoResponse = WmsInfoResponse<{
   gamma_uran?: number; // Uranium concentration in Bq/kg
 }>;
 
+export type SguBoulderCoverageInfoResponse = WmsInfoResponse<{
+  blockighet?: string | number; // Boulder frequency class
+  blockighet_tx?: string; // Text description, e.g. "Stor blockfrekvens"
+}>;
+
+// Ballast database (resource.sgu.se, WMS 1.1.1) — attribute names vary between layer versions
+export type SguGravelDepositInfoResponse = WmsInfoResponse<{
+  namn?: string; // Deposit name
+  objekttyp?: string; // Landform, e.g. "Rullstensås", "Deltaavlagring"
+  material?: string; // e.g. "Sand, grus"
+  kvalitet?: string; // Quality / suitability assessment
+  bedomning?: string;
+}>;
+
+export type SguRockDepositInfoResponse = WmsInfoResponse<{
+  namn?: string;
+  bergart?: string; // Rock type, e.g. "Granit"
+  kvalitet?: string; // Quality as aggregate
+  bedomning?: string;
+  anvandning?: string; // Intended use, e.g. "Vägballast"
+}>;
+
 // ============================================================================
 // Clean Point Query Output Types
 // ============================================================================
 
 export interface SoilDepthInfo {
+  depth_m?: number;
   depth_class?: string;
   depth_description?: string;
 }
@@ -39,6 +76,19 @@ export interface LandslideInfo {
   landslide_type?: string;
   date?: string;
   description?: string;
+  /** Distance in meters from the query point to the scar (0 = on the scar) */
+  distance_m?: number;
+  /** Scars found around the query point; the fields above describe the nearest */
+  scar_count?: number;
+  /** Every scar found, nearest first (only when more than one) */
+  scars?: { description?: string; distance_m?: number }[];
+}
+
+export interface LandslideHazardInfo {
+  hazard_class?: string;
+  description?: string;
+  /** The feature's own attributes, when it has no class attribute under the expected name */
+  attributes?: Record<string, unknown>;
 }
 
 export interface GroundwaterVulnerabilityInfo {
@@ -51,6 +101,25 @@ export interface RadonRiskInfo {
   risk_level?: string; // low, moderate, high based on value
 }
 
+export interface BoulderCoverageInfo {
+  boulder_class?: string;
+  description?: string;
+}
+
+export interface GravelDepositInfo {
+  name?: string;
+  deposit_type?: string;
+  material?: string;
+  quality?: string;
+}
+
+export interface RockDepositInfo {
+  name?: string;
+  rock_type?: string;
+  quality?: string;
+  use?: string;
+}
+
 // ============================================================================
 // Point Query Transform Functions
 // ============================================================================
@@ -62,22 +131,59 @@ export function transformSoilDepthInfo(response: SguSoilDepthInfoResponse): Soil
   const raw = feature.properties.jorddjup_10x10m;
   const depth = raw !== undefined && raw < 255 ? raw : undefined;
   return {
+    depth_m: depth,
     depth_class: depth !== undefined ? `${depth} m` : undefined,
     depth_description: depth !== undefined ? `Estimated depth to bedrock: ${depth} meters (10m resolution model)` : undefined,
   };
 }
 
-export function transformLandslideInfo(response: SguLandslideInfoResponse): LandslideInfo | null {
-  const feature = response.features?.[0];
-  if (!feature) return null;
+export type SguLandslideProperties = NonNullable<SguLandslideInfoResponse['features']>[number]['properties'];
+export type SguSlopePrerequisiteProperties = NonNullable<SguSlopePrerequisiteInfoResponse['features']>[number]['properties'];
+export type SguShoreErosionProperties = NonNullable<SguShoreErosionInfoResponse['features']>[number]['properties'];
 
-  const props = feature.properties;
+// Scan result (every scar near the point, nearest first) → the nearest scar plus the full list
+export function transformScannedLandslides(features: { distance_m?: number; info: LandslideInfo }[]): LandslideInfo | null {
+  const nearest = features[0];
+  if (!nearest) return null;
+
+  return {
+    ...nearest.info,
+    distance_m: nearest.distance_m,
+    scar_count: features.length,
+    ...(features.length > 1 && {
+      scars: features.map((f) => ({ description: f.info.description, distance_m: f.distance_m })),
+    }),
+  };
+}
+
+// Per-feature transforms — also used by the landslide screening, which reads every returned feature
+export function transformLandslideProperties(props: SguLandslideProperties): LandslideInfo {
   return {
     landslide_type: props.Beskrivning,
     description: props.Beskrivning,
   };
 }
 
+// The class attribute names of the screening layers are not in SGU's layer documentation; when a feature
+// lacks them, pass its attributes through instead of reporting an empty class
+function withUnmappedAttributes(info: LandslideHazardInfo, props: object): LandslideHazardInfo {
+  return info.hazard_class === undefined ? { ...info, attributes: { ...props } } : info;
+}
+
+export function transformSlopePrerequisiteProperties(props: SguSlopePrerequisiteProperties): LandslideHazardInfo {
+  return withUnmappedAttributes(
+    {
+      hazard_class: props.klass !== undefined ? String(props.klass) : undefined,
+      description: props.Beskrivning,
+    },
+    props,
+  );
+}
+
+export function transformShoreErosionProperties(props: SguShoreErosionProperties): LandslideHazardInfo {
+  return withUnmappedAttributes({ hazard_class: props.eroderbarhet, description: props.Beskrivning }, props);
+}
+
 export function transformGroundwaterVulnerabilityInfo(
   response: SguGroundwaterVulnerabilityInfoResponse,
 ): GroundwaterVulnerabilityInfo | null {
@@ -115,3 +221,46 @@ export function transformRadonRiskInfo(response: SguRadonRiskInfoResponse): Rado
 
   return { radiation_value: value, risk_level: riskLevel };
 }
+
+export function transformBoulderCoverageInfo(response: SguBoulderCoverageInfoResponse): BoulderCoverageInfo | null {
+  const feature = response.features?.[0];
+  if (!feature) return null;
+
+  const props = feature.properties;
+  return {
+    boulder_class: props.blockighet !== undefined ? String(props.blockighet) : undefined,
+    description: props.blockighet_tx,
+  };
+}
+
+export type SguGravelDepositProperties = NonNullable<SguGravelDepositInfoResponse['features']>[number]['properties'];
+export type SguRockDepositProperties = NonNullable<SguRockDepositInfoResponse['features']>[number]['properties'];
+
+export function transformGravelDepositInfo(response: SguGravelDepositInfoResponse): GravelDepositInfo | null {
+  const feature = response.features?.[0];
+  return feature ? transformGravelDepositProperties(feature.properties) : null;
+}
+
+// Per-feature transform — also used by the nearest-deposit search, which reads every returned feature
+export function transformGravelDepositProperties(props: SguGravelDepositProperties): GravelDepositInfo {
+  return {
+    name: props.namn,
+    deposit_type: props.objekttyp,
+    material: props.material,
+    quality: props.kvalitet ?? props.bedomning,
+  };
+}
+
+export function transformRockDepositInfo(response: SguRockDepositInfoResponse): RockDepositInfo | null {
+  const feature = response.features?.[0];
+  return feature ? transformRockDepositProperties(feature.properties) : null;
+}
+
+export function transformRockDepositProperties(props: SguRockDepositProperties): RockDepositInfo {
+  return {
+    name: props.namn,
+    rock_type: props.bergart,
+    quality: props.kvalitet ?? props.bedomning,
+    use: props.anvandning,
+  };
+}